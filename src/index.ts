@@ -2,6 +2,30 @@ export * from "./ipc-server.module";
 export * from "./ipc-client.module";
 // export * from "./ipc-client.service";
 export * from "./ipc-method.decorator";
+export * from "./ipc-errors";
+export * from "./ipc-call-options";
+export * from "./ipc-cache";
+export * from "./ipc-client.options";
+export * from "./ipc-service.proxy";
+export * from "./ipc-gateway.control";
+export * from "./ipc-validation";
+export * from "./ipc-execution-context";
+export * from "./ipc-health.module";
+export * from "./ipc-admin.module";
+export * from "./ipc-access-control";
+export * from "./ipc-server.options";
+export * from "./ipc-auth";
+export * from "./ipc-metrics";
+export * from "./ipc-metrics.module";
+export * from "./ipc-tracing";
+export * from "./ipc-trace.middleware";
+export * from "./ipc-testing.module";
+export * from "./ipc-events";
+export * from "./ipc-stream";
+export * from "./ipc-files";
+export * from "./ipc-context.service";
+export * from "./ipc-circuit-breaker";
+export * from "./ipc-throttle";
 
 export {
   IPCClientConfig,
@@ -0,0 +1,214 @@
+/**
+ * IPC Access Control
+ *
+ * Gateway policy deciding which service may call which method.
+ *
+ * Usage in the Gateway's main.ts:
+ *
+ * await IPCServerModule.boot({
+ *   socketPath: '/tmp/brodox-gateway.sock',
+ *   acl: {
+ *     defaultPolicy: 'allow',
+ *     deny: ['* -> payment-service.refund'],
+ *     allow: ['admin-service -> payment-service.refund'],
+ *   },
+ * });
+ *
+ * Or with a callback:
+ *
+ * acl: ({ from, to, method }) => to !== 'payment-service' || from === 'order-service'
+ *
+ * Rules are `from -> to.method` patterns where `*` matches anything.
+ * Allow rules win over deny rules, so deny broadly and allow specific
+ * callers. Calls matching no rule get `defaultPolicy`.
+ *
+ * ipc-bro routes calls without a hook, so the policy is enforced by the
+ * handling service (IPCClientModule) before the handler runs: it asks
+ * `$gateway.authorize` once per caller/method and caches the decision
+ * until the policy changes.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Call being authorized
+ */
+export interface IPCAccessRequest {
+  from: string;
+  to: string;
+  method: string;
+}
+
+/**
+ * Rule as an object, equivalent to `'<from> -> <to>'`
+ * `to` is `service.method`, `service.*` or `*`
+ */
+export interface IPCAccessRuleObject {
+  from: string;
+  to: string;
+}
+
+export type IPCAccessRule = string | IPCAccessRuleObject;
+
+/**
+ * Declarative allow / deny lists
+ */
+export interface IPCAccessRules {
+  /**
+   * Decision for calls matching no rule (default: 'allow')
+   */
+  defaultPolicy?: "allow" | "deny";
+
+  allow?: IPCAccessRule[];
+
+  deny?: IPCAccessRule[];
+}
+
+/**
+ * Policy callback, must only depend on the request
+ * (decisions are cached by the handling services)
+ */
+export type IPCAccessPolicyFn = (
+  request: IPCAccessRequest
+) => boolean | Promise<boolean>;
+
+export type IPCAccessPolicy = IPCAccessRules | IPCAccessPolicyFn;
+
+/**
+ * Answer of `$gateway.authorize`
+ */
+export interface IPCAccessDecision {
+  allowed: boolean;
+  /** Why the call was denied, when it isn't the policy */
+  reason?: "unauthenticated";
+}
+
+/**
+ * Denied call reported to `$gateway.callDenied`
+ */
+export interface IPCAccessDenial extends IPCAccessRequest {
+  reason?: IPCAccessDecision["reason"];
+}
+
+// ============================================================================
+// ACCESS CONTROL
+// ============================================================================
+
+/**
+ * Evaluates the current policy (no policy: everything allowed)
+ */
+export class IPCAccessControl {
+  private policy?: IPCAccessPolicy;
+  private matchers?: {
+    allow: RegExp[];
+    deny: RegExp[];
+    defaultAllow: boolean;
+  };
+  private listeners: (() => void)[] = [];
+
+  constructor(policy?: IPCAccessPolicy) {
+    this.setPolicy(policy);
+  }
+
+  /**
+   * Replace the policy
+   * Listeners are notified so cached decisions can be dropped.
+   */
+  setPolicy(policy?: IPCAccessPolicy): void {
+    this.policy = policy;
+    this.matchers =
+      policy && typeof policy === "object"
+        ? {
+            allow: (policy.allow || []).map(ruleToRegExp),
+            deny: (policy.deny || []).map(ruleToRegExp),
+            defaultAllow: policy.defaultPolicy !== "deny",
+          }
+        : undefined;
+
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Get the current policy
+   */
+  getPolicy(): IPCAccessPolicy | undefined {
+    return this.policy;
+  }
+
+  /**
+   * Call `listener` whenever the policy is replaced
+   *
+   * @returns Function removing the listener
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Check if a call is allowed
+   */
+  async isAllowed(request: IPCAccessRequest): Promise<boolean> {
+    if (!this.policy) {
+      return true;
+    }
+
+    if (typeof this.policy === "function") {
+      return !!(await this.policy(request));
+    }
+
+    const { allow, deny, defaultAllow } = this.matchers!;
+    const call = `${request.from} -> ${request.to}.${request.method}`;
+
+    if (allow.some((rule) => rule.test(call))) {
+      return true;
+    }
+
+    if (deny.some((rule) => rule.test(call))) {
+      return false;
+    }
+
+    return defaultAllow;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function ruleToRegExp(rule: IPCAccessRule): RegExp {
+  const { from, to } = typeof rule === "string" ? parseRule(rule) : rule;
+
+  // `service` alone means every method of the service
+  const target = to.includes(".") || to === "*" ? to : `${to}.*`;
+
+  return globToRegExp(`${from.trim()} -> ${target.trim()}`);
+}
+
+function parseRule(rule: string): IPCAccessRuleObject {
+  const [from, to] = rule.split(/\s*(?:->|→)\s*/);
+
+  if (!from || !to) {
+    throw new Error(
+      `Invalid ACL rule "${rule}", expected "<from> -> <service>.<method>"`
+    );
+  }
+
+  return { from, to };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  return new RegExp(`^${escaped}$`);
+}
@@ -0,0 +1,185 @@
+/**
+ * IPC Gateway Admin API
+ *
+ * Opt-in module for the Gateway app: service catalog (methods with
+ * their description, timeout and metadata, connect time, last heartbeat,
+ * version) and forced disconnects.
+ *
+ * Requires a Gateway started with IPCServerModule.boot(). Method details
+ * come from services running IPCClientModule; other services are listed
+ * with method names only.
+ *
+ * Usage in the Gateway's app.module.ts:
+ *
+ * @Module({
+ *   imports: [IPCAdminModule.register()],
+ * })
+ * export class AppModule {}
+ *
+ * GET  /ipc/services                   → catalog of every service
+ * GET  /ipc/services/:name             → catalog entry (404 if not connected)
+ * POST /ipc/services/:name/disconnect  → force disconnect
+ *      body: { reason?: string, reconnectAfter?: number }
+ *
+ * The routes are not protected: add a guard (APP_GUARD) or use
+ * `register({ controller: false })` and IPCAdminService in your own
+ * controller.
+ */
+
+import {
+  Body,
+  Controller,
+  DynamicModule,
+  Get,
+  HttpCode,
+  Injectable,
+  Module,
+  NotFoundException,
+  Param,
+  Post,
+} from "@nestjs/common";
+import {
+  IPCCatalogEntry,
+  IPCDisconnectOptions,
+  IPCGatewayControl,
+} from "./ipc-gateway.control";
+import { IPCServerModule } from "./ipc-server.module";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for IPCAdminModule.register()
+ */
+export interface IPCAdminOptions {
+  /**
+   * Expose the /ipc routes (default: true)
+   */
+  controller?: boolean;
+}
+
+// ============================================================================
+// ADMIN SERVICE
+// ============================================================================
+
+/**
+ * Injectable access to the Gateway catalog
+ *
+ * Usage:
+ * constructor(private readonly admin: IPCAdminService) {}
+ *
+ * const services = this.admin.getCatalog();
+ * await this.admin.disconnectService('user-service', { reason: 'redeploy' });
+ */
+@Injectable()
+export class IPCAdminService {
+  /**
+   * Get the catalog of every connected service
+   */
+  getCatalog(): IPCCatalogEntry[] {
+    return this.getControl().getCatalog();
+  }
+
+  /**
+   * Get the catalog entry of a service
+   *
+   * @returns Entry or null if the service is not connected
+   */
+  getService(serviceName: string): IPCCatalogEntry | null {
+    return this.getControl().getCatalogEntry(serviceName);
+  }
+
+  /**
+   * Force a service to disconnect from the Gateway
+   *
+   * @param serviceName - Service to disconnect
+   * @param options - Reason and optional reconnect delay
+   */
+  async disconnectService(
+    serviceName: string,
+    options: IPCDisconnectOptions = {}
+  ): Promise<void> {
+    await this.getControl().disconnectService(serviceName, options);
+  }
+
+  private getControl(): IPCGatewayControl {
+    const control = IPCServerModule.getControl();
+
+    if (!control) {
+      throw new Error(
+        "IPC Gateway not started. Call IPCServerModule.boot() before using IPCAdminModule"
+      );
+    }
+
+    return control;
+  }
+}
+
+// ============================================================================
+// ADMIN CONTROLLER
+// ============================================================================
+
+@Controller("ipc")
+export class IPCAdminController {
+  constructor(private readonly admin: IPCAdminService) {}
+
+  @Get("services")
+  getCatalog(): IPCCatalogEntry[] {
+    return this.admin.getCatalog();
+  }
+
+  @Get("services/:name")
+  getService(@Param("name") name: string): IPCCatalogEntry {
+    const entry = this.admin.getService(name);
+
+    if (!entry) {
+      throw new NotFoundException(`Service not connected: ${name}`);
+    }
+
+    return entry;
+  }
+
+  @Post("services/:name/disconnect")
+  @HttpCode(202)
+  async disconnect(
+    @Param("name") name: string,
+    @Body() options: IPCDisconnectOptions = {}
+  ): Promise<{ disconnecting: string }> {
+    if (!this.admin.getService(name)) {
+      throw new NotFoundException(`Service not connected: ${name}`);
+    }
+
+    await this.admin.disconnectService(name, {
+      reason: options?.reason,
+      reconnectAfter:
+        options?.reconnectAfter !== undefined
+          ? Number(options.reconnectAfter)
+          : undefined,
+    });
+
+    return { disconnecting: name };
+  }
+}
+
+// ============================================================================
+// ADMIN MODULE
+// ============================================================================
+
+@Module({})
+export class IPCAdminModule {
+  /**
+   * Register the admin service (and the /ipc routes)
+   *
+   * @param options - Admin options
+   * @returns DynamicModule
+   */
+  static register(options: IPCAdminOptions = {}): DynamicModule {
+    return {
+      module: IPCAdminModule,
+      controllers: options.controller === false ? [] : [IPCAdminController],
+      providers: [IPCAdminService],
+      exports: [IPCAdminService],
+    };
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * IPC Service Authentication
+ *
+ * Services prove their identity to the Gateway right after registering,
+ * with either:
+ *
+ * - HMAC challenge-response: the Gateway sends a nonce, the service
+ *   answers HMAC-SHA256(secret, '<serviceName>:<nonce>') with its
+ *   per-service secret
+ * - Signed token: HMAC-signed token carrying the service name and the
+ *   methods it may register (create with createIPCServiceToken())
+ *
+ * Usage in the Gateway:
+ *
+ * await IPCServerModule.boot({
+ *   socketPath: '/tmp/brodox-gateway.sock',
+ *   auth: {
+ *     secrets: {
+ *       'payment-service': { env: 'PAYMENT_SERVICE_SECRET' },
+ *       'user-service': { file: '/run/secrets/user-service' },
+ *     },
+ *     tokenSecret: { env: 'IPC_TOKEN_SECRET' },
+ *   },
+ * });
+ *
+ * Usage in a service:
+ *
+ * IPCClientModule.boot({ auth: { secret: { env: 'IPC_AUTH_SECRET' } } })
+ * IPCClientModule.boot({ auth: { token: { file: '/run/secrets/ipc-token' } } })
+ *
+ * ipc-bro's registration carries no credentials, so the handshake runs
+ * through the `$gateway` control service once registered. Callers don't
+ * route to a service until it completes it. Services that fail it, don't
+ * complete it within `timeout` or reuse a name already authenticated are
+ * unregistered, asked to disconnect and every call from them is denied.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { readFileSync } from "fs";
+import { IPCError, IPCErrorCode } from "./ipc-errors";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Where a secret comes from: the value itself, an env variable or a file
+ */
+export type IPCSecretSource = string | { env: string } | { file: string };
+
+/**
+ * Service side (IPCClientModule `auth` option)
+ */
+export type IPCClientAuthConfig =
+  | { secret: IPCSecretSource }
+  | { token: IPCSecretSource };
+
+/**
+ * Gateway side (IPCServerModule `auth` option)
+ */
+export interface IPCServerAuthConfig {
+  /**
+   * Per-service secrets for the HMAC challenge-response
+   */
+  secrets?: Record<string, IPCSecretSource>;
+
+  /**
+   * Secret used to verify signed tokens
+   */
+  tokenSecret?: IPCSecretSource;
+
+  /**
+   * Time in ms a service has to authenticate after registering
+   * (default: 5000)
+   */
+  timeout?: number;
+
+  /**
+   * Lifetime in ms of a challenge nonce (default: 30000)
+   */
+  challengeTTL?: number;
+}
+
+/**
+ * Payload of a signed service token
+ */
+export interface IPCServiceTokenPayload {
+  /**
+   * Service name the token is valid for
+   */
+  service: string;
+
+  /**
+   * Methods the service may register (default: any)
+   * Patterns with `*` are allowed
+   */
+  methods?: string[];
+
+  /**
+   * Expiry, ms since epoch
+   */
+  exp?: number;
+}
+
+/**
+ * Params of `$gateway.authenticate`
+ */
+export type IPCAuthRequest =
+  | { nonce: string; signature: string }
+  | { token: string };
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Read a secret from its source
+ *
+ * @throws Error if the env variable is unset or the file is unreadable
+ */
+export function loadSecret(source: IPCSecretSource): string {
+  if (typeof source === "string") {
+    return source;
+  }
+
+  if ("env" in source) {
+    const value = process.env[source.env];
+
+    if (!value) {
+      throw new Error(`Environment variable ${source.env} is not set`);
+    }
+
+    return value;
+  }
+
+  return readFileSync(source.file, "utf8").trim();
+}
+
+/**
+ * Create a signed service token
+ *
+ * Usage:
+ * const token = createIPCServiceToken(
+ *   { service: 'payment-service', methods: ['charge', 'refund'] },
+ *   process.env.IPC_TOKEN_SECRET
+ * );
+ */
+export function createIPCServiceToken(
+  payload: IPCServiceTokenPayload,
+  secret: string
+): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(secret, body)}`;
+}
+
+/**
+ * Answer to a challenge (service side)
+ */
+export function signChallenge(
+  secret: string,
+  serviceName: string,
+  nonce: string
+): string {
+  return sign(secret, `${serviceName}:${nonce}`);
+}
+
+function sign(secret: string, data: string): string {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  return new RegExp(`^${escaped}$`).test(value);
+}
+
+// ============================================================================
+// AUTHENTICATOR (Gateway side)
+// ============================================================================
+
+/**
+ * Verifies service credentials and remembers authenticated connections
+ *
+ * A service is authenticated for one connection: it's identified by its
+ * name and `connectedAt`, so a process re-registering under the same
+ * name starts unauthenticated. Challenges are issued per connection too.
+ */
+export class IPCAuthenticator {
+  private readonly secrets = new Map<string, string>();
+  private readonly tokenSecret?: string;
+  private readonly challenges = new Map<
+    string,
+    Map<number, { nonce: string; expires: number }>
+  >();
+  private readonly authenticated = new Map<string, number>();
+  readonly timeout: number;
+  private readonly challengeTTL: number;
+
+  constructor(config: IPCServerAuthConfig) {
+    for (const [service, source] of Object.entries(config.secrets || {})) {
+      this.secrets.set(service, loadSecret(source));
+    }
+
+    this.tokenSecret = config.tokenSecret
+      ? loadSecret(config.tokenSecret)
+      : undefined;
+    this.timeout = config.timeout ?? 5000;
+    this.challengeTTL = config.challengeTTL ?? 30000;
+  }
+
+  /**
+   * Issue a nonce for the HMAC challenge-response
+   *
+   * @param service - Service name (caller of `$gateway.authChallenge`)
+   * @param connectedAt - Connection of the service
+   */
+  createChallenge(service: string, connectedAt: number): { nonce: string } {
+    const nonce = randomBytes(32).toString("base64url");
+    const challenges = this.challenges.get(service) || new Map();
+
+    challenges.set(connectedAt, {
+      nonce,
+      expires: Date.now() + this.challengeTTL,
+    });
+    this.challenges.set(service, challenges);
+    return { nonce };
+  }
+
+  /**
+   * Verify credentials of a registered service
+   *
+   * @param service - Service name (caller of `$gateway.authenticate`)
+   * @param connectedAt - Connection of the service
+   * @param methods - Methods the service registered
+   * @param request - Challenge answer or token
+   * @throws IPCError FORBIDDEN if the credentials are refused
+   */
+  verify(
+    service: string,
+    connectedAt: number,
+    methods: string[],
+    request: IPCAuthRequest
+  ): void {
+    if (this.isAuthenticatedElsewhere(service, connectedAt)) {
+      this.refuse(service, "already authenticated on another connection");
+    }
+
+    if ("token" in request) {
+      this.verifyToken(service, methods, request.token);
+    } else {
+      this.verifyChallenge(service, connectedAt, request);
+    }
+
+    this.authenticated.set(service, connectedAt);
+  }
+
+  /**
+   * Check if the current connection of a service is authenticated
+   */
+  isAuthenticated(service: string, connectedAt: number): boolean {
+    return this.authenticated.get(service) === connectedAt;
+  }
+
+  /**
+   * Check if another connection of a service is authenticated
+   */
+  isAuthenticatedElsewhere(service: string, connectedAt: number): boolean {
+    const authenticatedAt = this.authenticated.get(service);
+    return authenticatedAt !== undefined && authenticatedAt !== connectedAt;
+  }
+
+  /**
+   * Forget a connection of a service (on disconnect)
+   *
+   * Other connections under the same name keep their state.
+   */
+  forget(service: string, connectedAt: number): void {
+    if (this.authenticated.get(service) === connectedAt) {
+      this.authenticated.delete(service);
+    }
+    this.takeChallenge(service, connectedAt);
+  }
+
+  private verifyChallenge(
+    service: string,
+    connectedAt: number,
+    request: { nonce: string; signature: string }
+  ): void {
+    const secret = this.secrets.get(service);
+    const challenge = this.takeChallenge(service, connectedAt);
+
+    if (!secret) {
+      this.refuse(service, "no secret configured");
+    }
+
+    if (
+      !challenge ||
+      challenge.expires < Date.now() ||
+      !safeEqual(challenge.nonce, String(request.nonce))
+    ) {
+      this.refuse(service, "unknown or expired challenge");
+    }
+
+    if (
+      !safeEqual(
+        signChallenge(secret!, service, challenge!.nonce),
+        String(request.signature)
+      )
+    ) {
+      this.refuse(service, "invalid signature");
+    }
+  }
+
+  private verifyToken(service: string, methods: string[], token: string): void {
+    if (!this.tokenSecret) {
+      this.refuse(service, "tokens are not accepted");
+    }
+
+    const [body, signature] = String(token).split(".");
+
+    if (
+      !body ||
+      !signature ||
+      !safeEqual(sign(this.tokenSecret!, body), signature)
+    ) {
+      this.refuse(service, "invalid token signature");
+    }
+
+    let payload: IPCServiceTokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    } catch {
+      return this.refuse(service, "malformed token");
+    }
+
+    if (payload.service !== service) {
+      this.refuse(service, `token issued for ${payload.service}`);
+    }
+
+    if (payload.exp !== undefined && payload.exp < Date.now()) {
+      this.refuse(service, "token expired");
+    }
+
+    if (payload.methods) {
+      const allowed = payload.methods;
+      const extra = methods.filter(
+        (method) =>
+          !method.startsWith("$") &&
+          !allowed.some((pattern) => matchesPattern(pattern, method))
+      );
+
+      if (extra.length > 0) {
+        this.refuse(service, `methods not allowed: ${extra.join(", ")}`);
+      }
+    }
+  }
+
+  /**
+   * Remove and return the challenge issued to a connection
+   */
+  private takeChallenge(
+    service: string,
+    connectedAt: number
+  ): { nonce: string; expires: number } | undefined {
+    const challenges = this.challenges.get(service);
+    const challenge = challenges?.get(connectedAt);
+
+    challenges?.delete(connectedAt);
+    if (challenges?.size === 0) {
+      this.challenges.delete(service);
+    }
+
+    return challenge;
+  }
+
+  private refuse(service: string, reason: string): never {
+    throw new IPCError(
+      IPCErrorCode.FORBIDDEN,
+      `Authentication refused for ${service}: ${reason}`,
+      { service, reason }
+    );
+  }
+}
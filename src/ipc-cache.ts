@@ -0,0 +1,307 @@
+/**
+ * IPC Result Cache
+ *
+ * Caches IPC results on both sides of a call:
+ *
+ * - Caller side: IPCClientService.call(..., { cache: true, cacheTTL })
+ * - Handler side: @IPCCacheable({ ttl, key }) next to @IPCMethod()
+ *
+ * Entries are keyed as `<layer>:<service>.<method>:<params>`, with
+ * `client` and `server` layers, so a caller's entries never answer for
+ * the handler's and vice versa. Patterns match `<service>.<method>` in
+ * both layers:
+ *
+ * this.ipc.clearCache();                          // everything
+ * this.ipc.clearCache('user-service');            // one service
+ * this.ipc.clearCache('user-service.getUser');    // one method
+ * this.ipc.clearCache('user-service.getUser*');   // wildcard
+ *
+ * The storage is pluggable through IPCCacheStore. The default is an
+ * in-memory LRU store.
+ */
+
+// ============================================================================
+// STORE INTERFACE
+// ============================================================================
+
+/**
+ * Storage backend for cached results
+ *
+ * Methods may be sync or async, so a Redis-backed store can be plugged
+ * in the same way as the in-memory one.
+ */
+export interface IPCCacheStore {
+  get(key: string): Promise<any> | any;
+  set(key: string, value: any, ttl: number): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  keys(): Promise<string[]> | string[];
+  clear(): Promise<void> | void;
+}
+
+/**
+ * Cache configuration (IPCClientModule `cache` option)
+ */
+export interface IPCCacheConfig {
+  /**
+   * Storage backend (default: in-memory LRU)
+   */
+  store?: IPCCacheStore;
+
+  /**
+   * Default TTL in ms (default: 60000)
+   */
+  ttl?: number;
+
+  /**
+   * Max entries of the default in-memory store (default: 1000)
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Hit/miss counters for one cache layer
+ */
+export interface IPCCacheLayerStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Cache counters reported by IPCClientService.getStatus()
+ */
+export interface IPCCacheStats {
+  client: IPCCacheLayerStats;
+  server: IPCCacheLayerStats;
+}
+
+export type IPCCacheLayer = keyof IPCCacheStats;
+
+export const DEFAULT_CACHE_TTL = 60000;
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+// ============================================================================
+// IN-MEMORY LRU STORE
+// ============================================================================
+
+/**
+ * In-memory LRU store
+ *
+ * Relies on Map insertion order: reads move an entry to the end,
+ * writes evict from the front once `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements IPCCacheStore {
+  private readonly entries = new Map<
+    string,
+    { value: any; expiresAt: number }
+  >();
+
+  constructor(
+    private readonly maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES
+  ) {}
+
+  get(key: string): any {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return entry.value;
+  }
+
+  set(key: string, value: any, ttl: number): void {
+    this.entries.delete(key);
+
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    const now = Date.now();
+    const keys: string[] = [];
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now) {
+        keys.push(key);
+      }
+    }
+
+    return keys;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+/**
+ * Result cache used by IPCClientService
+ */
+export class IPCCache {
+  private readonly store: IPCCacheStore;
+  private readonly defaultTTL: number;
+  private readonly stats: IPCCacheStats = {
+    client: { hits: 0, misses: 0 },
+    server: { hits: 0, misses: 0 },
+  };
+
+  constructor(config: IPCCacheConfig = {}) {
+    this.store = config.store || new MemoryCacheStore(config.maxEntries);
+    this.defaultTTL = config.ttl ?? DEFAULT_CACHE_TTL;
+  }
+
+  /**
+   * Return the cached value for `key`, or compute and store it
+   *
+   * `undefined` results are never cached.
+   *
+   * @param layer - Layer the entry belongs to, also picks the counters
+   * @param key - Cache key (see buildCacheKey)
+   * @param ttl - TTL in ms, defaults to the configured TTL
+   * @param compute - Produces the value on a miss
+   */
+  async wrap<T>(
+    layer: IPCCacheLayer,
+    key: string,
+    ttl: number | undefined,
+    compute: () => Promise<T>
+  ): Promise<T> {
+    const entryKey = `${layer}:${key}`;
+    const cached = await this.store.get(entryKey);
+
+    if (cached !== undefined) {
+      this.stats[layer].hits++;
+      return cached;
+    }
+
+    this.stats[layer].misses++;
+
+    const value = await compute();
+
+    if (value !== undefined) {
+      await this.store.set(entryKey, value, ttl ?? this.defaultTTL);
+    }
+
+    return value;
+  }
+
+  /**
+   * Remove entries matching a pattern
+   *
+   * - No pattern: clears everything
+   * - Pattern with `*`: wildcard match on `<service>.<method>:<params>`
+   * - Pattern without `*`: a whole service ('user-service') or method
+   *   ('user-service.getUser', which leaves 'getUsers' alone)
+   *
+   * Both layers are matched.
+   *
+   * @returns Number of removed entries (undefined when fully cleared)
+   */
+  async clear(pattern?: string): Promise<number | undefined> {
+    if (!pattern) {
+      await this.store.clear();
+      return undefined;
+    }
+
+    const matcher = patternToRegExp(pattern);
+    const keys = await this.store.keys();
+    let removed = 0;
+
+    for (const key of keys) {
+      if (matcher.test(key)) {
+        await this.store.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Get hit/miss counters
+   */
+  getStats(): IPCCacheStats {
+    return {
+      client: { ...this.stats.client },
+      server: { ...this.stats.server },
+    };
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Build a cache key for a call
+ *
+ * @param service - Target service name
+ * @param method - Method name
+ * @param paramsKey - Custom key, or params object to serialize
+ */
+export function buildCacheKey(
+  service: string,
+  method: string,
+  paramsKey: any
+): string {
+  const suffix =
+    typeof paramsKey === "string" ? paramsKey : stableStringify(paramsKey);
+
+  return `${service}.${method}:${suffix}`;
+}
+
+/**
+ * JSON.stringify with sorted object keys, so `{a, b}` and `{b, a}`
+ * produce the same cache key
+ */
+export function stableStringify(value: any): string {
+  if (value === undefined) {
+    return "";
+  }
+
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === "object" && !Array.isArray(val)) {
+      return Object.keys(val)
+        .sort()
+        .reduce((sorted: Record<string, any>, k) => {
+          sorted[k] = val[k];
+          return sorted;
+        }, {});
+    }
+    return val;
+  });
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  // Without a wildcard, the pattern must end at a service or method boundary
+  return pattern.includes("*")
+    ? new RegExp(`^(?:client|server):${escaped}$`)
+    : new RegExp(`^(?:client|server):${escaped}[.:]`);
+}
@@ -0,0 +1,214 @@
+/**
+ * IPC Call Options
+ *
+ * Per-call options accepted by IPCClientService.call() and its helpers
+ * (callAll, callAllSettled, callWithRetry, callWithTimeout).
+ *
+ * Usage:
+ *
+ * await this.ipc.call('user-service', 'getUserById', { userId }, {
+ *   timeout: 5000,
+ *   retries: 3,
+ *   retryDelay: 500,
+ *   backoff: 'exponential',
+ *   retryOn: [IPCErrorCode.TIMEOUT, IPCErrorCode.CONNECTION_LOST],
+ *   context, // respect the caller's deadline
+ * });
+ */
+
+import { IPCContext } from "ipc-bro";
+import { IPCErrorCode, getIPCErrorCode } from "./ipc-errors";
+import { IPCCircuitBreakerConfig } from "./ipc-circuit-breaker";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Backoff strategy between retries
+ *
+ * - fixed:       retryDelay, retryDelay, retryDelay, ...
+ * - linear:      retryDelay, 2 * retryDelay, 3 * retryDelay, ...
+ * - exponential: retryDelay, 2 * retryDelay, 4 * retryDelay, ...
+ * - function:    custom delay for the given retry attempt (0-based)
+ */
+export type IPCBackoffStrategy =
+  | "fixed"
+  | "linear"
+  | "exponential"
+  | ((attempt: number) => number);
+
+/**
+ * Options for a single IPC call
+ */
+export interface IPCCallOptions {
+  /**
+   * Timeout for each attempt in ms
+   * Defaults to the client's configured timeout
+   */
+  timeout?: number;
+
+  /**
+   * Number of retries after the first attempt (default: 0)
+   */
+  retries?: number;
+
+  /**
+   * Base delay between retries in ms (default: 1000)
+   */
+  retryDelay?: number;
+
+  /**
+   * Backoff strategy (default: 'exponential')
+   */
+  backoff?: IPCBackoffStrategy;
+
+  /**
+   * Upper bound for a single retry delay in ms (default: 30000)
+   */
+  maxRetryDelay?: number;
+
+  /**
+   * Error codes that trigger a retry
+   * Defaults to DEFAULT_RETRYABLE_CODES
+   */
+  retryOn?: string[];
+
+  /**
+   * Context of the incoming call this call is made from
+   * Attempts and retries never run past `context.deadline`
+   */
+  context?: IPCContext;
+
+  /**
+   * Log attempts and retries for this call
+   */
+  debug?: boolean;
+
+  /**
+   * Cache the result, keyed by service, method and params
+   */
+  cache?: boolean;
+
+  /**
+   * Cache time-to-live in ms (defaults to the module's cache TTL)
+   */
+  cacheTTL?: number;
+
+  /**
+   * Custom cache key instead of the serialized params
+   */
+  cacheKey?: string;
+
+  /**
+   * Circuit breaker settings overriding the module's
+   * (false: bypass the breaker, true: use it even if the module doesn't)
+   */
+  circuitBreaker?: boolean | IPCCircuitBreakerConfig;
+}
+
+/**
+ * A call description used by callAll() and callAllSettled()
+ */
+export interface IPCCallRequest {
+  service: string;
+  method: string;
+  params?: any;
+  options?: IPCCallOptions;
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/**
+ * Error codes retried when `retryOn` is not provided
+ *
+ * METHOD_NOT_FOUND, SERVICE_NOT_FOUND, INVALID_MESSAGE and errors thrown
+ * by the remote handler itself are never retried by default.
+ */
+export const DEFAULT_RETRYABLE_CODES: string[] = [
+  IPCErrorCode.TIMEOUT,
+  IPCErrorCode.CONNECTION_LOST,
+  IPCErrorCode.NOT_CONNECTED,
+  IPCErrorCode.SERVICE_DRAINING,
+];
+
+export const DEFAULT_RETRY_DELAY = 1000;
+export const DEFAULT_MAX_RETRY_DELAY = 30000;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Compute the delay before the given retry
+ *
+ * @param attempt - Retry number, starting at 0
+ * @param options - Call options
+ * @returns Delay in ms
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: IPCCallOptions
+): number {
+  const base = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const max = options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+  const backoff = options.backoff ?? "exponential";
+
+  let delay: number;
+
+  if (typeof backoff === "function") {
+    delay = backoff(attempt);
+  } else if (backoff === "fixed") {
+    delay = base;
+  } else if (backoff === "linear") {
+    delay = base * (attempt + 1);
+  } else {
+    delay = base * Math.pow(2, attempt);
+  }
+
+  return Math.max(0, Math.min(delay, max));
+}
+
+/**
+ * Check if an error should be retried
+ *
+ * @param error - Error thrown by the attempt
+ * @param options - Call options
+ * @returns true if retryable
+ */
+export function isRetryableError(
+  error: unknown,
+  options: IPCCallOptions
+): boolean {
+  const code = getIPCErrorCode(error);
+  const retryOn = options.retryOn ?? DEFAULT_RETRYABLE_CODES;
+
+  return code !== undefined && retryOn.includes(code);
+}
+
+/**
+ * Get the time left before the caller's deadline
+ *
+ * @param context - Caller context (optional)
+ * @returns Remaining ms, or undefined if there is no deadline
+ */
+export function getRemainingTime(context?: IPCContext): number | undefined {
+  if (!context || !context.deadline) {
+    return undefined;
+  }
+
+  return context.deadline - Date.now();
+}
+
+/**
+ * Get the name of the service that made a call
+ *
+ * @param context - IPC context of the call
+ * @returns Caller service name (last entry of the call chain)
+ */
+export function getCallerService(context?: IPCContext): string | undefined {
+  const chain = context?.chain || [];
+  return chain[chain.length - 1];
+}
@@ -0,0 +1,411 @@
+/**
+ * IPC Circuit Breaker
+ *
+ * Stops calling a target that keeps failing or hanging: once too many of
+ * the recent calls failed (or were slow), calls fail fast with
+ * CIRCUIT_OPEN instead of waiting for their timeout. After `openDuration`
+ * a few probe calls go through (half-open); the circuit closes again if
+ * they succeed.
+ *
+ * Usage:
+ *
+ * IPCClientModule.register({
+ *   serviceName: 'order-service',
+ *   gatewayPath: '/tmp/brodox-gateway.sock',
+ *   circuitBreaker: {
+ *     failureRateThreshold: 50,  // % of the window
+ *     slowCallDuration: 2000,
+ *     openDuration: 10000,
+ *   },
+ * });
+ *
+ * // per call
+ * await this.ipc.call('inventory-service', 'reserve', params, {
+ *   circuitBreaker: { scope: 'method', failureRateThreshold: 25 },
+ * });
+ * await this.ipc.call('audit-service', 'log', params, { circuitBreaker: false });
+ *
+ * Breakers are keyed by target service, or by service and method with
+ * `scope: 'method'`. Only transport-level errors count as failures by
+ * default: a handler throwing VALIDATION_FAILED is a healthy service.
+ */
+
+import { IPCError, IPCErrorCode, getIPCErrorCode } from "./ipc-errors";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export type IPCCircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker settings (IPCClientModule `circuitBreaker` option and
+ * `circuitBreaker` call option)
+ */
+export interface IPCCircuitBreakerConfig {
+  /**
+   * One breaker per target service, or per service and method
+   * (default: 'service')
+   */
+  scope?: "service" | "method";
+
+  /**
+   * Open when this % of the window failed (default: 50)
+   */
+  failureRateThreshold?: number;
+
+  /**
+   * Open when this % of the window was slow (default: 100)
+   */
+  slowCallRateThreshold?: number;
+
+  /**
+   * Calls taking longer are slow, in ms (default: 10000)
+   */
+  slowCallDuration?: number;
+
+  /**
+   * Number of recent calls the rates are computed on (default: 20)
+   */
+  windowSize?: number;
+
+  /**
+   * Calls needed in the window before the rates count (default: 10)
+   */
+  minimumCalls?: number;
+
+  /**
+   * Time spent open before probing, in ms (default: 30000)
+   */
+  openDuration?: number;
+
+  /**
+   * Probe calls let through when half-open, all must succeed to close
+   * (default: 3)
+   */
+  halfOpenCalls?: number;
+
+  /**
+   * Error codes counted as failures (default: DEFAULT_BREAKER_FAILURE_CODES)
+   */
+  failOn?: string[];
+}
+
+/**
+ * Error codes counted as failures when `failOn` is not provided
+ */
+export const DEFAULT_BREAKER_FAILURE_CODES: string[] = [
+  IPCErrorCode.TIMEOUT,
+  IPCErrorCode.CONNECTION_LOST,
+  IPCErrorCode.NOT_CONNECTED,
+  IPCErrorCode.SERVICE_NOT_FOUND,
+  IPCErrorCode.SERVICE_DRAINING,
+];
+
+const DEFAULTS: Required<IPCCircuitBreakerConfig> = {
+  scope: "service",
+  failureRateThreshold: 50,
+  slowCallRateThreshold: 100,
+  slowCallDuration: 10000,
+  windowSize: 20,
+  minimumCalls: 10,
+  openDuration: 30000,
+  halfOpenCalls: 3,
+  failOn: DEFAULT_BREAKER_FAILURE_CODES,
+};
+
+/**
+ * State of one breaker, as reported by IPCClientService.getStatus()
+ */
+export interface IPCCircuitSnapshot {
+  state: IPCCircuitState;
+
+  /**
+   * % of the window that failed / was slow
+   */
+  failureRate: number;
+  slowCallRate: number;
+
+  /**
+   * Calls in the window
+   */
+  calls: number;
+
+  /**
+   * When the circuit last opened, ms since epoch
+   */
+  openedAt?: number;
+}
+
+/**
+ * Payload of the `circuit-state-changed` IPCClient event
+ */
+export interface IPCCircuitStateChange extends IPCCircuitSnapshot {
+  key: string;
+  service: string;
+  method?: string;
+  from: IPCCircuitState;
+}
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+/**
+ * Breaker of one target (count-based sliding window)
+ */
+export class IPCCircuitBreaker {
+  private state: IPCCircuitState = "closed";
+  private window: { failed: boolean; slow: boolean }[] = [];
+  private openedAt?: number;
+  private probes = 0;
+  private probeSuccesses = 0;
+
+  /**
+   * Bumped on every transition, results of calls admitted in an older
+   * generation are dropped
+   */
+  private generation = 0;
+
+  constructor(
+    readonly key: string,
+    private readonly settings: Required<IPCCircuitBreakerConfig>,
+    private readonly onStateChange: (
+      from: IPCCircuitState,
+      snapshot: IPCCircuitSnapshot
+    ) => void
+  ) {}
+
+  /**
+   * Run a call through the breaker
+   *
+   * @param settings - Settings for this call only (per-call overrides)
+   * @throws IPCError CIRCUIT_OPEN without running the call
+   */
+  async execute<T>(
+    run: () => Promise<T>,
+    settings = this.settings
+  ): Promise<T> {
+    this.acquire(settings);
+    const generation = this.generation;
+    const startedAt = Date.now();
+
+    try {
+      const result = await run();
+      this.record(generation, false, Date.now() - startedAt, settings);
+      return result;
+    } catch (error) {
+      const code = getIPCErrorCode(error);
+      this.record(
+        generation,
+        code !== undefined && settings.failOn.includes(code),
+        Date.now() - startedAt,
+        settings
+      );
+      throw error;
+    }
+  }
+
+  getState(): IPCCircuitState {
+    return this.state;
+  }
+
+  getSnapshot(): IPCCircuitSnapshot {
+    const calls = this.window.length;
+    const rate = (count: number) =>
+      calls ? Math.round((count / calls) * 10000) / 100 : 0;
+
+    return {
+      state: this.state,
+      failureRate: rate(this.window.filter((call) => call.failed).length),
+      slowCallRate: rate(this.window.filter((call) => call.slow).length),
+      calls,
+      openedAt: this.openedAt,
+    };
+  }
+
+  private acquire(settings: Required<IPCCircuitBreakerConfig>): void {
+    if (
+      this.state === "open" &&
+      Date.now() >= this.openedAt! + settings.openDuration
+    ) {
+      this.transition("half-open");
+    }
+
+    if (this.state === "half-open" && this.probes < settings.halfOpenCalls) {
+      this.probes++;
+      return;
+    }
+
+    if (this.state !== "closed") {
+      const retryAfter = Math.max(
+        0,
+        this.openedAt! + settings.openDuration - Date.now()
+      );
+
+      throw new IPCError(
+        IPCErrorCode.CIRCUIT_OPEN,
+        `Circuit open for ${this.key}, retry in ${retryAfter}ms`,
+        { key: this.key, state: this.state, retryAfter }
+      );
+    }
+  }
+
+  private record(
+    generation: number,
+    failed: boolean,
+    duration: number,
+    settings: Required<IPCCircuitBreakerConfig>
+  ): void {
+    // Late results of calls admitted before the last transition (closed
+    // calls answering once open or half-open, probes of a reopened circuit)
+    if (generation !== this.generation) {
+      return;
+    }
+
+    const slow = duration > settings.slowCallDuration;
+
+    if (this.state === "half-open") {
+      if (failed || slow) {
+        this.transition("open");
+      } else if (++this.probeSuccesses >= settings.halfOpenCalls) {
+        this.transition("closed");
+      }
+      return;
+    }
+
+    this.window.push({ failed, slow });
+    if (this.window.length > settings.windowSize) {
+      this.window.shift();
+    }
+
+    if (this.window.length < settings.minimumCalls) {
+      return;
+    }
+
+    const { failureRate, slowCallRate } = this.getSnapshot();
+
+    if (
+      failureRate >= settings.failureRateThreshold ||
+      slowCallRate >= settings.slowCallRateThreshold
+    ) {
+      this.transition("open");
+    }
+  }
+
+  private transition(state: IPCCircuitState): void {
+    const from = this.state;
+    const snapshot = this.getSnapshot();
+
+    this.state = state;
+    this.generation++;
+    this.probes = 0;
+    this.probeSuccesses = 0;
+
+    if (state === "open") {
+      this.openedAt = Date.now();
+    }
+    if (state === "closed") {
+      this.window = [];
+    }
+
+    this.onStateChange(from, { ...snapshot, state, openedAt: this.openedAt });
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/**
+ * Breakers of a client, by target
+ */
+export class IPCCircuitBreakerRegistry {
+  private readonly breakers = new Map<string, IPCCircuitBreaker>();
+
+  /**
+   * @param config - Module config, breakers are off unless set
+   * @param onStateChange - Called on every state change
+   */
+  constructor(
+    private readonly config: boolean | IPCCircuitBreakerConfig | undefined,
+    private readonly onStateChange: (change: IPCCircuitStateChange) => void
+  ) {}
+
+  /**
+   * Run a call to `service.method` through its breaker
+   *
+   * @param override - Call option: false to bypass, settings to
+   *   override the module's for this call (and enable the breaker if
+   *   it's off)
+   */
+  execute<T>(
+    service: string,
+    method: string,
+    override: boolean | IPCCircuitBreakerConfig | undefined,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const settings = this.resolve(override);
+
+    if (!settings) {
+      return run();
+    }
+
+    const key = settings.scope === "method" ? `${service}.${method}` : service;
+    let breaker = this.breakers.get(key);
+
+    if (!breaker) {
+      // Created with the module's settings: overrides apply to their
+      // call only, not to the other calls sharing the breaker
+      breaker = new IPCCircuitBreaker(
+        key,
+        this.resolve(true)!,
+        (from, snapshot) =>
+          this.onStateChange({
+            ...snapshot,
+            key,
+            service,
+            method: settings.scope === "method" ? method : undefined,
+            from,
+          })
+      );
+      this.breakers.set(key, breaker);
+    }
+
+    return breaker.execute(run, settings);
+  }
+
+  /**
+   * Get the state of every breaker, by key
+   */
+  getSnapshots(): Record<string, IPCCircuitSnapshot> {
+    return Object.fromEntries(
+      [...this.breakers].map(([key, breaker]) => [key, breaker.getSnapshot()])
+    );
+  }
+
+  /**
+   * Forget a breaker (or all of them): its circuit starts closed again
+   */
+  reset(key?: string): void {
+    if (key === undefined) {
+      this.breakers.clear();
+    } else {
+      this.breakers.delete(key);
+    }
+  }
+
+  private resolve(
+    override: boolean | IPCCircuitBreakerConfig | undefined
+  ): Required<IPCCircuitBreakerConfig> | undefined {
+    if (override === false || (!this.config && !override)) {
+      return undefined;
+    }
+
+    return {
+      ...DEFAULTS,
+      ...(typeof this.config === "object" ? this.config : {}),
+      ...(typeof override === "object" ? override : {}),
+    };
+  }
+}
@@ -2,9 +2,25 @@
  * NestJS Module for IPC Client (Services)
  */
 
-import { Module, DynamicModule, Provider, Logger } from "@nestjs/common";
-import { IPCClient, IPCClientConfig } from "ipc-bro";
+import {
+  Module,
+  DynamicModule,
+  Provider,
+  Logger,
+  Inject,
+} from "@nestjs/common";
+import { IPCClient } from "ipc-bro";
 import { IPCClientService } from "./ipc-client.service";
+import { IPCContextService } from "./ipc-context.service";
+import { IPCClientModuleConfig } from "./ipc-client.options";
+import { IPCClientAuthConfig } from "./ipc-auth";
+import {
+  IPCServiceContract,
+  createIPCServiceProxy,
+  getIPCServiceContract,
+  getIPCServiceContractMethods,
+  getIPCServiceToken,
+} from "./ipc-service.proxy";
 
 import {
   DiscoveryModule,
@@ -12,6 +28,7 @@ import {
   MetadataScanner,
   ModuleRef,
 } from "@nestjs/core";
+import { ExternalContextCreator } from "@nestjs/core/helpers/external-context-creator";
 
 // ============================================================================
 // CONSTANTS
@@ -35,8 +52,15 @@ console.log("this is message from ipc client nestjs...");
 export class IPCClientModule {
   /**
    * Register module with configuration
+   *
+   * With `name`, registers an additional client (its own connection and
+   * service identity) next to the default one:
+   *
+   * IPCClientModule.register({ name: 'partner', serviceName: 'edge', gatewayPath: '/run/partner.sock' })
+   *
+   * @InjectIPCClient('partner') private readonly partner: IPCClientService
    */
-  static register(config: IPCClientConfig): DynamicModule {
+  static register(config: IPCClientModuleConfig): DynamicModule {
     // Validate config
     if (!config.serviceName) {
       throw new Error("serviceName is required in IPCClientModule.register()");
@@ -70,46 +94,45 @@ export class IPCClientModule {
       }
     });
 
+    client.on("method-timeout", (data) => {
+      logger.warn(`Method timed out: ${data.method} (${data.timeout}ms)`);
+    });
+
     client.on("error", (error) => {
       logger.error("IPC Client error:", error);
     });
 
     // Create providers
     const clientProvider: Provider = {
-      provide: IPC_CLIENT_TOKEN,
+      provide: getIPCClientToken(config.name),
       useValue: client,
     };
 
     const configProvider: Provider = {
-      provide: IPC_CLIENT_CONFIG,
+      provide: getIPCClientConfigToken(config.name),
       useValue: config,
     };
 
-    return {
-      module: IPCClientModule,
-      providers: [
-        clientProvider,
-        configProvider,
-        IPCClientService, // Injectable service
-      ],
-      exports: [IPC_CLIENT_TOKEN, IPC_CLIENT_CONFIG, IPCClientService],
-      global: true, // Make available globally
-    };
+    return this.createModule(config.name, clientProvider, configProvider);
   }
 
   /**
    * Register module asynchronously
    */
   static registerAsync(options: {
+    /**
+     * Name of an additional client (see register())
+     */
+    name?: string;
     imports?: any[];
     inject?: any[];
-    useFactory: (...args: any[]) => Promise<IPCClientConfig> | IPCClientConfig;
+    useFactory: (
+      ...args: any[]
+    ) => Promise<IPCClientModuleConfig> | IPCClientModuleConfig;
   }): DynamicModule {
     const clientProvider: Provider = {
-      provide: IPC_CLIENT_TOKEN,
-      useFactory: async (...args: any[]) => {
-        const config = await options.useFactory(...args);
-
+      provide: getIPCClientToken(options.name),
+      useFactory: async (config: IPCClientModuleConfig) => {
         if (!config.serviceName) {
           throw new Error("serviceName is required in IPCClientModule config");
         }
@@ -123,32 +146,88 @@ export class IPCClientModule {
           logger.warn("Disconnected from Gateway")
         );
         client.on("registered", () => logger.log("Registered with Gateway"));
+        client.on("method-timeout", (data) =>
+          logger.warn(`Method timed out: ${data.method} (${data.timeout}ms)`)
+        );
         client.on("error", (error) => logger.error("IPC Client error:", error));
 
         return client;
       },
-      inject: options.inject || [],
+      inject: [getIPCClientConfigToken(options.name)],
     };
 
+    // The config, resolved once for the client and the service
     const configProvider: Provider = {
-      provide: IPC_CLIENT_CONFIG,
-      useFactory: options.useFactory,
+      provide: getIPCClientConfigToken(options.name),
+      useFactory: async (...args: any[]) => ({
+        ...(await options.useFactory(...args)),
+        name: options.name,
+      }),
       inject: options.inject || [],
     };
 
+    return this.createModule(
+      options.name,
+      clientProvider,
+      configProvider,
+      options.imports
+    );
+  }
+
+  /**
+   * Register typed proxies for remote services
+   *
+   * Usage:
+   * @Module({
+   *   imports: [
+   *     IPCClientModule.boot(),
+   *     IPCClientModule.forFeature([UserServiceContract, { service: 'cart-service' }]),
+   *   ],
+   * })
+   *
+   * Each proxy is injectable with @InjectIPCService('<service>'),
+   * class contracts also by their class.
+   */
+  static forFeature(
+    contracts: IPCServiceContract[],
+    client?: string
+  ): DynamicModule {
+    const providers: Provider[] = [];
+
+    for (const contract of contracts) {
+      const definition = getIPCServiceContract(contract);
+      const token = getIPCServiceToken(definition.service);
+
+      providers.push({
+        provide: token,
+        useFactory: (client: IPCClientService) => {
+          client.registerServiceContract(definition);
+          return createIPCServiceProxy(
+            client,
+            definition.service,
+            undefined,
+            getIPCServiceContractMethods(contract)
+          );
+        },
+        inject: [getIPCClientServiceToken(client)],
+      });
+
+      if (typeof contract === "function") {
+        providers.push({ provide: contract, useExisting: token });
+      }
+    }
+
     return {
       module: IPCClientModule,
-      imports: [...(options.imports || [])],
-      providers: [clientProvider, configProvider, IPCClientService],
-      exports: [IPC_CLIENT_TOKEN, IPC_CLIENT_CONFIG, IPCClientService],
-      global: true,
+      providers,
+      exports: providers.map((provider: any) => provider.provide),
     };
   }
 
   /**
    * Simple boot method using environment variables
    */
-  static boot(configOverride?: Partial<IPCClientConfig>): DynamicModule {
+  static boot(configOverride?: Partial<IPCClientModuleConfig>): DynamicModule {
     const serviceName = configOverride?.serviceName || process.env.SERVICE_NAME;
 
     if (!serviceName) {
@@ -157,7 +236,8 @@ export class IPCClientModule {
       );
     }
 
-    const config: IPCClientConfig = {
+    const config: IPCClientModuleConfig = {
+      name: configOverride?.name,
       serviceName,
       gatewayPath:
         configOverride?.gatewayPath ||
@@ -171,18 +251,153 @@ export class IPCClientModule {
       serializer: (configOverride?.serializer as any) || "msgpack",
       poolSize:
         configOverride?.poolSize || parseInt(process.env.IPC_POOL_SIZE || "1"),
+      cache: configOverride?.cache,
+      validation: configOverride?.validation,
+      enhancers: configOverride?.enhancers,
+      accessControl: configOverride?.accessControl,
+      auth: configOverride?.auth || getAuthFromEnv(),
+      tracing: configOverride?.tracing,
+      include: configOverride?.include,
+      exclude: configOverride?.exclude,
+      circuitBreaker: configOverride?.circuitBreaker,
+      gracePeriod:
+        configOverride?.gracePeriod ??
+        (process.env.IPC_GRACE_PERIOD
+          ? parseInt(process.env.IPC_GRACE_PERIOD)
+          : undefined),
+      files: {
+        uploadDir: process.env.IPC_UPLOAD_DIR,
+        ...configOverride?.files,
+      },
+      version: configOverride?.version || process.env.SERVICE_VERSION,
+      metadata: configOverride?.metadata,
     };
 
     return this.register(config);
   }
+
+  /**
+   * Global module of a client (default client: IPCClientService and the
+   * IPC_CLIENT / IPC_CLIENT_CONFIG tokens, named clients: their own)
+   */
+  private static createModule(
+    name: string | undefined,
+    clientProvider: Provider,
+    configProvider: Provider,
+    imports: any[] = []
+  ): DynamicModule {
+    // Named clients can't use the class token, build their service
+    const serviceProvider: Provider =
+      name === undefined
+        ? IPCClientService
+        : {
+            provide: getIPCClientServiceToken(name),
+            useFactory: (
+              client: IPCClient,
+              config: IPCClientModuleConfig,
+              discovery: DiscoveryService,
+              moduleRef: ModuleRef,
+              metadataScanner: MetadataScanner,
+              externalContextCreator: ExternalContextCreator
+            ) =>
+              new IPCClientService(
+                client,
+                config,
+                discovery,
+                moduleRef,
+                metadataScanner,
+                externalContextCreator
+              ),
+            inject: [
+              getIPCClientToken(name),
+              getIPCClientConfigToken(name),
+              DiscoveryService,
+              ModuleRef,
+              MetadataScanner,
+              ExternalContextCreator,
+            ],
+          };
+
+    return {
+      module: IPCClientModule,
+      imports,
+      providers: [
+        clientProvider,
+        configProvider,
+        serviceProvider,
+        IPCContextService,
+      ],
+      exports: [
+        getIPCClientToken(name),
+        getIPCClientConfigToken(name),
+        getIPCClientServiceToken(name),
+        IPCContextService,
+      ],
+      global: true, // Make available globally
+    };
+  }
 }
 
 // ============================================================================
 // HELPER
 // ============================================================================
 
-export function getIPCClient(moduleRef: ModuleRef): IPCClient {
-  return moduleRef.get<IPCClient>(IPC_CLIENT_TOKEN, { strict: false });
+export function getIPCClient(moduleRef: ModuleRef, name?: string): IPCClient {
+  return moduleRef.get<IPCClient>(getIPCClientToken(name), { strict: false });
+}
+
+/**
+ * Injection token of a client's IPCClient
+ */
+export function getIPCClientToken(name?: string): string {
+  return name === undefined ? IPC_CLIENT_TOKEN : `${IPC_CLIENT_TOKEN}:${name}`;
+}
+
+/**
+ * Injection token of a client's config
+ */
+export function getIPCClientConfigToken(name?: string): string {
+  return name === undefined
+    ? IPC_CLIENT_CONFIG
+    : `${IPC_CLIENT_CONFIG}:${name}`;
+}
+
+/**
+ * Injection token of a client's IPCClientService
+ */
+export function getIPCClientServiceToken(
+  name?: string
+): string | typeof IPCClientService {
+  return name === undefined ? IPCClientService : `IPCClientService:${name}`;
+}
+
+/**
+ * @InjectIPCClient() Decorator
+ *
+ * Inject the IPCClientService of a named client
+ * (the default client without a name)
+ *
+ * Usage:
+ * constructor(
+ *   @InjectIPCClient('partner') private readonly partner: IPCClientService
+ * ) {}
+ */
+export const InjectIPCClient = (name?: string) =>
+  Inject(getIPCClientServiceToken(name));
+
+/**
+ * Credentials from IPC_AUTH_TOKEN or IPC_AUTH_SECRET (used by boot())
+ */
+function getAuthFromEnv(): IPCClientAuthConfig | undefined {
+  if (process.env.IPC_AUTH_TOKEN) {
+    return { token: { env: "IPC_AUTH_TOKEN" } };
+  }
+
+  if (process.env.IPC_AUTH_SECRET) {
+    return { secret: { env: "IPC_AUTH_SECRET" } };
+  }
+
+  return undefined;
 }
 
 export { IPCClientService };
@@ -0,0 +1,92 @@
+/**
+ * IPC Client Module Options
+ *
+ * Configuration accepted by IPCClientModule.register(), registerAsync()
+ * and boot(). Extends the ipc-bro client config with the options handled
+ * by this package; the ipc-bro part is passed to IPCClient unchanged.
+ */
+
+import { IPCClientConfig } from "ipc-bro";
+import { IPCCacheConfig } from "./ipc-cache";
+import { IPCValidationConfig } from "./ipc-validation";
+import { IPCClientAuthConfig } from "./ipc-auth";
+import { IPCTracingConfig } from "./ipc-tracing";
+import { IPCFilesConfig } from "./ipc-files";
+import { IPCCircuitBreakerConfig } from "./ipc-circuit-breaker";
+
+export interface IPCClientModuleConfig extends IPCClientConfig {
+  /**
+   * Name of an additional client, injected with @InjectIPCClient(name)
+   * (default: the default client, injected as IPCClientService)
+   */
+  name?: string;
+
+  /**
+   * Result cache used by call(..., { cache: true }) and @IPCCacheable()
+   */
+  cache?: IPCCacheConfig;
+
+  /**
+   * Params validation of @IPCMethod handlers
+   */
+  validation?: IPCValidationConfig;
+
+  /**
+   * Modules scanned for @IPCMethod / @IPCEventHandler methods
+   * (default: every module)
+   */
+  include?: Function[];
+
+  /**
+   * Modules not scanned for @IPCMethod / @IPCEventHandler methods
+   */
+  exclude?: Function[];
+
+  /**
+   * Run @IPCMethod handlers through Nest guards, interceptors, pipes
+   * and exception filters (default: true)
+   */
+  enhancers?: boolean;
+
+  /**
+   * Enforce the gateway's ACL policy on incoming calls (default: true)
+   */
+  accessControl?: boolean;
+
+  /**
+   * Credentials proving this service's identity to the gateway
+   */
+  auth?: IPCClientAuthConfig;
+
+  /**
+   * Create spans for calls and handlers (true: log them to the console)
+   */
+  tracing?: boolean | IPCTracingConfig;
+
+  /**
+   * Upload directory, size limit and TTL of sendFile() transfers
+   */
+  files?: IPCFilesConfig;
+
+  /**
+   * Fail fast with CIRCUIT_OPEN when a target keeps failing or hanging
+   * (true: default settings)
+   */
+  circuitBreaker?: boolean | IPCCircuitBreakerConfig;
+
+  /**
+   * Longest wait for in-flight handlers when shutting down, in ms
+   * (default: 10000)
+   */
+  gracePeriod?: number;
+
+  /**
+   * Service version shown in the gateway catalog
+   */
+  version?: string;
+
+  /**
+   * Custom service metadata shown in the gateway catalog
+   */
+  metadata?: Record<string, any>;
+}
@@ -0,0 +1,168 @@
+/**
+ * IPC Client Proxy
+ *
+ * Nest ClientProxy over ipc-bro: send() / emit() on a pattern become
+ * calls to a service on the gateway. Pairs with IPCTransportStrategy.
+ *
+ * Usage (shared connection, recommended inside an IPCClientModule app):
+ *
+ * @Module({
+ *   imports: [IPCClientModule.boot()],
+ *   providers: [
+ *     {
+ *       provide: 'USER_SERVICE',
+ *       useFactory: (ipc: IPCClientService) =>
+ *         new IPCClientProxy({ service: 'user-service', client: ipc }),
+ *       inject: [IPCClientService],
+ *     },
+ *   ],
+ * })
+ *
+ * Usage (own connection, e.g. with ClientsModule):
+ *
+ * ClientsModule.register([
+ *   {
+ *     name: 'USER_SERVICE',
+ *     customClass: IPCClientProxy,
+ *     options: {
+ *       service: 'user-service',
+ *       serviceName: 'order-service-client',
+ *       gatewayPath: '/tmp/brodox-gateway.sock',
+ *     },
+ *   },
+ * ])
+ *
+ * constructor(@Inject('USER_SERVICE') private readonly users: ClientProxy) {}
+ *
+ * const user = await firstValueFrom(this.users.send('get_user', { userId }));
+ * this.users.emit('user_seen', { userId });
+ */
+
+import { ClientProxy, ReadPacket, WritePacket } from "@nestjs/microservices";
+import { IPCClient, IPCClientConfig } from "ipc-bro";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Anything that can make an IPC call (IPCClient or IPCClientService)
+ */
+export interface IPCCaller {
+  call<T = any>(service: string, method: string, params?: any): Promise<T>;
+}
+
+/**
+ * Options for IPCClientProxy
+ *
+ * Pass `client` to share an existing connection, or the ipc-bro client
+ * config to open a dedicated one on connect().
+ */
+export type IPCClientProxyOptions = { service: string } & (
+  | { client: IPCCaller }
+  | IPCClientConfig
+);
+
+// ============================================================================
+// CLIENT PROXY
+// ============================================================================
+
+/**
+ * Nest ClientProxy routing patterns to one remote service
+ */
+export class IPCClientProxy extends ClientProxy {
+  private readonly service: string;
+  private readonly ownedClient?: IPCClient;
+  private readonly client: IPCCaller;
+  private connection?: Promise<void>;
+
+  constructor(options: IPCClientProxyOptions) {
+    super();
+
+    this.service = options.service;
+
+    if ("client" in options) {
+      this.client = options.client;
+    } else {
+      const { service: _service, ...config } = options;
+      this.ownedClient = new IPCClient(config);
+      this.client = this.ownedClient;
+    }
+  }
+
+  /**
+   * Connect the dedicated IPCClient (no-op for a shared client)
+   */
+  async connect(): Promise<void> {
+    if (!this.ownedClient) {
+      return;
+    }
+
+    if (!this.connection) {
+      this.connection = this.ownedClient.connect().then(
+        () => this._status$.next("connected"),
+        (error) => {
+          this.connection = undefined;
+          throw error;
+        }
+      );
+    }
+
+    return this.connection;
+  }
+
+  async close(): Promise<void> {
+    if (this.ownedClient && this.connection) {
+      this.connection = undefined;
+      await this.ownedClient.disconnect();
+      this._status$.next("disconnected");
+    }
+  }
+
+  on(event: string, callback: Function): void {
+    if (!this.ownedClient) {
+      throw new Error("Events are only available on a dedicated IPCClient");
+    }
+
+    this.ownedClient.on(event, callback as (...args: any[]) => void);
+  }
+
+  unwrap<T>(): T {
+    return (this.ownedClient ?? this.client) as T;
+  }
+
+  protected publish(
+    packet: ReadPacket,
+    callback: (packet: WritePacket) => void
+  ): () => void {
+    let disposed = false;
+
+    this.client
+      .call(this.service, this.normalizePattern(packet.pattern), packet.data)
+      .then(
+        (response) => {
+          if (!disposed) {
+            callback({ response, isDisposed: true });
+          }
+        },
+        (err) => {
+          if (!disposed) {
+            callback({ err });
+          }
+        }
+      );
+
+    // IPC calls can't be cancelled, drop the result on unsubscribe
+    return () => {
+      disposed = true;
+    };
+  }
+
+  protected dispatchEvent<T = any>(packet: ReadPacket): Promise<T> {
+    return this.client.call(
+      this.service,
+      this.normalizePattern(packet.pattern),
+      packet.data
+    );
+  }
+}
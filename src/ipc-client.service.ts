@@ -10,15 +10,101 @@ import {
   OnModuleDestroy,
   Logger,
   Inject,
+  PipeTransform,
+  Type,
 } from "@nestjs/common";
-import { IPCClient, IPCClientConfig } from "ipc-bro";
+import { IPCClient, IPCContext } from "ipc-bro";
+import { AsyncLocalStorage } from "async_hooks";
+import { Observable } from "rxjs";
 import {
+  ContextId,
+  ContextIdFactory,
   DiscoveryModule,
   DiscoveryService,
   MetadataScanner,
   ModuleRef,
 } from "@nestjs/core";
-import { IPC_METHOD_METADATA_KEY } from "./ipc-method.decorator";
+import { ExternalContextCreator } from "@nestjs/core/helpers/external-context-creator";
+import { InstanceWrapper } from "@nestjs/core/injector/instance-wrapper";
+import {
+  getIPCCacheableOptions,
+  resolveIPCMethodMetadata,
+} from "./ipc-method.decorator";
+import { IPC_ARGS_METADATA, IPCParamsResolver } from "./ipc-params.resolver";
+import { IPC_CONTEXT_TYPE, IPCRequest } from "./ipc-execution-context";
+import {
+  IPCCallOptions,
+  IPCCallRequest,
+  getRetryDelay,
+  getRemainingTime,
+  getCallerService,
+  isRetryableError,
+} from "./ipc-call-options";
+import { IPCError, IPCErrorCode, isIPCError } from "./ipc-errors";
+import { IPCAccessDecision } from "./ipc-access-control";
+import { loadSecret, signChallenge } from "./ipc-auth";
+import { IPCCache, buildCacheKey } from "./ipc-cache";
+import {
+  IPCStartSpanOptions,
+  IPCTracer,
+  extractTraceparent,
+  injectTraceparent,
+} from "./ipc-tracing";
+import { IPCClientModuleConfig } from "./ipc-client.options";
+import {
+  DEFAULT_GRACE_PERIOD,
+  IPC_ACL_CHANGED_METHOD,
+  IPC_DISCONNECT_METHOD,
+  IPC_GATEWAY_SERVICE,
+  IPC_ROUTES_CHANGED_METHOD,
+  IPCCatalogMethod,
+  IPCDisconnectOptions,
+  IPCGatewayServiceInfo,
+  IPCRouteBlock,
+  IPCRoutesUpdate,
+} from "./ipc-gateway.control";
+import {
+  IPC_EVENT_METHOD,
+  IPCEmitOptions,
+  IPCEvent,
+  IPCEventHandlerDefinition,
+  IPCPublishResult,
+  getIPCEventHandlerPatterns,
+  matchesTopic,
+} from "./ipc-events";
+import {
+  IPC_STREAM_CANCEL_METHOD,
+  IPC_STREAM_PULL_METHOD,
+  IPCStreamChunk,
+  IPCStreamHandle,
+  IPCStreamInfo,
+  IPCStreamMetadata,
+  IPCStreamRegistry,
+  IPCStreamRequest,
+  createStreamError,
+  getIPCStreamMetadata,
+  getStreamPullWait,
+  isIPCStreamHandle,
+  wrapStreamMethod,
+} from "./ipc-stream";
+import { IPCFileSource, IPCFileStore, IPCSendFileOptions } from "./ipc-files";
+import {
+  extractContext,
+  injectContext,
+  ipcContextStorage,
+  mergeContext,
+} from "./ipc-context.service";
+import {
+  IPCMethodLimiter,
+  getIPCConcurrencyOptions,
+  getIPCThrottleOptions,
+} from "./ipc-throttle";
+import {
+  IPCCircuitBreakerRegistry,
+  IPCCircuitStateChange,
+} from "./ipc-circuit-breaker";
+import { IPCServiceContractDefinition } from "./ipc-service.proxy";
+import { IPCValidator, createValidationError } from "./ipc-validation";
 
 // ============================================================================
 // CONSTANTS
@@ -36,23 +122,86 @@ import { Injectable } from "@nestjs/common";
 @Injectable()
 export class IPCClientService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(IPCClientService.name);
+  private readonly cache: IPCCache;
+  private readonly files: IPCFileStore;
+  private readonly validator: IPCValidator;
+  private readonly contracts = new Map<string, string[]>();
+  private readonly catalog: IPCCatalogMethod[] = [];
+  private readonly eventHandlers: IPCEventHandlerDefinition[] = [];
+  private readonly streams = new IPCStreamRegistry();
+  private readonly breakers: IPCCircuitBreakerRegistry;
+  private readonly accessDecisions = new Map<
+    string,
+    Promise<IPCAccessDecision>
+  >();
+  private blockedServices: Record<string, IPCRouteBlock> = {};
+  private readonly credentials?: { secret: string } | { token: string };
+  private readonly tracer?: IPCTracer;
+  private reconnectTimer?: NodeJS.Timeout;
+  private draining?: Promise<void>;
+  private inFlight = 0;
 
   constructor(
     @Inject(IPC_CLIENT_TOKEN) private readonly client: IPCClient,
-    @Inject(IPC_CLIENT_CONFIG) private readonly config: IPCClientConfig,
+    @Inject(IPC_CLIENT_CONFIG) private readonly config: IPCClientModuleConfig,
     private readonly discovery: DiscoveryService,
     private readonly moduleRef: ModuleRef,
-    private readonly metadataScanner: MetadataScanner
+    private readonly metadataScanner: MetadataScanner,
+    private readonly externalContextCreator: ExternalContextCreator
   ) {
+    this.cache = new IPCCache(config.cache);
+    this.validator = new IPCValidator(config.validation);
+    this.files = new IPCFileStore(config.files);
+    this.breakers = new IPCCircuitBreakerRegistry(
+      config.circuitBreaker,
+      (change) => this.onCircuitStateChange(change)
+    );
+
+    // Read secrets at startup so a missing one fails fast
+    if (config.auth) {
+      this.credentials =
+        "token" in config.auth
+          ? { token: loadSecret(config.auth.token) }
+          : { secret: loadSecret(config.auth.secret) };
+    }
+
+    if (config.tracing) {
+      this.tracer = new IPCTracer(
+        config.serviceName,
+        config.tracing === true ? {} : config.tracing
+      );
+    }
     this.logger.log("IPCClientService initialized");
   }
 
   async onModuleInit(): Promise<void> {
     try {
-      this.discoverAndRegisterMethods();
+      await this.discoverAndRegisterMethods();
+      this.registerControlMethods();
+      this.files.startSweeping((error) =>
+        this.logger.debug(`Upload sweep failed: ${(error as Error).message}`)
+      );
+
+      // Registration only carries method names, publish the rest
+      this.client.on("registered", async () => {
+        this.accessDecisions.clear();
+        await this.authenticate();
+        await this.publishCatalog();
+        await this.subscribeEvents();
+      });
+
+      // The gateway sends the routes again on registration
+      this.client.on("disconnected", () => {
+        this.blockedServices = {};
+      });
+
       this.logger.log(`Connecting to Gateway: ${this.config.serviceName}`);
       await this.client.connect();
       this.logger.log("✓ Connected to Gateway");
+
+      if (this.config.debug && this.contracts.size > 0) {
+        void this.verifyServiceContracts();
+      }
     } catch (error) {
       this.logger.error("Failed to connect to Gateway:", error);
       throw error;
@@ -60,24 +209,337 @@ export class IPCClientService implements OnModuleInit, OnModuleDestroy {
   }
 
   async onModuleDestroy(): Promise<void> {
+    this.files.stopSweeping();
+
     try {
-      this.logger.log("Disconnecting from Gateway...");
-      await this.client.disconnect();
-      this.logger.log("✓ Disconnected from Gateway");
+      await this.drain();
     } catch (error) {
       this.logger.error("Error during disconnect:", error);
     }
+
+    await this.tracer?.shutdown();
+  }
+
+  /**
+   * Stop taking calls, let the in-flight ones finish, then disconnect
+   *
+   * The gateway lists the service as draining and callers stop sending
+   * it calls (failing with SERVICE_DRAINING, retried by callWithRetry()
+   * or calls setting `retries`). Calls and events still arriving are
+   * refused the same way.
+   * Handlers and open streams get up to `gracePeriod` ms to finish.
+   *
+   * Runs on module destroy, so on SIGTERM with app.enableShutdownHooks().
+   *
+   * Usage:
+   * await this.ipc.drain(30000);
+   */
+  drain(
+    gracePeriod = this.config.gracePeriod ?? DEFAULT_GRACE_PERIOD
+  ): Promise<void> {
+    this.draining ??= this.runDrain(gracePeriod);
+    return this.draining;
+  }
+
+  /**
+   * Check if the service is draining
+   */
+  isDraining(): boolean {
+    return this.draining !== undefined;
   }
 
   /**
    * Call remote service method
+   *
+   * Usage:
+   * await this.ipc.call('user-service', 'getUserById', { userId });
+   *
+   * await this.ipc.call('user-service', 'getUserById', { userId }, {
+   *   timeout: 5000,
+   *   retries: 2,
+   * });
+   *
+   * Made while handling an IPC call, the call continues its context
+   * (chain, depth, deadline). Pass `context` to use another one.
+   *
+   * await this.ipc.call('user-service', 'getUserById', { userId }, {
+   *   cache: true,
+   *   cacheTTL: 60000,
+   * });
    */
   async call<T = any>(
     targetService: string,
     method: string,
-    params: any = {}
+    params: any = {},
+    options: IPCCallOptions = {}
   ): Promise<T> {
-    return this.client.call<T>(targetService, method, params);
+    const ambient = ipcContextStorage.getStore();
+    if (!options.context && ambient) {
+      options = { ...options, context: ambient };
+    }
+
+    const span: IPCStartSpanOptions = {
+      kind: "client",
+      attributes: {
+        "rpc.system": "ipc",
+        "rpc.service": targetService,
+        "rpc.method": method,
+      },
+    };
+
+    return this.traced(`${targetService}.${method}`, span, () => {
+      if (!options.cache) {
+        return this.invoke<T>(targetService, method, params, options);
+      }
+
+      const key = buildCacheKey(
+        targetService,
+        method,
+        options.cacheKey ?? params
+      );
+
+      return this.cache.wrap("client", key, options.cacheTTL, () =>
+        this.invoke<T>(targetService, method, params, options)
+      );
+    });
+  }
+
+  /**
+   * Call a method with a file, handed over through the upload directory
+   *
+   * The file is copied to the upload directory with its checksum, the
+   * handler gets an IPCFileHandle in `params.file`. The copy is deleted
+   * once the call returned.
+   *
+   * Usage:
+   * await this.ipc.sendFile('media-service', 'transcode', '/data/in.mp4', {
+   *   format: 'webm',
+   * });
+   *
+   * await this.ipc.sendFile('pdf-service', 'render', buffer, {}, {
+   *   field: 'template',
+   *   name: 'invoice.html',
+   *   timeout: 60000,
+   * });
+   *
+   * @param source - File path, Buffer or readable stream
+   */
+  async sendFile<T = any>(
+    targetService: string,
+    method: string,
+    source: IPCFileSource,
+    params: Record<string, any> = {},
+    options: IPCCallOptions & IPCSendFileOptions = {}
+  ): Promise<T> {
+    const { field = "file", name, mimeType, ...callOptions } = options;
+    const file = await this.files.write(source, { name, mimeType });
+
+    try {
+      return await this.call<T>(
+        targetService,
+        method,
+        { ...params, [field]: file },
+        callOptions
+      );
+    } finally {
+      await this.files.release([file]);
+    }
+  }
+
+  /**
+   * Publish an event to every service subscribed to its topic
+   *
+   * Fire-and-forget by default (at-most-once). With `ack`, resolves once
+   * every subscriber handled it, failures are listed in the result.
+   *
+   * Usage:
+   * await this.ipc.emit('order.created', { orderId });
+   *
+   * const { failed } = await this.ipc.emit('cache.flush', {}, { ack: true });
+   */
+  async emit<T = any>(
+    topic: string,
+    payload?: T,
+    options: IPCEmitOptions = {}
+  ): Promise<IPCPublishResult> {
+    return this.client.call<IPCPublishResult>(IPC_GATEWAY_SERVICE, "publish", {
+      topic,
+      payload,
+      ack: options.ack,
+    });
+  }
+
+  /**
+   * Call a stream method (@IPCStream) and receive its items as they come
+   *
+   * The stream is opened on subscribe (with the call options) and pulled
+   * chunk by chunk through the gateway. Unsubscribing cancels it on the
+   * producing service. A regular method gives a one-item stream.
+   *
+   * Usage:
+   * this.ipc.stream<Row>('report-service', 'exportRows', { year })
+   *   .subscribe({ next: (row) => ..., error: (e) => ..., complete: () => ... });
+   *
+   * for await (const row of eachValueFrom(this.ipc.stream<Row>(...))) { ... }
+   */
+  stream<T = any>(
+    targetService: string,
+    method: string,
+    params: any = {},
+    options: IPCCallOptions = {}
+  ): Observable<T> {
+    return new Observable<T>((subscriber) => {
+      let streamId: string | undefined;
+      let finished = false;
+
+      const cancel = () => {
+        if (streamId === undefined) {
+          return;
+        }
+
+        this.client
+          .call(targetService, IPC_STREAM_CANCEL_METHOD, { streamId })
+          .catch((error) =>
+            this.logger.debug(
+              `Stream ${targetService}.${method} not cancelled: ${
+                (error as Error).message
+              }`
+            )
+          );
+      };
+
+      const run = async () => {
+        const opened = await this.call<T | IPCStreamHandle>(
+          targetService,
+          method,
+          params,
+          options
+        );
+
+        if (!isIPCStreamHandle(opened)) {
+          finished = true;
+          subscriber.next(opened);
+          subscriber.complete();
+          return;
+        }
+
+        streamId = opened.$stream;
+
+        // Unsubscribed while opening
+        if (subscriber.closed) {
+          return cancel();
+        }
+
+        while (!subscriber.closed) {
+          // Same timeout, deadline, circuit and routes as the opening call
+          const timeout = minDefined(
+            options.timeout ?? this.config.timeout,
+            getRemainingTime(options.context)
+          );
+          const chunk = await this.callOnce<IPCStreamChunk<T>>(
+            targetService,
+            IPC_STREAM_PULL_METHOD,
+            { streamId, wait: getStreamPullWait(timeout) },
+            options
+          );
+
+          finished = chunk.done;
+
+          for (const item of chunk.items) {
+            subscriber.next(item);
+          }
+
+          if (chunk.error) {
+            throw createStreamError(chunk.error);
+          }
+
+          if (chunk.done) {
+            subscriber.complete();
+          }
+        }
+      };
+
+      run().catch((error) => {
+        finished = true;
+        subscriber.error(error);
+      });
+
+      return () => {
+        if (!finished) {
+          finished = true;
+          cancel();
+        }
+      };
+    });
+  }
+
+  /**
+   * Call multiple services in parallel
+   *
+   * Throws if ANY call fails.
+   *
+   * Usage:
+   * const [user, orders] = await this.ipc.callAll([
+   *   { service: 'user-service', method: 'getUserById', params: { userId } },
+   *   { service: 'order-service', method: 'getOrders', params: { userId } },
+   * ]);
+   */
+  async callAll<T extends any[] = any[]>(calls: IPCCallRequest[]): Promise<T> {
+    return Promise.all(
+      calls.map((c) => this.call(c.service, c.method, c.params, c.options))
+    ) as Promise<T>;
+  }
+
+  /**
+   * Call multiple services in parallel with error tolerance
+   *
+   * Never throws - returns all results.
+   */
+  async callAllSettled<T = any>(
+    calls: IPCCallRequest[]
+  ): Promise<PromiseSettledResult<T>[]> {
+    return Promise.allSettled(
+      calls.map((c) => this.call<T>(c.service, c.method, c.params, c.options))
+    );
+  }
+
+  /**
+   * Call with automatic retries on transient errors
+   *
+   * Defaults to 3 retries with exponential backoff (1s, 2s, 4s).
+   *
+   * Usage:
+   * await this.ipc.callWithRetry('flaky-service', 'getData', { id }, {
+   *   retries: 5,
+   *   retryDelay: 200,
+   *   backoff: 'linear',
+   * });
+   */
+  async callWithRetry<T = any>(
+    targetService: string,
+    method: string,
+    params: any = {},
+    options: IPCCallOptions = {}
+  ): Promise<T> {
+    return this.call<T>(targetService, method, params, {
+      ...options,
+      retries: options.retries ?? 3,
+    });
+  }
+
+  /**
+   * Call with a timeout override
+   *
+   * Usage:
+   * await this.ipc.callWithTimeout('slow-service', 'heavyOperation', {}, 5000);
+   */
+  async callWithTimeout<T = any>(
+    targetService: string,
+    method: string,
+    params: any,
+    timeoutMs: number
+  ): Promise<T> {
+    return this.call<T>(targetService, method, params, { timeout: timeoutMs });
   }
 
   /**
@@ -94,7 +556,58 @@ export class IPCClientService implements OnModuleInit, OnModuleDestroy {
    * Get client status
    */
   getStatus() {
-    return this.client.getStatus();
+    return {
+      ...this.client.getStatus(),
+      draining: this.isDraining(),
+      inFlight: this.inFlight,
+      cache: this.cache.getStats(),
+      circuits: this.breakers.getSnapshots(),
+    };
+  }
+
+  /**
+   * Clear cached results
+   *
+   * Usage:
+   * await this.ipc.clearCache();                         // everything
+   * await this.ipc.clearCache('user-service');           // one service
+   * await this.ipc.clearCache('user-service.getUser');   // one method
+   * await this.ipc.clearCache('user-service.getUser*');  // wildcard
+   */
+  async clearCache(pattern?: string): Promise<void> {
+    const removed = await this.cache.clear(pattern);
+
+    if (this.config.debug) {
+      this.logger.debug(
+        pattern
+          ? `Cleared ${removed} cache entries matching "${pattern}"`
+          : "Cleared cache"
+      );
+    }
+  }
+
+  /**
+   * Get what the gateway knows about a remote service
+   *
+   * Requires a gateway started with IPCServerModule.boot().
+   *
+   * @returns Service info, or null if the service is not connected
+   */
+  async getRemoteService(
+    serviceName: string
+  ): Promise<IPCGatewayServiceInfo | null> {
+    return this.call(IPC_GATEWAY_SERVICE, "getService", { serviceName });
+  }
+
+  /**
+   * Remember a contract registered with IPCClientModule.forFeature()
+   * In debug mode its methods are checked against the gateway on connect.
+   */
+  registerServiceContract(definition: IPCServiceContractDefinition): void {
+    const methods = this.contracts.get(definition.service) || [];
+    this.contracts.set(definition.service, [
+      ...new Set([...methods, ...(definition.methods || [])]),
+    ]);
   }
 
   /**
@@ -104,6 +617,20 @@ export class IPCClientService implements OnModuleInit, OnModuleDestroy {
     return this.client.isConnected();
   }
 
+  /**
+   * Get the streams opened on this service by callers
+   */
+  getStreams(): IPCStreamInfo[] {
+    return this.streams.getStreams();
+  }
+
+  /**
+   * Get the tracer (undefined unless the `tracing` option is set)
+   */
+  getTracer(): IPCTracer | undefined {
+    return this.tracer;
+  }
+
   /**
    * Get raw client instance
    */
@@ -111,56 +638,492 @@ export class IPCClientService implements OnModuleInit, OnModuleDestroy {
     return this.client;
   }
 
+  /**
+   * Call with retries, bounded by the caller's deadline
+   */
+  private async invoke<T>(
+    targetService: string,
+    method: string,
+    params: any,
+    options: IPCCallOptions
+  ): Promise<T> {
+    const retries = options.retries ?? 0;
+    const target = `${targetService}.${method}`;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.callOnce<T>(targetService, method, params, options);
+      } catch (error) {
+        if (attempt >= retries || !isRetryableError(error, options)) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(attempt, options);
+        const remaining = getRemainingTime(options.context);
+
+        // Don't sleep past the caller's deadline
+        if (remaining !== undefined && remaining <= delay) {
+          throw error;
+        }
+
+        if (options.debug || this.config.debug) {
+          this.logger.debug(
+            `Retrying ${target} in ${delay}ms (${attempt + 1}/${retries}): ${
+              (error as Error).message
+            }`
+          );
+        }
+
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Single call attempt, bounded by the call timeout and the caller's deadline
+   */
+  private async callOnce<T>(
+    targetService: string,
+    method: string,
+    params: any,
+    options: IPCCallOptions
+  ): Promise<T> {
+    const target = `${targetService}.${method}`;
+    const remaining = getRemainingTime(options.context);
+
+    if (remaining !== undefined && remaining <= 0) {
+      throw new IPCError(
+        IPCErrorCode.TIMEOUT,
+        `Deadline exceeded before calling ${target}`
+      );
+    }
+
+    // Draining, unauthenticated or refused by the gateway
+    const blocked = this.blockedServices[targetService];
+    if (blocked === "draining") {
+      throw new IPCError(
+        IPCErrorCode.SERVICE_DRAINING,
+        `${targetService} is shutting down`,
+        { service: targetService, method }
+      );
+    }
+    if (blocked) {
+      throw new IPCError(
+        IPCErrorCode.SERVICE_NOT_FOUND,
+        `Service not available: ${targetService} (${blocked})`,
+        { service: targetService, reason: blocked }
+      );
+    }
+
+    const timeout = minDefined(options.timeout, remaining);
+
+    // Continue the trace of the active call() span on the other side
+    const span = this.tracer?.getActiveSpan();
+    if (span) {
+      params = injectTraceparent(params, span);
+    }
+
+    // Extend the chain of the call we're handling
+    if (options.context && targetService !== IPC_GATEWAY_SERVICE) {
+      params = injectContext(params, options.context, this.config.serviceName);
+    }
+
+    // The control plane is never cut off
+    const circuitBreaker =
+      targetService === IPC_GATEWAY_SERVICE ? false : options.circuitBreaker;
+
+    return this.track("call", { service: targetService, method }, () =>
+      this.breakers.execute(targetService, method, circuitBreaker, async () => {
+        const promise = this.client.call<T>(targetService, method, params);
+
+        if (timeout === undefined) {
+          return promise;
+        }
+
+        return withTimeout(
+          promise,
+          timeout,
+          () =>
+            new IPCError(
+              IPCErrorCode.TIMEOUT,
+              `Call to ${target} timed out after ${timeout}ms`
+            )
+        );
+      })
+    );
+  }
+
+  /**
+   * Log circuit state changes and emit them as `circuit-state-changed`
+   */
+  private onCircuitStateChange(change: IPCCircuitStateChange): void {
+    const message = `Circuit ${change.key}: ${change.from} -> ${change.state} (failures ${change.failureRate}%, slow ${change.slowCallRate}%)`;
+
+    if (change.state === "open") {
+      this.logger.warn(message);
+    } else {
+      this.logger.log(message);
+    }
+
+    this.client.emit("circuit-state-changed", change);
+  }
+
+  /**
+   * Run `run` in a span when tracing is enabled
+   */
+  private traced<T>(
+    name: string,
+    options: IPCStartSpanOptions,
+    run: () => Promise<T>
+  ): Promise<T> {
+    return this.tracer ? this.tracer.trace(name, run, options) : run();
+  }
+
+  /**
+   * Emit `<event>-started` and `<event>-completed` on the IPCClient
+   * around `run` (consumed by IPCMetricsModule)
+   *
+   * The completed event carries the duration in ms, and the error when
+   * `run` failed.
+   */
+  private async track<T>(
+    event: "call" | "method",
+    data: Record<string, any>,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    this.client.emit(`${event}-started`, data);
+
+    try {
+      const result = await run();
+      this.client.emit(`${event}-completed`, {
+        ...data,
+        duration: Date.now() - startedAt,
+      });
+      return result;
+    } catch (error) {
+      this.client.emit(`${event}-completed`, {
+        ...data,
+        duration: Date.now() - startedAt,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Warn about contract methods the gateway doesn't know (debug mode)
+   */
+  private async verifyServiceContracts(): Promise<void> {
+    for (const [service, methods] of this.contracts) {
+      try {
+        const info = await this.getRemoteService(service);
+
+        if (!info) {
+          this.logger.warn(
+            `Contract check: ${service} is not connected to the Gateway`
+          );
+          continue;
+        }
+
+        const missing = methods.filter((m) => !info.methods.includes(m));
+
+        if (missing.length > 0) {
+          this.logger.warn(
+            `Contract check: ${service} does not expose ${missing.join(", ")}`
+          );
+        } else {
+          this.logger.debug(`Contract check: ${service} ✓`);
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Contract check skipped for ${service}: ${(error as Error).message}`
+        );
+      }
+    }
+  }
+
   private async discoverAndRegisterMethods(): Promise<void> {
     this.logger.log("Discovering @IPCMethod decorated methods...");
 
     console.log("this is fine");
-    // Get all providers and controllers
-    const providers = this.discovery.getProviders();
-    const controllers = this.discovery.getControllers();
-    const instances = [...providers, ...controllers];
+    // Get providers and controllers of the included modules
+    const { include, exclude = [] } = this.config;
+    const options = include ? { include } : {};
+    const providers = this.discovery.getProviders(options);
+    const controllers = this.discovery.getControllers(options);
+    const instances = [...providers, ...controllers].filter(
+      (wrapper) => !exclude.includes(wrapper.host?.metatype as Function)
+    );
 
+    // Handler locations by IPC method name, to catch duplicates
+    const registered = new Map<string, string>();
     let methodCount = 0;
 
     // Scan each instance
     for (const wrapper of instances) {
       const { instance } = wrapper;
 
-      if (!instance || !Object.getPrototypeOf(instance)) {
+      // Request-scoped and transient providers are resolved per call
+      const perCall = !wrapper.isDependencyTreeStatic() || wrapper.isTransient;
+
+      if (perCall ? !this.isClassProvider(wrapper) : !instance) {
         continue;
       }
 
       // Get all method names from the prototype
-      const prototype = Object.getPrototypeOf(instance);
+      const prototype = perCall
+        ? wrapper.metatype!.prototype
+        : Object.getPrototypeOf(instance);
+
+      if (!prototype) {
+        continue;
+      }
+
       const methodNames = this.metadataScanner.getAllMethodNames(prototype);
 
       // Check each method for @IPCMethod decorator
       for (const methodName of methodNames) {
         const methodRef = prototype[methodName];
 
-        // Get metadata from decorator
-        const metadata = Reflect.getMetadata(
-          IPC_METHOD_METADATA_KEY,
-          prototype,
-          methodName
-        );
+        // Get metadata from decorator (@IPCController applied)
+        const metadata = resolveIPCMethodMetadata(prototype, methodName);
 
-        if (metadata) {
+        // @IPCEventHandler methods are subscribed once registered
+        // (by the default client)
+        const eventPatterns = getIPCEventHandlerPatterns(prototype, methodName);
+
+        if (eventPatterns && this.config.name === undefined) {
+          this.logger.log(
+            `  → Subscribing: ${eventPatterns.join(", ")} (${
+              wrapper.name
+            }.${methodName})`
+          );
+
+          this.eventHandlers.push({
+            patterns: eventPatterns,
+            name: `${wrapper.name}.${methodName}`,
+            handler: perCall
+              ? async (payload, event) => {
+                  const scoped = await this.resolvePerCall(wrapper, {
+                    method: event.topic,
+                    params: payload,
+                  });
+                  return methodRef.call(scoped.instance, payload, event);
+                }
+              : (payload, event) => methodRef.call(instance, payload, event),
+          });
+        }
+
+        // Exposed by the client named in @IPCMethod({ client })
+        if (metadata && metadata.client === this.config.name) {
           // This method has @IPCMethod decorator!
           const ipcMethodName = metadata.name || methodName;
+          const location = `${wrapper.name}.${methodName}`;
+
+          // One handler per name, the reserved ones are taken
+          if (ipcMethodName.startsWith("$")) {
+            throw new Error(
+              `IPC method name "${ipcMethodName}" (${location}) is reserved`
+            );
+          }
+
+          if (registered.has(ipcMethodName)) {
+            throw new Error(
+              `Duplicate IPC method "${ipcMethodName}": ${registered.get(
+                ipcMethodName
+              )} and ${location}`
+            );
+          }
+
+          registered.set(ipcMethodName, location);
 
           this.logger.log(
             `  → Registering: ${ipcMethodName} (${wrapper.name}.${methodName})`
           );
 
-          // Create handler that binds to instance
-          const handler = async (params: any, context: any) => {
-            // Bind method to its instance (preserve 'this')
-            return await methodRef.call(instance, params, context);
+          // Resolve @IPCParam / @IPCCallContext / custom param decorators
+          const resolver = new IPCParamsResolver(
+            prototype,
+            methodName,
+            ipcMethodName
+          );
+
+          // Validate with @IPCValidate / schema / design type of params
+          const paramsIndex = resolver.getParamsIndex();
+          const designTypes: Function[] =
+            Reflect.getMetadata("design:paramtypes", prototype, methodName) ||
+            [];
+          const schema = this.validator.resolveSchema(
+            ipcMethodName,
+            metadata.schema,
+            paramsIndex !== undefined ? designTypes[paramsIndex] : undefined
+          );
+          const validate =
+            metadata.validator || schema !== undefined
+              ? async (params: any) => {
+                  if (
+                    metadata.validator &&
+                    !(await metadata.validator(params))
+                  ) {
+                    throw createValidationError(ipcMethodName, [
+                      {
+                        path: "",
+                        message: "Params rejected by validator",
+                        constraint: "validator",
+                      },
+                    ]);
+                  }
+
+                  return schema !== undefined
+                    ? this.validator.validate(ipcMethodName, schema, params)
+                    : params;
+                }
+              : undefined;
+
+          const cacheable = getIPCCacheableOptions(prototype, methodName);
+          const stream = getIPCStreamMetadata(prototype, methodName);
+          const throttles = getIPCThrottleOptions(prototype, methodName);
+          const concurrency = getIPCConcurrencyOptions(prototype, methodName);
+          const limiter =
+            throttles || concurrency
+              ? new IPCMethodLimiter(ipcMethodName, throttles, concurrency)
+              : undefined;
+
+          // Run guards, interceptors, pipes and filters like an HTTP route
+          // (the chain is built once, request-scoped handlers only
+          // resolve their instance per call)
+          const handlerRef = stream ? wrapStreamMethod(methodRef) : methodRef;
+          const target = this.createExecutor(
+            perCall ? Object.create(prototype) : instance,
+            perCall ? bindScopedInstance(handlerRef) : handlerRef,
+            methodName,
+            resolver,
+            validate
+          );
+          const execute = !perCall
+            ? target
+            : async (params: any, context: any, signal: AbortSignal) => {
+                const scoped = await this.resolvePerCall(wrapper, {
+                  method: ipcMethodName,
+                  params,
+                  context,
+                });
+
+                return scopedInstances.run(scoped.instance, () =>
+                  target(params, context, signal)
+                );
+              };
+
+          // Enforce @IPCTimeout / caller deadline
+          // (for streams, on opening only)
+          const timed = stream
+            ? (params: any, context: any) =>
+                this.openStream(
+                  ipcMethodName,
+                  metadata.timeout,
+                  stream,
+                  context,
+                  (signal) => execute(params, context, signal)
+                )
+            : (params: any, context: any) =>
+                this.runWithTimeout(
+                  ipcMethodName,
+                  metadata.timeout,
+                  context,
+                  (signal) => execute(params, context, signal)
+                );
+
+          const cached =
+            !cacheable || stream
+              ? timed
+              : async (params: any, context: any) => {
+                  const key = buildCacheKey(
+                    this.config.serviceName,
+                    ipcMethodName,
+                    typeof cacheable.key === "function"
+                      ? cacheable.key(params, context)
+                      : cacheable.key ?? params
+                  );
+
+                  return this.cache.wrap("server", key, cacheable.ttl, () =>
+                    timed(params, context)
+                  );
+                };
+
+          // Enforce @IPCThrottle / @IPCConcurrency
+          // (for streams, until opened)
+          const limited = !limiter
+            ? cached
+            : (params: any, context: IPCContext) =>
+                limiter.run(
+                  getCallerService(context),
+                  getRemainingTime(context),
+                  () => cached(params, context)
+                );
+
+          // Gateway ACL first, cached results included
+          const handler = (rawParams: any, received: any) => {
+            if (this.draining) {
+              return Promise.reject(this.createDrainingError(ipcMethodName));
+            }
+
+            const traceparent = extractTraceparent(rawParams);
+            const { params, upstream } = extractContext(traceparent.params);
+            const { parent } = traceparent;
+            const context = mergeContext(received, upstream);
+            const caller = getCallerService(context);
+            const span: IPCStartSpanOptions = {
+              kind: "server",
+              parent: parent ?? null,
+              attributes: {
+                "rpc.system": "ipc",
+                "rpc.service": this.config.serviceName,
+                "rpc.method": ipcMethodName,
+                "ipc.caller": caller,
+                "ipc.depth": context?.depth,
+              },
+            };
+
+            // Nested calls pick the context up (IPCContextService too)
+            return this.trackInFlight(() =>
+              ipcContextStorage.run(context, () =>
+                this.track("method", { method: ipcMethodName, caller }, () =>
+                  this.traced(
+                    `${this.config.serviceName}.${ipcMethodName}`,
+                    span,
+                    async () => {
+                      await this.checkAccess(ipcMethodName, context);
+
+                      // Files sent with sendFile() are deleted once the
+                      // handler succeeded. After a failure or a timeout the
+                      // call may be retried, or the handler may still read
+                      // them: the sender and the TTL sweep delete them
+                      // (streams leave them to the sweep too)
+                      const opened = await this.files.open(params);
+                      const result = await limited(opened.params, context);
+
+                      if (!stream && opened.files.length > 0) {
+                        await this.files.release(opened.files);
+                      }
+
+                      return result;
+                    }
+                  )
+                )
+              )
+            );
           };
 
           // Register with IPCClient
           this.client.registerMethod(ipcMethodName, handler);
+          this.catalog.push({
+            name: ipcMethodName,
+            description: metadata.description,
+            timeout: metadata.timeout,
+            metadata: metadata.metadata,
+            stream: stream ? true : undefined,
+          });
 
           methodCount++;
         }
@@ -169,4 +1132,566 @@ export class IPCClientService implements OnModuleInit, OnModuleDestroy {
 
     this.logger.log(`✓ Registered ${methodCount} IPC methods`);
   }
+
+  /**
+   * Register the reserved methods called by the gateway
+   */
+  private registerControlMethods(): void {
+    this.client.registerMethod(
+      IPC_DISCONNECT_METHOD,
+      async (options: IPCDisconnectOptions = {}) => {
+        this.logger.warn(
+          `Disconnect requested by Gateway${
+            options.reason ? `: ${options.reason}` : ""
+          }`
+        );
+
+        // Let the response go out first
+        setTimeout(() => void this.forceDisconnect(options.reconnectAfter));
+        return true;
+      }
+    );
+
+    this.client.registerMethod(IPC_ACL_CHANGED_METHOD, async () => {
+      this.accessDecisions.clear();
+      return true;
+    });
+
+    this.client.registerMethod(
+      IPC_ROUTES_CHANGED_METHOD,
+      async ({ blocked }: IPCRoutesUpdate) => {
+        this.blockedServices = blocked || {};
+        return true;
+      }
+    );
+
+    this.client.registerMethod(IPC_EVENT_METHOD, (event: IPCEvent) =>
+      this.draining
+        ? Promise.reject(this.createDrainingError(IPC_EVENT_METHOD))
+        : this.trackInFlight(() => this.dispatchEvent(event))
+    );
+
+    this.client.registerMethod(
+      IPC_STREAM_PULL_METHOD,
+      ({ streamId, wait }: IPCStreamRequest, context) =>
+        this.streams.pull(streamId, getCallerService(context), wait)
+    );
+
+    this.client.registerMethod(
+      IPC_STREAM_CANCEL_METHOD,
+      async ({ streamId, reason }: IPCStreamRequest, context) =>
+        this.streams.cancel(streamId, getCallerService(context), reason)
+    );
+  }
+
+  /**
+   * Run a stream method and open a stream over its result
+   *
+   * The handler's signal stays live after opening, it is aborted when
+   * the stream is cancelled.
+   */
+  private async openStream(
+    method: string,
+    methodTimeout: number | undefined,
+    options: IPCStreamMetadata,
+    context: IPCContext,
+    run: (signal: AbortSignal) => Promise<unknown>
+  ): Promise<IPCStreamHandle> {
+    const controller = new AbortController();
+    const result = await this.runWithTimeout(
+      method,
+      methodTimeout,
+      context,
+      run,
+      controller.signal
+    );
+
+    return this.streams.open(
+      method,
+      getCallerService(context),
+      result,
+      options,
+      controller
+    );
+  }
+
+  /**
+   * Count `run` among the in-flight calls until it settles
+   */
+  private async trackInFlight<T>(run: () => Promise<T>): Promise<T> {
+    this.inFlight++;
+
+    try {
+      return await run();
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  private createDrainingError(method: string): IPCError {
+    return new IPCError(
+      IPCErrorCode.SERVICE_DRAINING,
+      `${this.config.serviceName} is shutting down`,
+      { service: this.config.serviceName, method }
+    );
+  }
+
+  /**
+   * Drain sequence: tell the gateway, wait for in-flight handlers and
+   * streams up to the grace period, then disconnect
+   */
+  private async runDrain(gracePeriod: number): Promise<void> {
+    clearTimeout(this.reconnectTimer);
+    this.logger.log(`Draining (grace period ${gracePeriod}ms)...`);
+
+    if (this.client.isConnected()) {
+      await this.client
+        .call(IPC_GATEWAY_SERVICE, "drain", {})
+        .catch((error) =>
+          this.logger.debug(
+            `Gateway not told about draining: ${(error as Error).message}`
+          )
+        );
+    }
+
+    const deadline = Date.now() + gracePeriod;
+    const busy = () =>
+      this.inFlight > 0 || this.streams.getStreams().length > 0;
+
+    while (busy() && Date.now() < deadline) {
+      await sleep(Math.min(50, deadline - Date.now()));
+    }
+
+    if (busy()) {
+      this.logger.warn(
+        `Grace period over, cutting off ${this.inFlight} calls and ${
+          this.streams.getStreams().length
+        } streams`
+      );
+    }
+
+    this.streams.cancelAll("Service shutting down");
+
+    this.logger.log("Disconnecting from Gateway...");
+    await this.client.disconnect();
+    this.logger.log("✓ Disconnected from Gateway");
+  }
+
+  /**
+   * Run the @IPCEventHandler methods matching an event's topic
+   *
+   * Handlers run concurrently. Failures are logged, and reach the
+   * publisher when it asked for an ack.
+   */
+  private async dispatchEvent(event: IPCEvent): Promise<number> {
+    const handlers = this.eventHandlers.filter(({ patterns }) =>
+      patterns.some((pattern) => matchesTopic(pattern, event.topic))
+    );
+
+    const results = await Promise.allSettled(
+      handlers.map(async ({ handler }) => handler(event.payload, event))
+    );
+
+    const failures = results.flatMap((result, i) =>
+      result.status === "rejected"
+        ? [{ name: handlers[i].name, error: result.reason }]
+        : []
+    );
+
+    for (const { name, error } of failures) {
+      this.logger.error(
+        `Event handler ${name} failed on ${event.topic}:`,
+        error
+      );
+    }
+
+    if (failures.length > 0 && event.ack) {
+      throw failures[0].error;
+    }
+
+    return handlers.length;
+  }
+
+  /**
+   * Send the topic patterns of the @IPCEventHandler methods to the gateway
+   */
+  private async subscribeEvents(): Promise<void> {
+    if (this.eventHandlers.length === 0) {
+      return;
+    }
+
+    try {
+      await this.client.call(IPC_GATEWAY_SERVICE, "subscribe", {
+        topics: this.eventHandlers.flatMap(({ patterns }) => patterns),
+      });
+    } catch (error) {
+      this.logger.error("Failed to subscribe to events:", error);
+    }
+  }
+
+  /**
+   * Enforce the gateway's ACL policy for an incoming call
+   *
+   * Decisions come from `$gateway.authorize` and are cached per caller
+   * and method until the gateway reports a policy change. Every denial,
+   * cached or not, is reported to `$gateway.callDenied`.
+   */
+  private async checkAccess(
+    method: string,
+    context: IPCContext
+  ): Promise<void> {
+    const caller = getCallerService(context);
+
+    if (
+      this.config.accessControl === false ||
+      !caller ||
+      caller === IPC_GATEWAY_SERVICE
+    ) {
+      return;
+    }
+
+    const key = `${caller}>${method}`;
+    let decision = this.accessDecisions.get(key);
+
+    if (!decision) {
+      decision = this.authorize(caller, method);
+      this.accessDecisions.set(key, decision);
+      // Don't cache failed lookups
+      decision.catch(() => this.accessDecisions.delete(key));
+    }
+
+    const { allowed, reason } = await decision;
+
+    if (!allowed) {
+      this.client
+        .call(IPC_GATEWAY_SERVICE, "callDenied", {
+          from: caller,
+          to: this.config.serviceName,
+          method,
+          reason,
+        })
+        .catch((error) => this.logger.warn("Failed to report denial:", error));
+
+      throw new IPCError(
+        IPCErrorCode.FORBIDDEN,
+        `Call denied: ${caller} → ${this.config.serviceName}.${method}`,
+        { from: caller, to: this.config.serviceName, method }
+      );
+    }
+  }
+
+  private async authorize(
+    caller: string,
+    method: string
+  ): Promise<IPCAccessDecision> {
+    try {
+      return await this.client.call<IPCAccessDecision>(
+        IPC_GATEWAY_SERVICE,
+        "authorize",
+        { from: caller, to: this.config.serviceName, method }
+      );
+    } catch (error) {
+      // Gateway without the control service: no policy to enforce
+      if (
+        isIPCError(error, IPCErrorCode.SERVICE_NOT_FOUND) ||
+        isIPCError(error, IPCErrorCode.METHOD_NOT_FOUND)
+      ) {
+        return { allowed: true };
+      }
+
+      throw error;
+    }
+  }
+
+  private async forceDisconnect(reconnectAfter?: number): Promise<void> {
+    clearTimeout(this.reconnectTimer);
+    await this.client.disconnect();
+
+    if (reconnectAfter !== undefined) {
+      this.reconnectTimer = setTimeout(() => {
+        this.logger.log("Reconnecting to Gateway...");
+        this.client
+          .connect()
+          .catch((error) =>
+            this.logger.error("Failed to reconnect to Gateway:", error)
+          );
+      }, reconnectAfter);
+    }
+  }
+
+  /**
+   * Prove this service's identity to the gateway (`auth` option)
+   * A refused service is asked to disconnect by the gateway.
+   */
+  private async authenticate(): Promise<void> {
+    if (!this.credentials) {
+      return;
+    }
+
+    try {
+      if ("token" in this.credentials) {
+        await this.client.call(IPC_GATEWAY_SERVICE, "authenticate", {
+          token: this.credentials.token,
+        });
+      } else {
+        const { nonce } = await this.client.call<{ nonce: string }>(
+          IPC_GATEWAY_SERVICE,
+          "authChallenge",
+          {}
+        );
+        await this.client.call(IPC_GATEWAY_SERVICE, "authenticate", {
+          nonce,
+          signature: signChallenge(
+            this.credentials.secret,
+            this.config.serviceName,
+            nonce
+          ),
+        });
+      }
+
+      this.logger.log("✓ Authenticated with Gateway");
+    } catch (error) {
+      this.logger.error("Gateway authentication failed:", error);
+    }
+  }
+
+  /**
+   * Send method descriptions, version and metadata to the gateway
+   * Skipped silently when the gateway has no `$gateway` control service
+   */
+  private async publishCatalog(): Promise<void> {
+    try {
+      await this.client.call(IPC_GATEWAY_SERVICE, "registerCatalog", {
+        version: this.config.version,
+        metadata: this.config.metadata,
+        methods: this.catalog,
+      });
+    } catch (error) {
+      this.logger.debug(`Catalog not published: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Build the function running a handler for (params, context)
+   *
+   * With enhancers enabled (default), the handler goes through Nest's
+   * external context: @UseGuards, @UseInterceptors, @UsePipes,
+   * @UseFilters and the global enhancers apply, with the 'ipc' context
+   * type. Params are validated with the pipes, after guards and
+   * interceptors, so unauthorized callers are refused before their
+   * params are looked at. Otherwise params are validated, arguments
+   * are resolved and the method is called directly.
+   *
+   * Enhancers are resolved once, in the static context: request-scoped
+   * guards, interceptors and pipes aren't supported.
+   */
+  private createExecutor(
+    instance: any,
+    methodRef: Function,
+    methodName: string,
+    resolver: IPCParamsResolver,
+    validate?: (params: any) => Promise<any>
+  ): (params: any, context: any, signal: AbortSignal) => Promise<any> {
+    if (this.config.enhancers === false) {
+      // Bind method to its instance (preserve 'this')
+      return async (params, context, signal) => {
+        const valid = validate ? await validate(params) : params;
+        return methodRef.apply(
+          instance,
+          resolver.resolve(valid, context, signal)
+        );
+      };
+    }
+
+    // Param pipes given as classes aren't registered by Nest's scanner
+    // (it only scans route params), instantiate them here
+    const argsMetadata = resolver.getArgsMetadata();
+    for (const arg of Object.values(argsMetadata)) {
+      arg.pipes = arg.pipes.map((pipe) =>
+        typeof pipe === "function" ? this.getPipeInstance(pipe) : pipe
+      );
+    }
+
+    Reflect.defineMetadata(
+      IPC_ARGS_METADATA,
+      argsMetadata,
+      instance.constructor,
+      methodName
+    );
+
+    const target = this.externalContextCreator.create(
+      instance,
+      methodRef as (...args: unknown[]) => unknown,
+      methodName,
+      IPC_ARGS_METADATA,
+      resolver,
+      undefined,
+      undefined,
+      undefined,
+      IPC_CONTEXT_TYPE
+    );
+
+    if (!validate) {
+      return target;
+    }
+
+    // The resolver runs the validation when the pipes extract arguments
+    return (params, context, signal) => {
+      let validated: Promise<any> | undefined;
+      return target(
+        params,
+        context,
+        signal,
+        () => (validated ??= validate(params))
+      );
+    };
+  }
+
+  /**
+   * Resolve a request-scoped or transient provider for one call, in a
+   * fresh context holding `request` as its REQUEST
+   */
+  private async resolvePerCall(
+    wrapper: InstanceWrapper,
+    request: IPCRequest
+  ): Promise<{ instance: any; contextId: ContextId }> {
+    const contextId = ContextIdFactory.create();
+    this.moduleRef.registerRequestByContextId(request, contextId);
+
+    const instance = await this.moduleRef.resolve(wrapper.token, contextId, {
+      strict: false,
+    });
+
+    return { instance, contextId };
+  }
+
+  /**
+   * Provider built from its class (not a value or a factory)
+   */
+  private isClassProvider(wrapper: InstanceWrapper): boolean {
+    return typeof wrapper.metatype === "function" && !wrapper.inject;
+  }
+
+  /**
+   * Run a handler within its time budget
+   *
+   * The budget is the shorter of the method timeout and the caller's
+   * remaining deadline. When it runs out, the signal is aborted, a
+   * `method-timeout` event is emitted on the IPCClient and the caller
+   * gets a TIMEOUT error. Aborting `parent` aborts the signal too.
+   */
+  private runWithTimeout<T>(
+    method: string,
+    methodTimeout: number | undefined,
+    context: IPCContext,
+    run: (signal: AbortSignal) => Promise<T>,
+    parent?: AbortSignal
+  ): Promise<T> {
+    const controller = new AbortController();
+    parent?.addEventListener("abort", () => controller.abort(parent.reason), {
+      once: true,
+    });
+
+    const timeout = minDefined(methodTimeout, getRemainingTime(context));
+
+    if (timeout === undefined) {
+      return run(controller.signal);
+    }
+
+    const timedOut = (message: string) => {
+      const error = new IPCError(IPCErrorCode.TIMEOUT, message, {
+        method,
+        timeout,
+      });
+
+      controller.abort(error);
+      this.client.emit("method-timeout", {
+        method,
+        timeout,
+        caller: getCallerService(context),
+        context,
+      });
+
+      return error;
+    };
+
+    // The caller gave up already, don't start the handler
+    if (timeout <= 0) {
+      return Promise.reject(
+        timedOut(`Deadline exceeded before running ${method}`)
+      );
+    }
+
+    return withTimeout(run(controller.signal), timeout, () =>
+      timedOut(`Method ${method} timed out after ${timeout}ms`)
+    );
+  }
+
+  private getPipeInstance(pipe: Type<PipeTransform>): PipeTransform {
+    try {
+      return this.moduleRef.get(pipe, { strict: false });
+    } catch {
+      return new pipe();
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Instance of the request-scoped handler serving the current call
+ */
+const scopedInstances = new AsyncLocalStorage<object>();
+
+/**
+ * Wrap a request-scoped handler method so it runs on the instance
+ * resolved for the current call (see scopedInstances), whatever `this`
+ * it's called with
+ *
+ * Decorator metadata is copied, so guards and interceptors reading it
+ * from the handler still find it.
+ */
+function bindScopedInstance(methodRef: Function): Function {
+  const wrapper = function (...args: any[]) {
+    return methodRef.apply(scopedInstances.getStore(), args);
+  };
+
+  for (const key of Reflect.getMetadataKeys(methodRef)) {
+    Reflect.defineMetadata(key, Reflect.getMetadata(key, methodRef), wrapper);
+  }
+  Object.defineProperty(wrapper, "name", { value: methodRef.name });
+
+  return wrapper;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function minDefined(...values: (number | undefined)[]): number | undefined {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length ? Math.min(...defined) : undefined;
+}
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  onTimeout: () => Error
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), ms);
+
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
 }
@@ -0,0 +1,169 @@
+/**
+ * IPC Context Propagation
+ *
+ * Each @IPCMethod handler runs in an AsyncLocalStorage scope holding its
+ * IPCContext. Calls made from it, however deep in the service layers,
+ * extend the call chain and inherit the deadline without passing the
+ * context around.
+ *
+ * Usage:
+ *
+ * @Injectable()
+ * export class AuditService {
+ *   constructor(private readonly ipcContext: IPCContextService) {}
+ *
+ *   record(action: string) {
+ *     const context = this.ipcContext.current();
+ *     this.log(action, context?.root, context?.chain);
+ *   }
+ * }
+ *
+ * The transport doesn't carry the upstream chain, so outgoing calls add
+ * it to the params as `$context` ({ root, chain, depth, deadline }). The
+ * receiving side strips it and only trusts it when its chain ends with
+ * the caller the Gateway reported.
+ */
+
+import { Injectable } from "@nestjs/common";
+import { AsyncLocalStorage } from "async_hooks";
+import { IPCContext } from "ipc-bro";
+import { getCallerService, getRemainingTime } from "./ipc-call-options";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Param carrying the caller's context
+ */
+export const IPC_CONTEXT_PARAM = "$context";
+
+/**
+ * Context of the handler being run
+ */
+export const ipcContextStorage = new AsyncLocalStorage<IPCContext>();
+
+// ============================================================================
+// CONTEXT SERVICE
+// ============================================================================
+
+/**
+ * Injectable access to the context of the IPC call being handled
+ */
+@Injectable()
+export class IPCContextService {
+  /**
+   * Context of the current call, undefined outside of IPC handlers
+   */
+  current(): IPCContext | undefined {
+    return ipcContextStorage.getStore();
+  }
+
+  /**
+   * Service that made the current call
+   */
+  getCaller(): string | undefined {
+    return getCallerService(this.current());
+  }
+
+  /**
+   * Time left before the current call's deadline (ms)
+   */
+  getRemainingTime(): number | undefined {
+    return getRemainingTime(this.current());
+  }
+
+  /**
+   * Run `fn` as if handling a call with `context`
+   * (jobs, message consumers, tests)
+   */
+  run<T>(context: IPCContext, fn: () => T): T {
+    return ipcContextStorage.run(context, fn);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Add the context of the next hop to call params (plain objects only)
+ *
+ * @param context - Context of the call being handled
+ * @param serviceName - This service, appended to the chain
+ */
+export function injectContext(
+  params: any,
+  context: IPCContext,
+  serviceName: string
+): any {
+  if (!isPlainObject(params)) {
+    return params;
+  }
+
+  const next: IPCContext = {
+    root: context.root,
+    chain: [...(context.chain || []), serviceName],
+    depth: (context.depth || 0) + 1,
+    deadline: context.deadline,
+  };
+
+  return { ...params, [IPC_CONTEXT_PARAM]: next };
+}
+
+/**
+ * Strip the context param from incoming params
+ */
+export function extractContext(params: any): {
+  params: any;
+  upstream?: IPCContext;
+} {
+  if (!isPlainObject(params) || !(IPC_CONTEXT_PARAM in params)) {
+    return { params };
+  }
+
+  const { [IPC_CONTEXT_PARAM]: upstream, ...rest } = params;
+  return { params: rest, upstream };
+}
+
+/**
+ * Continue the upstream context in the one given by the transport
+ *
+ * The upstream root, chain and depth are kept when the chain ends with
+ * the caller reported by the transport. The earlier deadline wins.
+ */
+export function mergeContext(
+  context: IPCContext,
+  upstream?: IPCContext
+): IPCContext {
+  if (
+    !upstream ||
+    !Array.isArray(upstream.chain) ||
+    getCallerService(upstream) !== getCallerService(context)
+  ) {
+    return context;
+  }
+
+  const deadlines = [context?.deadline, upstream.deadline].filter(
+    (deadline): deadline is number =>
+      typeof deadline === "number" && deadline > 0
+  );
+
+  return {
+    ...context,
+    root: upstream.root || context.root,
+    chain: upstream.chain,
+    depth: upstream.depth ?? upstream.chain.length,
+    deadline: deadlines.length ? Math.min(...deadlines) : 0,
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  // Object.prototype of any realm (structuredClone() under jest, vm, ...)
+  const proto = Object.getPrototypeOf(value);
+  return proto !== null && Object.getPrototypeOf(proto) === null;
+}
@@ -0,0 +1,122 @@
+/**
+ * IPC Errors
+ *
+ * Error codes and error class used by the NestJS integration.
+ *
+ * The codes mirror the ones ipc-bro puts on the wire (TIMEOUT,
+ * SERVICE_NOT_FOUND, ...) and add the ones raised by this package
+ * (INVALID_PARAMS, ...). Errors thrown from an @IPCMethod handler keep
+ * their `code` and `details` when they are sent back to the caller.
+ *
+ * Usage:
+ *
+ * try {
+ *   await this.ipc.call('user-service', 'getUserById', { userId });
+ * } catch (error) {
+ *   if (getIPCErrorCode(error) === IPCErrorCode.SERVICE_NOT_FOUND) {
+ *     // ...
+ *   }
+ * }
+ */
+
+// ============================================================================
+// ERROR CODES
+// ============================================================================
+
+export const IPCErrorCode = {
+  // Transport / gateway (reported by ipc-bro)
+  TIMEOUT: "TIMEOUT",
+  SERVICE_NOT_FOUND: "SERVICE_NOT_FOUND",
+  METHOD_NOT_FOUND: "METHOD_NOT_FOUND",
+  INVALID_MESSAGE: "INVALID_MESSAGE",
+  CONNECTION_LOST: "CONNECTION_LOST",
+  NOT_CONNECTED: "NOT_CONNECTED",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+
+  // Shutdown (reported by nestjs-ipc)
+  SERVICE_DRAINING: "SERVICE_DRAINING",
+
+  // Circuit breaker (reported by nestjs-ipc)
+  CIRCUIT_OPEN: "CIRCUIT_OPEN",
+
+  // Throttling (reported by nestjs-ipc)
+  RATE_LIMITED: "RATE_LIMITED",
+
+  // Gateway policy (reported by nestjs-ipc)
+  FORBIDDEN: "FORBIDDEN",
+
+  // Handler side (reported by nestjs-ipc)
+  INVALID_PARAMS: "INVALID_PARAMS",
+  VALIDATION_FAILED: "VALIDATION_FAILED",
+
+  // Streams (reported by nestjs-ipc)
+  STREAM_NOT_FOUND: "STREAM_NOT_FOUND",
+  STREAM_CANCELLED: "STREAM_CANCELLED",
+
+  // File transfer (reported by nestjs-ipc)
+  FILE_NOT_FOUND: "FILE_NOT_FOUND",
+  FILE_TOO_LARGE: "FILE_TOO_LARGE",
+  FILE_CORRUPTED: "FILE_CORRUPTED",
+} as const;
+
+export type IPCErrorCode = (typeof IPCErrorCode)[keyof typeof IPCErrorCode];
+
+// ============================================================================
+// ERROR CLASS
+// ============================================================================
+
+/**
+ * Error carrying an IPC error code
+ *
+ * Usage:
+ * throw new IPCError(IPCErrorCode.INVALID_PARAMS, 'Missing "userId"');
+ */
+export class IPCError extends Error {
+  constructor(
+    public readonly code: IPCErrorCode | string,
+    message: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = "IPCError";
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      details: this.details,
+    };
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the IPC error code of any thrown value
+ *
+ * Works for IPCError and for errors created by ipc-bro, which carry
+ * the code as a plain `code` property.
+ *
+ * @param error - Thrown value
+ * @returns Error code or undefined
+ */
+export function getIPCErrorCode(error: unknown): string | undefined {
+  if (error && typeof error === "object" && "code" in error) {
+    const code = (error as { code?: unknown }).code;
+    return typeof code === "string" ? code : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if a thrown value carries the given IPC error code
+ */
+export function isIPCError(error: unknown, code?: string): boolean {
+  const errorCode = getIPCErrorCode(error);
+  return errorCode !== undefined && (code === undefined || errorCode === code);
+}
@@ -0,0 +1,265 @@
+/**
+ * IPC Events (publish / subscribe)
+ *
+ * Fire-and-forget events fanned out by the Gateway to every subscribed
+ * service, next to request / response calls.
+ *
+ * Usage:
+ *
+ * // order-service
+ * await this.ipc.emit('order.created', { orderId: '42' });
+ *
+ * // mail-service, notification-service, ...
+ * @IPCEventHandler('order.*')
+ * async onOrderEvent(payload: { orderId: string }, event: IPCEvent) {
+ *   console.log(event.topic, event.from, payload.orderId);
+ * }
+ *
+ * Topics are dot-separated. In patterns, `*` matches one segment and
+ * `**` any number of segments: 'order.*' matches 'order.created' but
+ * not 'order.item.added', 'order.**' matches both.
+ *
+ * Delivery is at-most-once: the Gateway doesn't wait for subscribers
+ * and nothing is retried. With `{ ack: true }` emit() resolves once
+ * every subscriber handled the event and reports the failures.
+ *
+ * Services subscribe through the `$gateway` control service once
+ * registered, the Gateway calls their reserved `$event` method.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Reserved method registered by every IPCClientService
+ * Called by the gateway to deliver an event
+ */
+export const IPC_EVENT_METHOD = "$event";
+
+/**
+ * Metadata key for @IPCEventHandler() topic patterns
+ */
+export const IPC_EVENT_HANDLER_METADATA_KEY = "ipc:event-handler";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Event delivered to @IPCEventHandler methods
+ */
+export interface IPCEvent<T = any> {
+  /**
+   * Unique event id (set by the Gateway)
+   */
+  id: string;
+
+  topic: string;
+  payload: T;
+
+  /**
+   * Publishing service
+   */
+  from: string;
+
+  /**
+   * Publish time, ms since epoch
+   */
+  timestamp: number;
+
+  /**
+   * Whether the publisher waits for the handlers
+   */
+  ack: boolean;
+}
+
+/**
+ * Options of IPCClientService.emit()
+ */
+export interface IPCEmitOptions {
+  /**
+   * Wait for every subscriber to handle the event (default: false)
+   */
+  ack?: boolean;
+}
+
+/**
+ * Answer of `$gateway.publish`
+ */
+export interface IPCPublishResult {
+  id: string;
+  topic: string;
+
+  /**
+   * Services the event was sent to
+   */
+  subscribers: string[];
+
+  /**
+   * With `ack`: subscribers that handled the event
+   */
+  delivered?: string[];
+
+  /**
+   * With `ack`: subscribers that failed, with the error message
+   */
+  failed?: { service: string; error: string }[];
+}
+
+/**
+ * Params of `$gateway.publish`
+ */
+export interface IPCPublishRequest {
+  topic: string;
+  payload?: any;
+  ack?: boolean;
+}
+
+/**
+ * Event handler discovered on a provider or controller
+ */
+export interface IPCEventHandlerDefinition {
+  patterns: string[];
+  name: string;
+  handler: (payload: any, event: IPCEvent) => any;
+}
+
+// ============================================================================
+// DECORATOR
+// ============================================================================
+
+/**
+ * @IPCEventHandler() Decorator
+ *
+ * Subscribe a method to events matching one or more topic patterns.
+ * The method receives (payload, event).
+ *
+ * Usage:
+ * @IPCEventHandler('order.created')
+ * async onOrderCreated(payload: { orderId: string }) { ... }
+ *
+ * @IPCEventHandler(['user.*', 'account.deleted'])
+ * async onUserEvent(payload, event: IPCEvent) { ... }
+ *
+ * @param patterns - Topic pattern(s), `*` for one segment, `**` for many
+ * @returns MethodDecorator
+ */
+export function IPCEventHandler(patterns: string | string[]): MethodDecorator {
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    const existing = getIPCEventHandlerPatterns(target, propertyKey) || [];
+
+    Reflect.defineMetadata(
+      IPC_EVENT_HANDLER_METADATA_KEY,
+      [...existing, ...(Array.isArray(patterns) ? patterns : [patterns])],
+      target,
+      propertyKey
+    );
+
+    return descriptor;
+  };
+}
+
+/**
+ * Get the topic patterns of an @IPCEventHandler method
+ *
+ * @returns Patterns or undefined if not an event handler
+ */
+export function getIPCEventHandlerPatterns(
+  target: any,
+  propertyKey: string | symbol
+): string[] | undefined {
+  return Reflect.getMetadata(
+    IPC_EVENT_HANDLER_METADATA_KEY,
+    target,
+    propertyKey
+  );
+}
+
+// ============================================================================
+// TOPIC MATCHING
+// ============================================================================
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Check if a topic matches a pattern
+ *
+ * matchesTopic('order.*', 'order.created')        → true
+ * matchesTopic('order.*', 'order.item.added')     → false
+ * matchesTopic('order.**', 'order.item.added')    → true
+ * matchesTopic('*.deleted', 'user.deleted')       → true
+ */
+export function matchesTopic(pattern: string, topic: string): boolean {
+  let regexp = patternCache.get(pattern);
+
+  if (!regexp) {
+    const source = pattern
+      .split(".")
+      .map((segment) =>
+        segment === "**"
+          ? ".*"
+          : segment
+              .split("*")
+              .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+              .join("[^.]*")
+      )
+      .join("\\.");
+
+    regexp = new RegExp(`^${source}$`);
+    patternCache.set(pattern, regexp);
+  }
+
+  return regexp.test(topic);
+}
+
+// ============================================================================
+// SUBSCRIPTIONS (Gateway side)
+// ============================================================================
+
+/**
+ * Topic patterns each connected service subscribed to
+ */
+export class IPCSubscriptionRegistry {
+  private readonly subscriptions = new Map<string, string[]>();
+
+  /**
+   * Replace the subscriptions of a service
+   */
+  subscribe(service: string, patterns: string[]): void {
+    if (patterns.length > 0) {
+      this.subscriptions.set(service, [...new Set(patterns)]);
+    } else {
+      this.subscriptions.delete(service);
+    }
+  }
+
+  /**
+   * Drop the subscriptions of a service (on disconnect)
+   */
+  unsubscribe(service: string): void {
+    this.subscriptions.delete(service);
+  }
+
+  /**
+   * Get the services subscribed to a topic
+   */
+  getSubscribers(topic: string): string[] {
+    return [...this.subscriptions]
+      .filter(([, patterns]) =>
+        patterns.some((pattern) => matchesTopic(pattern, topic))
+      )
+      .map(([service]) => service);
+  }
+
+  /**
+   * Get every subscription, by service
+   */
+  getSubscriptions(): Record<string, string[]> {
+    return Object.fromEntries(this.subscriptions);
+  }
+}
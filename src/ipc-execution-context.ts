@@ -0,0 +1,118 @@
+/**
+ * IPC Execution Context
+ *
+ * @IPCMethod handlers run through Nest's enhancer pipeline (guards,
+ * interceptors, pipes and exception filters), like HTTP controllers.
+ * Enhancers see the 'ipc' context type; the call arguments are
+ * [params, context, signal].
+ *
+ * Usage:
+ *
+ * @Injectable()
+ * export class CallerGuard implements CanActivate {
+ *   canActivate(context: ExecutionContext): boolean {
+ *     if (context.getType<IPCContextType>() !== IPC_CONTEXT_TYPE) {
+ *       return true;
+ *     }
+ *
+ *     const ipc = IPCExecutionContext.create(context);
+ *     return ipc.getCallerService() === 'api-gateway';
+ *   }
+ * }
+ *
+ * @IPCMethod()
+ * @UseGuards(CallerGuard)
+ * @UseInterceptors(LoggingInterceptor)
+ * async deleteUser(@IPCParam('userId') userId: string) { ... }
+ */
+
+import { ArgumentsHost } from "@nestjs/common";
+import { IPCContext } from "ipc-bro";
+import { getCallerService } from "./ipc-call-options";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Context type reported by `ExecutionContext.getType()` for IPC calls
+ */
+export const IPC_CONTEXT_TYPE = "ipc";
+
+export type IPCContextType = typeof IPC_CONTEXT_TYPE;
+
+// ============================================================================
+// EXECUTION CONTEXT
+// ============================================================================
+
+/**
+ * Typed view over the ArgumentsHost of an IPC call
+ */
+export class IPCExecutionContext {
+  private constructor(private readonly host: ArgumentsHost) {}
+
+  /**
+   * Wrap an ArgumentsHost / ExecutionContext
+   *
+   * @param host - Host passed to a guard, interceptor, pipe or filter
+   */
+  static create(host: ArgumentsHost): IPCExecutionContext {
+    return new IPCExecutionContext(host);
+  }
+
+  /**
+   * Params object sent by the caller
+   */
+  getParams<T = any>(): T {
+    return this.host.getArgByIndex(0);
+  }
+
+  /**
+   * IPC context of the call
+   */
+  getContext(): IPCContext {
+    return this.host.getArgByIndex(1);
+  }
+
+  /**
+   * AbortSignal aborted when the call times out
+   */
+  getSignal(): AbortSignal {
+    return this.host.getArgByIndex(2);
+  }
+
+  /**
+   * Name of the service that made the call
+   */
+  getCallerService(): string | undefined {
+    return getCallerService(this.getContext());
+  }
+}
+
+// ============================================================================
+// REQUEST
+// ============================================================================
+
+/**
+ * Request of a request-scoped or transient handler, injected with
+ * @Inject(REQUEST)
+ *
+ * Each call (or event) they handle gets its own instances, resolved in
+ * a fresh context, like an HTTP request.
+ */
+export interface IPCRequest {
+  /**
+   * IPC method called, or topic of the event
+   */
+  method: string;
+
+  /**
+   * Params object (or event payload)
+   */
+  params: any;
+
+  /**
+   * IPC context of the call (undefined for events)
+   */
+  context?: IPCContext;
+}
@@ -0,0 +1,461 @@
+/**
+ * IPC File Transfer
+ *
+ * Hands large files and binary payloads over through a directory shared
+ * by the services (IPC_UPLOAD_DIR), so only a small reference crosses
+ * the Gateway.
+ *
+ * Usage:
+ *
+ * // sender
+ * await this.ipc.sendFile('media-service', 'transcode', '/data/in.mp4', {
+ *   format: 'webm',
+ * });
+ *
+ * // receiver
+ * @IPCMethod()
+ * async transcode(@IPCParam('file') file: IPCFileHandle) {
+ *   await pipeline(file.createReadStream(), encoder);
+ * }
+ *
+ * The sender copies the payload into the upload directory while hashing
+ * it (SHA-256) and sends `{ $file, name, size, sha256, ... }` in the
+ * params. The receiver turns it into an IPCFileHandle; reads through the
+ * handle fail with FILE_CORRUPTED if the size or checksum don't match.
+ *
+ * Files are deleted once the handler finished (and once the call
+ * returned on the sender). Leftovers, from crashed services, are swept
+ * when older than the TTL. Keep a file with `handle.saveTo(path)`.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, readdir, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { IPCError, IPCErrorCode } from "./ipc-errors";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * File transfer configuration (IPCClientModule `files` option)
+ */
+export interface IPCFilesConfig {
+  /**
+   * Directory shared by the services (default: <tmpdir>/ipc-uploads,
+   * IPC_UPLOAD_DIR with boot())
+   */
+  uploadDir?: string;
+
+  /**
+   * Largest file accepted, in bytes, when sending and receiving
+   * (default: 512 MiB)
+   */
+  maxSize?: number;
+
+  /**
+   * Delete files left in the upload directory after this long
+   * (ms, default: 10 minutes)
+   */
+  ttl?: number;
+}
+
+export const DEFAULT_FILE_MAX_SIZE = 512 * 1024 * 1024;
+export const DEFAULT_FILE_TTL = 10 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Reference to an uploaded file, as sent in the params
+ */
+export interface IPCFileRef {
+  /**
+   * File id (name in the upload directory)
+   */
+  $file: string;
+
+  /**
+   * Original file name
+   */
+  name?: string;
+
+  mimeType?: string;
+  size: number;
+
+  /**
+   * Hex SHA-256 of the content
+   */
+  sha256: string;
+
+  /**
+   * Expiry, ms since epoch
+   */
+  expiresAt: number;
+}
+
+/**
+ * What sendFile() accepts
+ */
+export type IPCFileSource = string | Buffer | Readable;
+
+/**
+ * Options of IPCClientService.sendFile()
+ */
+export interface IPCSendFileOptions {
+  /**
+   * Params field holding the file (default: 'file')
+   */
+  field?: string;
+
+  /**
+   * File name (default: the source path's base name)
+   */
+  name?: string;
+
+  mimeType?: string;
+}
+
+// ============================================================================
+// FILE HANDLE (receiver side)
+// ============================================================================
+
+/**
+ * Uploaded file received by an @IPCMethod handler
+ *
+ * Valid until the handler finishes.
+ */
+export class IPCFileHandle {
+  readonly id: string;
+  readonly name?: string;
+  readonly mimeType?: string;
+  readonly size: number;
+  readonly sha256: string;
+
+  constructor(ref: IPCFileRef, readonly path: string) {
+    this.id = ref.$file;
+    this.name = ref.name;
+    this.mimeType = ref.mimeType;
+    this.size = ref.size;
+    this.sha256 = ref.sha256;
+  }
+
+  /**
+   * Read the content as a stream
+   * The stream errors with FILE_CORRUPTED at the end if the content
+   * doesn't match the sender's size and checksum.
+   */
+  createReadStream(): Readable {
+    const verifier = createVerifier(this);
+    const input = createReadStream(this.path);
+
+    input.on("error", (error) => verifier.destroy(error));
+    return input.pipe(verifier);
+  }
+
+  /**
+   * Read and verify the whole content
+   */
+  async read(): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of this.createReadStream()) {
+      chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Copy the verified content to a lasting location
+   */
+  async saveTo(destination: string): Promise<void> {
+    try {
+      await pipeline(this.createReadStream(), createWriteStream(destination));
+    } catch (error) {
+      await rm(destination, { force: true });
+      throw error;
+    }
+  }
+
+  toJSON() {
+    return {
+      $file: this.id,
+      name: this.name,
+      mimeType: this.mimeType,
+      size: this.size,
+      sha256: this.sha256,
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const FILE_ID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Check if a value is a file reference
+ */
+export function isIPCFileRef(value: unknown): value is IPCFileRef {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as IPCFileRef).$file === "string" &&
+    typeof (value as IPCFileRef).sha256 === "string"
+  );
+}
+
+/**
+ * Pass-through checking the size and checksum of a file's content
+ */
+function createVerifier(file: { size: number; sha256: string; id: string }) {
+  const hash = createHash("sha256");
+  let size = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      const sha256 = hash.digest("hex");
+
+      if (size !== file.size || sha256 !== file.sha256) {
+        return callback(
+          new IPCError(
+            IPCErrorCode.FILE_CORRUPTED,
+            `File ${file.id} does not match its checksum`,
+            { expected: file.sha256, actual: sha256, size }
+          )
+        );
+      }
+      callback();
+    },
+  });
+}
+
+// ============================================================================
+// FILE STORE
+// ============================================================================
+
+/**
+ * Upload directory of a service: writes outgoing files, opens incoming
+ * ones and sweeps expired leftovers
+ */
+export class IPCFileStore {
+  readonly uploadDir: string;
+  readonly maxSize: number;
+  readonly ttl: number;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(config: IPCFilesConfig = {}) {
+    this.uploadDir = config.uploadDir || join(tmpdir(), "ipc-uploads");
+    this.maxSize = config.maxSize ?? DEFAULT_FILE_MAX_SIZE;
+    this.ttl = config.ttl ?? DEFAULT_FILE_TTL;
+  }
+
+  /**
+   * Copy a payload into the upload directory
+   *
+   * @throws IPCError FILE_TOO_LARGE past `maxSize` (nothing is kept)
+   */
+  async write(
+    source: IPCFileSource,
+    options: IPCSendFileOptions = {}
+  ): Promise<IPCFileRef> {
+    const id = randomUUID();
+    const path = join(this.uploadDir, id);
+    const hash = createHash("sha256");
+    const maxSize = this.maxSize;
+    let size = 0;
+
+    await mkdir(this.uploadDir, { recursive: true });
+
+    const input =
+      typeof source === "string"
+        ? createReadStream(source)
+        : Buffer.isBuffer(source)
+        ? Readable.from([source])
+        : source;
+
+    try {
+      await pipeline(
+        input,
+        new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            size += chunk.length;
+
+            if (size > maxSize) {
+              return callback(
+                new IPCError(
+                  IPCErrorCode.FILE_TOO_LARGE,
+                  `File exceeds the ${maxSize} bytes limit`,
+                  { maxSize }
+                )
+              );
+            }
+
+            hash.update(chunk);
+            callback(null, chunk);
+          },
+        }),
+        createWriteStream(path, { mode: 0o600 })
+      );
+    } catch (error) {
+      await rm(path, { force: true });
+      throw error;
+    }
+
+    return {
+      $file: id,
+      name:
+        options.name ??
+        (typeof source === "string" ? basename(source) : undefined),
+      mimeType: options.mimeType,
+      size,
+      sha256: hash.digest("hex"),
+      expiresAt: Date.now() + this.ttl,
+    };
+  }
+
+  /**
+   * Replace the file references among the top-level params with handles
+   *
+   * @returns Params to pass on, and the handles to release afterwards
+   * @throws IPCError FILE_NOT_FOUND / FILE_TOO_LARGE
+   */
+  async open(params: any): Promise<{ params: any; files: IPCFileHandle[] }> {
+    if (!params || typeof params !== "object" || Array.isArray(params)) {
+      return { params, files: [] };
+    }
+
+    const fields = Object.keys(params).filter((key) =>
+      isIPCFileRef(params[key])
+    );
+
+    if (fields.length === 0) {
+      return { params, files: [] };
+    }
+
+    const opened = { ...params };
+    const files: IPCFileHandle[] = [];
+
+    for (const field of fields) {
+      const handle = await this.openRef(params[field]);
+      opened[field] = handle;
+      files.push(handle);
+    }
+
+    return { params: opened, files };
+  }
+
+  /**
+   * Delete transferred files (ids from refs or handles)
+   */
+  async release(files: (IPCFileHandle | IPCFileRef)[]): Promise<void> {
+    await Promise.all(
+      files.map((file) => {
+        const id = file instanceof IPCFileHandle ? file.id : file.$file;
+        return FILE_ID.test(id)
+          ? rm(join(this.uploadDir, id), { force: true })
+          : undefined;
+      })
+    );
+  }
+
+  /**
+   * Delete files older than the TTL
+   *
+   * @returns Number of files deleted
+   */
+  async sweep(): Promise<number> {
+    let entries: string[];
+
+    try {
+      entries = await readdir(this.uploadDir);
+    } catch {
+      return 0;
+    }
+
+    const expiredBefore = Date.now() - this.ttl;
+    let removed = 0;
+
+    for (const entry of entries.filter((name) => FILE_ID.test(name))) {
+      const path = join(this.uploadDir, entry);
+
+      try {
+        if ((await stat(path)).mtimeMs < expiredBefore) {
+          await rm(path, { force: true });
+          removed++;
+        }
+      } catch {
+        // Released meanwhile
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Sweep periodically, until stopSweeping()
+   */
+  startSweeping(onError: (error: unknown) => void): void {
+    this.stopSweeping();
+    this.sweepTimer = setInterval(
+      () => this.sweep().catch(onError),
+      Math.min(this.ttl, 60000)
+    );
+    this.sweepTimer.unref?.();
+  }
+
+  stopSweeping(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  private async openRef(ref: IPCFileRef): Promise<IPCFileHandle> {
+    // The id names a file of the upload directory, nothing else
+    if (!FILE_ID.test(ref.$file)) {
+      throw new IPCError(
+        IPCErrorCode.INVALID_PARAMS,
+        `Invalid file id: ${ref.$file}`
+      );
+    }
+
+    if (ref.size > this.maxSize) {
+      throw new IPCError(
+        IPCErrorCode.FILE_TOO_LARGE,
+        `File ${ref.$file} exceeds the ${this.maxSize} bytes limit`,
+        { size: ref.size, maxSize: this.maxSize }
+      );
+    }
+
+    const path = join(this.uploadDir, ref.$file);
+
+    if (ref.expiresAt < Date.now() || !(await exists(path))) {
+      throw new IPCError(
+        IPCErrorCode.FILE_NOT_FOUND,
+        `File ${ref.$file} not found in ${this.uploadDir} (expired, or the upload directory isn't shared)`,
+        { file: ref.$file }
+      );
+    }
+
+    return new IPCFileHandle(ref, path);
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
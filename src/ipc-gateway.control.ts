@@ -0,0 +1,893 @@
+/**
+ * IPC Gateway Control Service
+ *
+ * ipc-bro's gateway only routes calls between registered services.
+ * To let services ask the gateway itself for information (which methods
+ * a service exposes, ...), IPCServerModule.boot() connects one extra
+ * client to its own socket and registers it as the reserved service
+ * `$gateway`.
+ *
+ * Services reach it with a regular call:
+ *
+ * await this.ipc.call('$gateway', 'getService', { serviceName: 'user-service' });
+ *
+ * Handling services ask `$gateway.authorize` whether a caller may use a
+ * method (see IPCAccessControl).
+ *
+ * Services subscribe to event topics with `$gateway.subscribe` and
+ * publish with `$gateway.publish`, the gateway fans events out to the
+ * subscribers' `$event` method (see IPCEventHandler).
+ *
+ * Services about to shut down report it with `$gateway.drain`, they
+ * are listed as draining and get no new calls or events until they
+ * disconnect.
+ *
+ * Services also publish their catalog (method descriptions, timeouts,
+ * metadata, version) with `$gateway.registerCatalog` once registered,
+ * since ipc-bro's registration only carries method names.
+ *
+ * The control client is hidden from IPCServerService.getConnectedServices().
+ */
+
+import { Logger } from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { IPCClient, IPCContext, IPCServer } from "ipc-bro";
+import { IPCError, IPCErrorCode } from "./ipc-errors";
+import { getCallerService } from "./ipc-call-options";
+import {
+  IPCAccessControl,
+  IPCAccessDecision,
+  IPCAccessDenial,
+  IPCAccessRequest,
+} from "./ipc-access-control";
+import { IPCAuthenticator, IPCAuthRequest } from "./ipc-auth";
+import {
+  IPC_EVENT_METHOD,
+  IPCEmitOptions,
+  IPCEvent,
+  IPCPublishRequest,
+  IPCPublishResult,
+  IPCSubscriptionRegistry,
+} from "./ipc-events";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Reserved service name of the gateway control client
+ */
+export const IPC_GATEWAY_SERVICE = "$gateway";
+
+/**
+ * Reserved method registered by every IPCClientService
+ * Called by the gateway to force a service to disconnect
+ */
+export const IPC_DISCONNECT_METHOD = "$disconnect";
+
+/**
+ * Reserved method registered by every IPCClientService
+ * Called by the gateway when the access policy changes
+ */
+export const IPC_ACL_CHANGED_METHOD = "$aclChanged";
+
+/**
+ * Reserved method registered by every IPCClientService
+ * Called by the gateway when services callers must not route to change
+ */
+export const IPC_ROUTES_CHANGED_METHOD = "$routesChanged";
+
+/**
+ * Default wait for in-flight calls when draining (ms)
+ */
+export const DEFAULT_GRACE_PERIOD = 10000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Service description returned by `$gateway.getService`
+ */
+export interface IPCGatewayServiceInfo {
+  name: string;
+  methods: string[];
+  connectedAt: number;
+  lastHeartbeat: number;
+
+  /**
+   * Shutting down: finishing its calls, refusing new ones
+   */
+  draining?: boolean;
+}
+
+/**
+ * Why callers must not route calls to a service
+ *
+ * - unauthenticated: registered, handshake not completed yet
+ * - refused: failed authentication, unregistered until it disconnects
+ * - draining: shutting down, finishing its calls in flight
+ */
+export type IPCRouteBlock = "unauthenticated" | "refused" | "draining";
+
+/**
+ * Sent to `$routesChanged`: every service callers must not route to
+ */
+export interface IPCRoutesUpdate {
+  blocked: Record<string, IPCRouteBlock>;
+}
+
+/**
+ * Method entry of a service catalog
+ */
+export interface IPCCatalogMethod {
+  name: string;
+  description?: string;
+  timeout?: number;
+  metadata?: Record<string, any>;
+
+  /**
+   * Stream method (@IPCStream), call it with IPCClientService.stream()
+   */
+  stream?: boolean;
+}
+
+/**
+ * Catalog sent by a service with `$gateway.registerCatalog`
+ */
+export interface IPCCatalogRegistration {
+  version?: string;
+  metadata?: Record<string, any>;
+  methods: IPCCatalogMethod[];
+}
+
+/**
+ * Catalog entry of a connected service
+ */
+export interface IPCCatalogEntry {
+  name: string;
+  version?: string;
+  metadata?: Record<string, any>;
+  methods: IPCCatalogMethod[];
+  connectedAt: number;
+  lastHeartbeat: number;
+  draining?: boolean;
+}
+
+/**
+ * Options for a forced disconnect
+ */
+export interface IPCDisconnectOptions {
+  /**
+   * Reason logged by the service
+   */
+  reason?: string;
+
+  /**
+   * Reconnect after this many ms (default: stay disconnected)
+   */
+  reconnectAfter?: number;
+}
+
+/**
+ * Options of the control service
+ */
+export interface IPCGatewayControlOptions {
+  debug?: boolean;
+
+  /**
+   * ACL policy checked by `$gateway.authorize`
+   */
+  accessControl?: IPCAccessControl;
+
+  /**
+   * Service authentication (see IPCAuthenticator)
+   */
+  authenticator?: IPCAuthenticator;
+}
+
+export type IPCGatewayControlHandler = (
+  params: any,
+  context: IPCContext
+) => Promise<any>;
+
+// ============================================================================
+// GATEWAY CONTROL
+// ============================================================================
+
+export class IPCGatewayControl {
+  private readonly logger = new Logger("IPCGatewayControl");
+  private readonly client: IPCClient;
+  private readonly catalogs = new Map<string, IPCCatalogRegistration>();
+  private readonly unsubscribeAccess: () => void;
+  private readonly accessControl: IPCAccessControl;
+  private readonly authenticator?: IPCAuthenticator;
+  private readonly authTimers = new Map<string, NodeJS.Timeout>();
+  private readonly subscriptions = new IPCSubscriptionRegistry();
+  private readonly draining = new Set<string>();
+  private readonly blocked = new Map<string, IPCRouteBlock>();
+  // `connectedAt` of the connection each service is routed to
+  private readonly connections = new Map<string, number>();
+  // Connections refused while another one holds their name
+  private readonly refused = new Map<string, number>();
+  private pendingCalls = 0;
+  private stopping = false;
+
+  constructor(
+    private readonly server: IPCServer,
+    socketPath: string,
+    options: IPCGatewayControlOptions = {}
+  ) {
+    this.accessControl = options.accessControl || new IPCAccessControl();
+    this.authenticator = options.authenticator;
+
+    this.client = new IPCClient({
+      serviceName: IPC_GATEWAY_SERVICE,
+      gatewayPath: socketPath,
+      autoReconnect: true,
+      debug: options.debug,
+    });
+
+    this.register("getService", async (params: { serviceName: string }) =>
+      this.getService(params.serviceName)
+    );
+
+    this.register(
+      "registerCatalog",
+      async (params: IPCCatalogRegistration, context: IPCContext) => {
+        const serviceName = getCallerService(context);
+        if (serviceName) {
+          this.catalogs.set(serviceName, params);
+        }
+        return true;
+      }
+    );
+
+    this.register("authorize", async (params: IPCAccessRequest) =>
+      this.authorize(params)
+    );
+
+    // Services report every denial, including cached decisions
+    this.register(
+      "callDenied",
+      async (params: IPCAccessDenial, context: IPCContext) => {
+        this.server.emit("call-denied", {
+          ...params,
+          to: getCallerService(context),
+        });
+        return true;
+      }
+    );
+
+    this.register(
+      "subscribe",
+      async (params: { topics: string[] }, context: IPCContext) => {
+        const serviceName = getCallerService(context)!;
+
+        if (this.authenticator && !this.isAuthenticated(serviceName)) {
+          throw new IPCError(
+            IPCErrorCode.FORBIDDEN,
+            `Subscribe denied: ${serviceName} is not authenticated`
+          );
+        }
+
+        this.subscriptions.subscribe(serviceName, params.topics || []);
+        return true;
+      }
+    );
+
+    this.register(
+      "publish",
+      async (params: IPCPublishRequest, context: IPCContext) => {
+        const serviceName = getCallerService(context)!;
+
+        if (this.authenticator && !this.isAuthenticated(serviceName)) {
+          throw new IPCError(
+            IPCErrorCode.FORBIDDEN,
+            `Publish denied: ${serviceName} is not authenticated`
+          );
+        }
+
+        return this.publish(params.topic, params.payload, {
+          ack: params.ack,
+          from: serviceName,
+        });
+      }
+    );
+
+    this.register("drain", async (_params, context: IPCContext) => {
+      const serviceName = getCallerService(context);
+      if (serviceName && !this.draining.has(serviceName)) {
+        this.draining.add(serviceName);
+        this.server.emit("service-draining", { serviceName });
+
+        if (!this.blocked.has(serviceName)) {
+          this.setBlocked(serviceName, "draining");
+        }
+      }
+      return true;
+    });
+
+    // Let services drop their cached decisions
+    this.unsubscribeAccess = this.accessControl.onChange(
+      () => void this.broadcast(IPC_ACL_CHANGED_METHOD)
+    );
+
+    // Forget catalogs and subscriptions of services that left
+    server.on("service-disconnected", (data) =>
+      this.forgetConnection(data.serviceName)
+    );
+
+    // Calls routed between services and not answered yet (waited for
+    // by drain()), the `$gateway` control plane left out
+    server.on("call-routed", (data) => {
+      if (!isControlPlane(data)) {
+        this.pendingCalls++;
+      }
+    });
+    server.on("response-routed", (data) => {
+      if (!isControlPlane(data)) {
+        this.pendingCalls = Math.max(0, this.pendingCalls - 1);
+      }
+    });
+
+    if (this.authenticator) {
+      this.setupAuthentication(this.authenticator);
+    }
+
+    // New services start with the current routes (unless blocking them
+    // just sent the routes to everyone)
+    server.on("service-registered", (data) => {
+      if (data.serviceName === IPC_GATEWAY_SERVICE) {
+        return;
+      }
+
+      // Refused connections don't take the name over
+      const { connectedAt } = this.server.getService(data.serviceName);
+      if (this.refused.get(data.serviceName) === connectedAt) {
+        return;
+      }
+
+      this.connections.set(data.serviceName, connectedAt);
+
+      // Registered while the gateway is shutting down
+      if (this.stopping && !this.blocked.has(data.serviceName)) {
+        this.setBlocked(data.serviceName, "draining");
+        return;
+      }
+
+      if (!this.blocked.has(data.serviceName) && this.blocked.size > 0) {
+        this.client
+          .call(data.serviceName, IPC_ROUTES_CHANGED_METHOD, this.getRoutes())
+          .catch(() => undefined);
+      }
+    });
+  }
+
+  /**
+   * Register a control method
+   * Must be called before start()
+   */
+  register(method: string, handler: IPCGatewayControlHandler): void {
+    this.client.registerMethod(method, handler);
+  }
+
+  /**
+   * Connect the control client to the gateway
+   */
+  async start(): Promise<void> {
+    await this.client.connect();
+    this.logger.log(`Control service registered as ${IPC_GATEWAY_SERVICE}`);
+  }
+
+  /**
+   * Disconnect the control client
+   */
+  async stop(): Promise<void> {
+    this.unsubscribeAccess();
+    this.authTimers.forEach((timer) => clearTimeout(timer));
+    this.authTimers.clear();
+    await this.client.disconnect();
+  }
+
+  /**
+   * Wait for the calls in flight to be answered, up to `gracePeriod` ms
+   * Used by IPCServerModule.shutdown() before stopping the server.
+   *
+   * Every service is blocked as draining first (`$routesChanged`), so
+   * callers stop routing new calls (SERVICE_DRAINING) and events stop
+   * being delivered. Only calls between services are waited for.
+   *
+   * @returns Number of calls still unanswered (cut off by the stop)
+   */
+  async drain(gracePeriod = DEFAULT_GRACE_PERIOD): Promise<number> {
+    const deadline = Date.now() + gracePeriod;
+
+    this.stopping = true;
+    for (const serviceName of this.server.getConnectedServices()) {
+      if (
+        serviceName !== IPC_GATEWAY_SERVICE &&
+        !this.blocked.has(serviceName)
+      ) {
+        this.blocked.set(serviceName, "draining");
+      }
+    }
+    void this.broadcast(IPC_ROUTES_CHANGED_METHOD, this.getRoutes());
+
+    this.server.emit("gateway-draining", {
+      pendingCalls: this.pendingCalls,
+      gracePeriod,
+    });
+
+    while (this.pendingCalls > 0 && Date.now() < deadline) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(50, deadline - Date.now()))
+      );
+    }
+
+    return this.pendingCalls;
+  }
+
+  /**
+   * Check if a service reported it is shutting down
+   */
+  isDraining(serviceName: string): boolean {
+    return this.draining.has(serviceName);
+  }
+
+  /**
+   * Get the services shutting down
+   */
+  getDrainingServices(): string[] {
+    return [...this.draining];
+  }
+
+  /**
+   * Get the services callers must not route to, with the reason
+   */
+  getBlockedServices(): Record<string, IPCRouteBlock> {
+    return Object.fromEntries(this.blocked);
+  }
+
+  /**
+   * Get the catalog of every connected service
+   */
+  getCatalog(): IPCCatalogEntry[] {
+    return this.server
+      .getConnectedServices()
+      .filter((name) => name !== IPC_GATEWAY_SERVICE)
+      .map((name) => this.getCatalogEntry(name))
+      .filter((entry): entry is IPCCatalogEntry => entry !== null);
+  }
+
+  /**
+   * Get the catalog entry of a service
+   *
+   * Methods of services that didn't publish a catalog (not using
+   * IPCClientModule) only carry their name.
+   *
+   * @returns Entry or null if the service is not connected
+   */
+  getCatalogEntry(serviceName: string): IPCCatalogEntry | null {
+    const service = this.getService(serviceName);
+
+    if (!service) {
+      return null;
+    }
+
+    const registration = this.catalogs.get(serviceName);
+    const described = new Map(
+      (registration?.methods || []).map((method) => [method.name, method])
+    );
+
+    return {
+      name: service.name,
+      version: registration?.version,
+      metadata: registration?.metadata,
+      // Reserved methods ($disconnect, ...) are not part of the catalog
+      methods: service.methods
+        .filter((name) => !name.startsWith("$"))
+        .map((name) => described.get(name) || { name }),
+      connectedAt: service.connectedAt,
+      lastHeartbeat: service.lastHeartbeat,
+      draining: service.draining,
+    };
+  }
+
+  /**
+   * Ask a service to disconnect from the gateway
+   *
+   * The service must run IPCClientModule, which registers the reserved
+   * `$disconnect` method.
+   *
+   * @param serviceName - Service to disconnect
+   * @param options - Reason and optional reconnect delay
+   */
+  async disconnectService(
+    serviceName: string,
+    options: IPCDisconnectOptions = {}
+  ): Promise<void> {
+    if (!this.server.isServiceConnected(serviceName)) {
+      throw new IPCError(
+        IPCErrorCode.SERVICE_NOT_FOUND,
+        `Service not connected: ${serviceName}`
+      );
+    }
+
+    await this.client.call(serviceName, IPC_DISCONNECT_METHOD, options);
+    this.logger.log(`Disconnect requested: ${serviceName}`);
+  }
+
+  /**
+   * Send an event to every service subscribed to its topic
+   *
+   * Without `ack`, deliveries are not awaited and failures are only
+   * logged (at-most-once). With `ack`, resolves once every subscriber
+   * answered, with the ones that failed.
+   *
+   * @param topic - Event topic
+   * @param payload - Event payload
+   * @param options - Ack mode and publisher (default: `$gateway`)
+   */
+  async publish(
+    topic: string,
+    payload?: any,
+    options: IPCEmitOptions & { from?: string } = {}
+  ): Promise<IPCPublishResult> {
+    if (!topic || typeof topic !== "string") {
+      throw new IPCError(IPCErrorCode.INVALID_PARAMS, "Event topic required");
+    }
+
+    const event: IPCEvent = {
+      id: randomUUID(),
+      topic,
+      payload,
+      from: options.from || IPC_GATEWAY_SERVICE,
+      timestamp: Date.now(),
+      ack: !!options.ack,
+    };
+    const subscribers = this.subscriptions
+      .getSubscribers(topic)
+      .filter(
+        (name) =>
+          this.server.isServiceConnected(name) && !this.blocked.has(name)
+      );
+
+    this.server.emit("event-published", {
+      id: event.id,
+      topic,
+      from: event.from,
+      subscribers,
+    });
+
+    const deliveries = subscribers.map((name) =>
+      this.client.call(name, IPC_EVENT_METHOD, event)
+    );
+
+    if (!event.ack) {
+      deliveries.forEach((delivery, i) =>
+        delivery.catch((error) =>
+          this.logger.debug(
+            `Event ${topic} not delivered to ${subscribers[i]}: ${error.message}`
+          )
+        )
+      );
+
+      return { id: event.id, topic, subscribers };
+    }
+
+    const results = await Promise.allSettled(deliveries);
+
+    return {
+      id: event.id,
+      topic,
+      subscribers,
+      delivered: subscribers.filter(
+        (_, i) => results[i].status === "fulfilled"
+      ),
+      failed: results.flatMap((result, i) =>
+        result.status === "rejected"
+          ? [
+              {
+                service: subscribers[i],
+                error:
+                  (result.reason as Error)?.message ?? String(result.reason),
+              },
+            ]
+          : []
+      ),
+    };
+  }
+
+  /**
+   * Get the topic patterns of every subscribed service
+   */
+  getSubscriptions(): Record<string, string[]> {
+    return this.subscriptions.getSubscriptions();
+  }
+
+  /**
+   * Get the services subscribed to a topic
+   */
+  getSubscribers(topic: string): string[] {
+    return this.subscriptions.getSubscribers(topic);
+  }
+
+  /**
+   * Get the access control used by `$gateway.authorize`
+   */
+  getAccessControl(): IPCAccessControl {
+    return this.accessControl;
+  }
+
+  /**
+   * Get the raw control client (used to call services from the gateway)
+   */
+  getClient(): IPCClient {
+    return this.client;
+  }
+
+  private async authorize(
+    request: IPCAccessRequest
+  ): Promise<IPCAccessDecision> {
+    if (this.authenticator && !this.isAuthenticated(request.from)) {
+      return { allowed: false, reason: "unauthenticated" };
+    }
+
+    return { allowed: await this.accessControl.isAllowed(request) };
+  }
+
+  /**
+   * Register the handshake methods and watch registrations
+   *
+   * Services get `authenticator.timeout` ms after registering to
+   * complete the handshake, then they're refused.
+   */
+  private setupAuthentication(authenticator: IPCAuthenticator): void {
+    this.register("authChallenge", async (_params, context) => {
+      const serviceName = getCallerService(context)!;
+      return authenticator.createChallenge(
+        serviceName,
+        this.server.getService(serviceName).connectedAt
+      );
+    });
+
+    this.register(
+      "authenticate",
+      async (params: IPCAuthRequest, context: IPCContext) => {
+        const serviceName = getCallerService(context)!;
+        const service = this.server.getService(serviceName);
+
+        try {
+          authenticator.verify(
+            serviceName,
+            service.connectedAt,
+            service.methods,
+            params
+          );
+        } catch (error) {
+          this.refuseService(
+            serviceName,
+            service.connectedAt,
+            (error as Error).message
+          );
+          throw error;
+        }
+
+        clearTimeout(this.authTimers.get(serviceName));
+        this.authTimers.delete(serviceName);
+        this.logger.log(`Service authenticated: ${serviceName}`);
+        this.setBlocked(serviceName, undefined);
+
+        // Decisions cached while it was unauthenticated are stale
+        void this.broadcast(IPC_ACL_CHANGED_METHOD);
+        return { authenticated: true };
+      }
+    );
+
+    this.server.on("service-registered", (data) => {
+      if (data.serviceName === IPC_GATEWAY_SERVICE) {
+        return;
+      }
+
+      const { connectedAt } = this.server.getService(data.serviceName);
+
+      // Another connection already proved it owns the name
+      if (
+        authenticator.isAuthenticatedElsewhere(data.serviceName, connectedAt)
+      ) {
+        this.refuseService(
+          data.serviceName,
+          connectedAt,
+          "already authenticated on another connection"
+        );
+        return;
+      }
+
+      // Not routed to until the handshake completes
+      this.setBlocked(data.serviceName, "unauthenticated");
+
+      clearTimeout(this.authTimers.get(data.serviceName));
+      this.authTimers.set(
+        data.serviceName,
+        setTimeout(() => {
+          this.authTimers.delete(data.serviceName);
+          if (!this.isAuthenticated(data.serviceName)) {
+            this.refuseService(
+              data.serviceName,
+              connectedAt,
+              "not authenticated in time"
+            );
+          }
+        }, authenticator.timeout)
+      );
+    });
+  }
+
+  private isAuthenticated(serviceName: string): boolean {
+    if (serviceName === IPC_GATEWAY_SERVICE) {
+      return true;
+    }
+
+    const connectedAt = this.connections.get(serviceName);
+
+    return (
+      connectedAt !== undefined &&
+      this.authenticator!.isAuthenticated(serviceName, connectedAt)
+    );
+  }
+
+  /**
+   * Refuse a registration and ask the connection to leave
+   *
+   * ipc-bro can't drop a connection from the server side. When the
+   * refused connection is the one the service is routed to, until it
+   * disconnects the service is hidden from getService() and the catalog,
+   * loses its subscriptions and callers stop routing to it. Calls from
+   * it are denied by authorize().
+   *
+   * A second connection under a name authenticated elsewhere is only
+   * asked to leave: the service keeps its routes, subscriptions and
+   * catalog.
+   */
+  private refuseService(
+    serviceName: string,
+    connectedAt: number,
+    reason: string
+  ): void {
+    this.logger.warn(`Registration refused: ${serviceName} (${reason})`);
+    this.server.emit("registration-refused", { serviceName, reason });
+
+    const current = this.connections.get(serviceName);
+
+    if (current !== undefined && current !== connectedAt) {
+      this.refused.set(serviceName, connectedAt);
+    } else {
+      clearTimeout(this.authTimers.get(serviceName));
+      this.authTimers.delete(serviceName);
+      this.catalogs.delete(serviceName);
+      this.subscriptions.unsubscribe(serviceName);
+      this.setBlocked(serviceName, "refused");
+    }
+
+    this.client
+      .call(serviceName, IPC_DISCONNECT_METHOD, { reason })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Clean up after a connection left
+   *
+   * The connection still registered under the name tells which one
+   * left: a refused connection leaving only takes its own state along.
+   */
+  private forgetConnection(serviceName: string): void {
+    const current = this.connections.get(serviceName);
+    const refusedAt = this.refused.get(serviceName);
+    const remaining = this.server.isServiceConnected(serviceName)
+      ? this.server.getService(serviceName).connectedAt
+      : undefined;
+
+    if (remaining !== undefined && remaining === current) {
+      if (refusedAt !== undefined) {
+        this.refused.delete(serviceName);
+        this.authenticator?.forget(serviceName, refusedAt);
+      }
+      return;
+    }
+
+    this.connections.delete(serviceName);
+    this.catalogs.delete(serviceName);
+    this.subscriptions.unsubscribe(serviceName);
+    this.draining.delete(serviceName);
+
+    if (remaining !== undefined && remaining === refusedAt) {
+      // Only the refused connection is left under the name
+      this.setBlocked(serviceName, "refused");
+    } else {
+      this.setBlocked(serviceName, undefined);
+
+      if (refusedAt !== undefined) {
+        this.refused.delete(serviceName);
+        this.authenticator?.forget(serviceName, refusedAt);
+      }
+    }
+
+    if (this.authenticator) {
+      clearTimeout(this.authTimers.get(serviceName));
+      this.authTimers.delete(serviceName);
+      if (current !== undefined) {
+        this.authenticator.forget(serviceName, current);
+      }
+      void this.broadcast(IPC_ACL_CHANGED_METHOD);
+    }
+  }
+
+  /**
+   * Block or unblock routing to a service and tell the services
+   */
+  private setBlocked(
+    serviceName: string,
+    reason: IPCRouteBlock | undefined
+  ): void {
+    if (this.blocked.get(serviceName) === reason) {
+      return;
+    }
+
+    if (reason) {
+      this.blocked.set(serviceName, reason);
+    } else {
+      this.blocked.delete(serviceName);
+    }
+
+    void this.broadcast(IPC_ROUTES_CHANGED_METHOD, this.getRoutes());
+  }
+
+  private getRoutes(): IPCRoutesUpdate {
+    return { blocked: this.getBlockedServices() };
+  }
+
+  /**
+   * Call a reserved method on every connected service, ignoring failures
+   * (services without IPCClientModule don't have it)
+   */
+  private async broadcast(method: string, params: any = {}): Promise<void> {
+    const services = this.server
+      .getConnectedServices()
+      .filter((name) => name !== IPC_GATEWAY_SERVICE);
+
+    await Promise.allSettled(
+      services.map((name) => this.client.call(name, method, params))
+    );
+  }
+
+  private getService(serviceName: string): IPCGatewayServiceInfo | null {
+    if (
+      !this.server.isServiceConnected(serviceName) ||
+      this.blocked.get(serviceName) === "refused"
+    ) {
+      return null;
+    }
+
+    const service = this.server.getService(serviceName);
+
+    return {
+      name: service.name,
+      methods: service.methods,
+      connectedAt: service.connectedAt,
+      lastHeartbeat: service.lastHeartbeat,
+      draining: this.draining.has(serviceName) || undefined,
+    };
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Check if a routed call or response is to or from `$gateway`
+ */
+function isControlPlane(data: { from?: string; to?: string }): boolean {
+  return data.from === IPC_GATEWAY_SERVICE || data.to === IPC_GATEWAY_SERVICE;
+}
@@ -0,0 +1,380 @@
+/**
+ * IPC Health Checks
+ *
+ * Liveness and readiness checks for the Gateway and for services.
+ * Results use the same shape as @nestjs/terminus, so the indicators can
+ * be plugged into an existing HealthCheckService as well.
+ *
+ * Usage in a service:
+ *
+ * @Module({
+ *   imports: [
+ *     IPCClientModule.boot(),
+ *     IPCHealthModule.register({ dependencies: ['user-service', 'auth-service'] }),
+ *   ],
+ * })
+ * export class AppModule {}
+ *
+ * GET /health/live   → 200 while the process is up
+ * GET /health/ready  → 200 once registered with the Gateway and every
+ *                      dependency is connected, 503 otherwise
+ *
+ * Usage with @nestjs/terminus:
+ *
+ * @Get('health')
+ * @HealthCheck()
+ * check() {
+ *   return this.health.check([
+ *     () => this.ipcHealth.checkGateway(),
+ *     () => this.ipcHealth.checkServices(['user-service']),
+ *   ]);
+ * }
+ */
+
+import {
+  Controller,
+  DynamicModule,
+  Get,
+  Inject,
+  Injectable,
+  Module,
+  Optional,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { IPCServer } from "ipc-bro";
+import { IPCClientService, IPC_CLIENT_CONFIG } from "./ipc-client.service";
+import { IPCClientModuleConfig } from "./ipc-client.options";
+import { IPCServerModule, IPC_SERVER_TOKEN } from "./ipc-server.module";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Token for health configuration
+ */
+export const IPC_HEALTH_OPTIONS = "IPC_HEALTH_OPTIONS";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HealthIndicatorStatus = "up" | "down";
+
+/**
+ * Result of one indicator, keyed by indicator name
+ *
+ * { ipc_gateway: { status: 'up', running: true } }
+ */
+export type HealthIndicatorResult = Record<
+  string,
+  { status: HealthIndicatorStatus; [detail: string]: any }
+>;
+
+/**
+ * Result of a liveness / readiness check
+ */
+export interface IPCHealthCheckResult {
+  status: "ok" | "error";
+  info: HealthIndicatorResult;
+  error: HealthIndicatorResult;
+  details: HealthIndicatorResult;
+}
+
+/**
+ * Options for IPCHealthModule.register()
+ */
+export interface IPCHealthOptions {
+  /**
+   * Services that must be connected to the Gateway for readiness
+   */
+  dependencies?: string[];
+
+  /**
+   * Max age in ms of a service's last heartbeat before it counts as down
+   * Default: 3 × heartbeatInterval (90000 when unknown)
+   */
+  maxHeartbeatAge?: number;
+
+  /**
+   * Expose GET /health/live and /health/ready (default: true)
+   */
+  controller?: boolean;
+}
+
+// ============================================================================
+// HEALTH INDICATOR
+// ============================================================================
+
+/**
+ * Health indicators for the Gateway (IPCServerModule) and for
+ * services (IPCClientModule)
+ *
+ * Works on either side: checks that don't apply to the current
+ * process are skipped.
+ */
+@Injectable()
+export class IPCHealthIndicator {
+  constructor(
+    @Optional()
+    @Inject(IPC_HEALTH_OPTIONS)
+    private readonly options: IPCHealthOptions | undefined,
+    @Optional() private readonly client?: IPCClientService,
+    @Optional()
+    @Inject(IPC_CLIENT_CONFIG)
+    private readonly clientConfig?: IPCClientModuleConfig,
+    @Optional()
+    @Inject(IPC_SERVER_TOKEN)
+    private readonly server?: IPCServer
+  ) {}
+
+  /**
+   * Gateway up: the server is running (Gateway side) or the client is
+   * connected to it (service side)
+   */
+  checkGateway(key = "ipc_gateway"): HealthIndicatorResult {
+    const server = this.getServer();
+
+    if (server) {
+      const status = server.getStatus();
+      return this.result(key, status.running, {
+        connectedServices: status.connectedServices,
+      });
+    }
+
+    return this.result(key, !!this.client?.isConnected());
+  }
+
+  /**
+   * Service registered with the Gateway (service side only)
+   */
+  checkRegistration(key = "ipc_registration"): HealthIndicatorResult {
+    const status = this.client?.getStatus();
+
+    return this.result(key, !!status?.registered, {
+      serviceName: status?.serviceName,
+      registeredMethods: status?.registeredMethods,
+    });
+  }
+
+  /**
+   * Connection pool of the client (service side only)
+   */
+  checkPool(key = "ipc_pool"): HealthIndicatorResult {
+    const { cache: _cache, ...status } = this.client?.getStatus() || {
+      connected: false,
+    };
+
+    return this.result(key, !!status.connected, {
+      ...status,
+      poolSize: this.clientConfig?.poolSize ?? 1,
+    });
+  }
+
+  /**
+   * Services connected to the Gateway, with a recent heartbeat
+   *
+   * On the Gateway the server is asked directly, on a service the
+   * Gateway is asked through the `$gateway` control service.
+   *
+   * @param services - Service names
+   * @param key - Indicator name
+   */
+  async checkServices(
+    services: string[],
+    key = "ipc_services"
+  ): Promise<HealthIndicatorResult> {
+    const now = Date.now();
+    const maxAge = this.getMaxHeartbeatAge();
+    const details: Record<string, any> = {};
+    let healthy = true;
+
+    for (const name of services) {
+      const info = await this.getServiceInfo(name);
+
+      if (!info) {
+        details[name] = { status: "down", connected: false };
+        healthy = false;
+        continue;
+      }
+
+      const heartbeatAge = now - info.lastHeartbeat;
+      const up = heartbeatAge <= maxAge;
+
+      details[name] = {
+        status: up ? "up" : "down",
+        connected: true,
+        heartbeatAge,
+      };
+      healthy = healthy && up;
+    }
+
+    return this.result(key, healthy, { services: details });
+  }
+
+  /**
+   * Age of this service's last heartbeat as seen by the Gateway
+   * (service side only)
+   */
+  async checkHeartbeat(key = "ipc_heartbeat"): Promise<HealthIndicatorResult> {
+    const serviceName = this.clientConfig?.serviceName;
+    const info = serviceName ? await this.getServiceInfo(serviceName) : null;
+
+    if (!info) {
+      return this.result(key, false);
+    }
+
+    const heartbeatAge = Date.now() - info.lastHeartbeat;
+    return this.result(key, heartbeatAge <= this.getMaxHeartbeatAge(), {
+      heartbeatAge,
+    });
+  }
+
+  /**
+   * Liveness: the process can serve IPC at all
+   *
+   * A disconnected client reconnects on its own, so only a stopped
+   * Gateway fails liveness.
+   */
+  async liveness(): Promise<IPCHealthCheckResult> {
+    return this.getServer()
+      ? this.aggregate([this.checkGateway()])
+      : this.aggregate([]);
+  }
+
+  /**
+   * Readiness: traffic can be routed to this process
+   *
+   * Service side: registered with the Gateway and every dependency
+   * connected. Gateway side: running and every dependency connected.
+   */
+  async readiness(): Promise<IPCHealthCheckResult> {
+    const results: HealthIndicatorResult[] = [this.checkGateway()];
+
+    if (this.client) {
+      results.push(this.checkRegistration());
+    }
+
+    const dependencies = this.options?.dependencies || [];
+    if (dependencies.length > 0) {
+      results.push(await this.checkServices(dependencies));
+    }
+
+    return this.aggregate(results);
+  }
+
+  private getServer(): IPCServer | null {
+    return this.server || IPCServerModule.getServer();
+  }
+
+  private async getServiceInfo(
+    name: string
+  ): Promise<{ lastHeartbeat: number } | null> {
+    const server = this.getServer();
+
+    if (server) {
+      return server.isServiceConnected(name) ? server.getService(name) : null;
+    }
+
+    if (!this.client?.isConnected()) {
+      return null;
+    }
+
+    try {
+      return await this.client.getRemoteService(name);
+    } catch {
+      return null;
+    }
+  }
+
+  private getMaxHeartbeatAge(): number {
+    return (
+      this.options?.maxHeartbeatAge ??
+      3 * (this.clientConfig?.heartbeatInterval || 30000)
+    );
+  }
+
+  private result(
+    key: string,
+    up: boolean,
+    details: Record<string, any> = {}
+  ): HealthIndicatorResult {
+    return { [key]: { status: up ? "up" : "down", ...details } };
+  }
+
+  private aggregate(results: HealthIndicatorResult[]): IPCHealthCheckResult {
+    const details: HealthIndicatorResult = Object.assign({}, ...results);
+    const info: HealthIndicatorResult = {};
+    const error: HealthIndicatorResult = {};
+
+    for (const [key, value] of Object.entries(details)) {
+      (value.status === "up" ? info : error)[key] = value;
+    }
+
+    return {
+      status: Object.keys(error).length === 0 ? "ok" : "error",
+      info,
+      error,
+      details,
+    };
+  }
+}
+
+// ============================================================================
+// HEALTH CONTROLLER
+// ============================================================================
+
+/**
+ * GET /health/live and GET /health/ready
+ *
+ * Failed checks answer 503 with the check result as body.
+ */
+@Controller("health")
+export class IPCHealthController {
+  constructor(private readonly health: IPCHealthIndicator) {}
+
+  @Get("live")
+  async live(): Promise<IPCHealthCheckResult> {
+    return this.orFail(await this.health.liveness());
+  }
+
+  @Get("ready")
+  async ready(): Promise<IPCHealthCheckResult> {
+    return this.orFail(await this.health.readiness());
+  }
+
+  private orFail(result: IPCHealthCheckResult): IPCHealthCheckResult {
+    if (result.status !== "ok") {
+      throw new ServiceUnavailableException(result);
+    }
+
+    return result;
+  }
+}
+
+// ============================================================================
+// HEALTH MODULE
+// ============================================================================
+
+@Module({})
+export class IPCHealthModule {
+  /**
+   * Register health indicators (and the health controller)
+   *
+   * Import after IPCClientModule / IPCServerModule.
+   *
+   * @param options - Health options
+   * @returns DynamicModule
+   */
+  static register(options: IPCHealthOptions = {}): DynamicModule {
+    return {
+      module: IPCHealthModule,
+      controllers: options.controller === false ? [] : [IPCHealthController],
+      providers: [
+        { provide: IPC_HEALTH_OPTIONS, useValue: options },
+        IPCHealthIndicator,
+      ],
+      exports: [IPCHealthIndicator],
+    };
+  }
+}
@@ -22,7 +22,7 @@
  * }
  */
 
-import { SetMetadata } from "@nestjs/common";
+import { PipeTransform, SetMetadata, Type } from "@nestjs/common";
 import { IPCContext } from "ipc-bro";
 
 // ============================================================================
@@ -35,6 +35,32 @@ import { IPCContext } from "ipc-bro";
  */
 export const IPC_METHOD_METADATA_KEY = "ipc:method";
 
+/**
+ * Metadata key for @IPCController() options
+ */
+export const IPC_CONTROLLER_METADATA_KEY = "ipc:controller";
+
+/**
+ * Metadata key for @IPCCacheable() options
+ */
+export const IPC_CACHEABLE_METADATA_KEY = "ipc:cacheable";
+
+/**
+ * Metadata key for parameter decorators (@IPCParam, @IPCParams, custom)
+ * Used by the argument resolver to build handler arguments
+ */
+export const IPC_PARAMS_METADATA_KEY = "ipc:params";
+
+/**
+ * Metadata key for the @IPCCallContext() parameter index
+ */
+export const IPC_CONTEXT_INDEX_METADATA_KEY = "ipc:context-index";
+
+/**
+ * Metadata key for the @IPCAbortSignal() parameter index
+ */
+export const IPC_SIGNAL_INDEX_METADATA_KEY = "ipc:signal-index";
+
 // ============================================================================
 // METADATA INTERFACE
 // ============================================================================
@@ -55,7 +81,7 @@ export interface IPCMethodMetadata {
   description?: string;
 
   /**
-   * Optional: Specify timeout for this method
+   * Optional: Specify timeout for this method (ms, enforced by the handler side)
    */
   timeout?: number;
 
@@ -64,12 +90,51 @@ export interface IPCMethodMetadata {
    */
   validator?: (params: any) => boolean | Promise<boolean>;
 
+  /**
+   * Optional: Schema for the params object
+   * A DTO class (class-validator) or a JSON-Schema object.
+   * Defaults to the design type of the params argument.
+   */
+  schema?: any;
+
+  /**
+   * Optional: Named client exposing the method
+   * (IPCClientModule.register({ name })), default client otherwise
+   */
+  client?: string;
+
   /**
    * Optional: Additional custom metadata
    */
   metadata?: Record<string, any>;
 }
 
+/**
+ * Options of @IPCController()
+ */
+export interface IPCControllerOptions {
+  /**
+   * Namespace prepended to the method names (`orders` → `orders.list`)
+   */
+  prefix?: string;
+
+  /**
+   * Version added after the prefix (`2` → `orders.v2.list`)
+   */
+  version?: string | number;
+
+  /**
+   * Default timeout of the methods (ms), @IPCTimeout and
+   * @IPCMethod({ timeout }) win
+   */
+  timeout?: number;
+
+  /**
+   * Custom metadata shared by the methods, merged under their own
+   */
+  metadata?: Record<string, any>;
+}
+
 // ============================================================================
 // DECORATOR FACTORY
 // ============================================================================
@@ -101,6 +166,18 @@ export interface IPCMethodMetadata {
  *   return { ... };
  * }
  *
+ * Exposed through a named client:
+ * @IPCMethod({ client: 'partner' })
+ * async getQuote(params, context) {
+ *   return { ... };
+ * }
+ *
+ * With validation (DTO class, or pass `schema` explicitly):
+ * @IPCMethod()
+ * async createUser(params: CreateUserDto, context) {
+ *   return { ... };
+ * }
+ *
  * @param nameOrOptions - Method name or full options object
  * @returns MethodDecorator
  */
@@ -112,10 +189,15 @@ export function IPCMethod(
     propertyKey: string | symbol,
     descriptor: PropertyDescriptor
   ) => {
-    // Parse options
-    const metadata = parseOptions(propertyKey, nameOrOptions);
+    // Parse options, keeping what decorators below (@IPCTimeout,
+    // @IPCValidate, ...) already stored
+    const metadata = mergeMetadata(
+      getIPCMethodMetadata(target, propertyKey),
+      parseOptions(propertyKey, nameOrOptions)
+    );
 
     // Store metadata on the method
+    // Validation runs in the dispatch path (IPCClientService)
     Reflect.defineMetadata(
       IPC_METHOD_METADATA_KEY,
       metadata,
@@ -123,29 +205,44 @@ export function IPCMethod(
       propertyKey
     );
 
-    // Optional: Wrap the original method for validation/logging
-    const originalMethod = descriptor.value;
-
-    descriptor.value = async function (...args: any[]) {
-      // args[0] = params
-      // args[1] = context
-
-      // Optional: Run validator if provided
-      if (metadata.validator && args[0]) {
-        const isValid = await metadata.validator(args[0]);
-        if (!isValid) {
-          throw new Error(`Validation failed for method: ${metadata.name}`);
-        }
-      }
-
-      // Call original method
-      return originalMethod.apply(this, args);
-    };
-
     return descriptor;
   };
 }
 
+/**
+ * @IPCController() Decorator
+ *
+ * Namespace the @IPCMethod names of a class, and share defaults
+ *
+ * Usage:
+ * @IPCController('orders')
+ * export class OrdersController {
+ *   @IPCMethod()
+ *   async list(params) { ... }  // exposed as 'orders.list'
+ * }
+ *
+ * @IPCController({ prefix: 'orders', version: 2, timeout: 5000 })
+ * export class OrdersV2Controller {
+ *   @IPCMethod()
+ *   async list(params) { ... }  // exposed as 'orders.v2.list'
+ * }
+ *
+ * @param prefixOrOptions - Prefix or full options object
+ * @returns ClassDecorator
+ */
+export function IPCController(
+  prefixOrOptions: string | IPCControllerOptions = {}
+): ClassDecorator {
+  const options =
+    typeof prefixOrOptions === "string"
+      ? { prefix: prefixOrOptions }
+      : prefixOrOptions;
+
+  return (target: Function) => {
+    Reflect.defineMetadata(IPC_CONTROLLER_METADATA_KEY, options, target);
+  };
+}
+
 /**
  * Parse decorator options
  *
@@ -179,10 +276,31 @@ function parseOptions(
     description: nameOrOptions.description,
     timeout: nameOrOptions.timeout,
     validator: nameOrOptions.validator,
+    schema: nameOrOptions.schema,
+    client: nameOrOptions.client,
     metadata: nameOrOptions.metadata,
   };
 }
 
+/**
+ * Merge parsed options over existing metadata
+ * Options left undefined don't override existing values
+ */
+function mergeMetadata(
+  existing: IPCMethodMetadata | undefined,
+  parsed: IPCMethodMetadata
+): IPCMethodMetadata {
+  const merged: any = { ...existing };
+
+  for (const [key, value] of Object.entries(parsed)) {
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -203,6 +321,57 @@ export function getIPCMethodMetadata(
   return Reflect.getMetadata(IPC_METHOD_METADATA_KEY, target, propertyKey);
 }
 
+/**
+ * Get @IPCController() options from a class
+ *
+ * @param target - Class
+ * @returns Options or undefined if not an IPC controller
+ */
+export function getIPCControllerOptions(
+  target: Function
+): IPCControllerOptions | undefined {
+  return Reflect.getMetadata(IPC_CONTROLLER_METADATA_KEY, target);
+}
+
+/**
+ * Get the metadata a method is exposed with
+ *
+ * The @IPCController() of the class is applied: the name is fully
+ * qualified (`orders.v2.list`), the timeout and metadata defaulted.
+ *
+ * @param target - Target object (prototype)
+ * @param propertyKey - Method name
+ * @returns Metadata or undefined
+ */
+export function resolveIPCMethodMetadata(
+  target: any,
+  propertyKey: string | symbol
+): IPCMethodMetadata | undefined {
+  const metadata = getIPCMethodMetadata(target, propertyKey);
+  const controller = target?.constructor
+    ? getIPCControllerOptions(target.constructor)
+    : undefined;
+
+  if (!metadata || !controller) {
+    return metadata;
+  }
+
+  const namespace = [
+    controller.prefix,
+    controller.version !== undefined ? `v${controller.version}` : undefined,
+  ].filter(Boolean);
+
+  return {
+    ...metadata,
+    name: [...namespace, metadata.name].join("."),
+    timeout: metadata.timeout ?? controller.timeout,
+    metadata:
+      controller.metadata || metadata.metadata
+        ? { ...controller.metadata, ...metadata.metadata }
+        : undefined,
+  };
+}
+
 /**
  * Check if a method has @IPCMethod decorator
  *
@@ -221,7 +390,7 @@ export function isIPCMethod(
  * Get all IPC methods from a class
  *
  * @param target - Class or instance
- * @returns Array of method names
+ * @returns Array of method names, qualified by @IPCController()
  */
 export function getAllIPCMethods(target: any): string[] {
   const prototype = target.prototype || Object.getPrototypeOf(target);
@@ -236,7 +405,7 @@ export function getAllIPCMethods(target: any): string[] {
     }
 
     if (isIPCMethod(prototype, propertyName)) {
-      const metadata = getIPCMethodMetadata(prototype, propertyName);
+      const metadata = resolveIPCMethodMetadata(prototype, propertyName);
       if (metadata) {
         methodNames.push(metadata.name);
       }
@@ -255,6 +424,9 @@ export function getAllIPCMethods(target: any): string[] {
  *
  * Add validation to IPC method parameters
  *
+ * Accepts a predicate, a DTO class or a JSON-Schema object.
+ * Failures reach the caller as IPCError VALIDATION_FAILED.
+ *
  * Usage:
  * @IPCMethod()
  * @IPCValidate((params) => {
@@ -263,44 +435,63 @@ export function getAllIPCMethods(target: any): string[] {
  * async getUser(params: { userId: string }, context) {
  *   return { ... };
  * }
+ *
+ * @IPCMethod()
+ * @IPCValidate({ type: 'object', required: ['userId'] })
+ * async getUser(params: { userId: string }, context) {
+ *   return { ... };
+ * }
  */
 export function IPCValidate(
-  validator: (params: any) => boolean | Promise<boolean>
+  validatorOrSchema: ((params: any) => boolean | Promise<boolean>) | object
 ): MethodDecorator {
   return (
     target: any,
     propertyKey: string | symbol,
     descriptor: PropertyDescriptor
   ) => {
-    const originalMethod = descriptor.value;
-
-    descriptor.value = async function (...args: any[]) {
-      const params = args[0];
+    const existingMetadata = getIPCMethodMetadata(target, propertyKey) || {
+      name: String(propertyKey),
+    };
 
-      // Run validation
-      const isValid = await validator(params);
+    const isPredicate =
+      typeof validatorOrSchema === "function" && !isClass(validatorOrSchema);
 
-      if (!isValid) {
-        throw new Error(`Validation failed for method: ${String(propertyKey)}`);
-      }
+    const updatedMetadata: IPCMethodMetadata = isPredicate
+      ? {
+          ...existingMetadata,
+          validator: validatorOrSchema as IPCMethodMetadata["validator"],
+        }
+      : { ...existingMetadata, schema: validatorOrSchema };
 
-      // Call original method
-      return originalMethod.apply(this, args);
-    };
+    Reflect.defineMetadata(
+      IPC_METHOD_METADATA_KEY,
+      updatedMetadata,
+      target,
+      propertyKey
+    );
 
     return descriptor;
   };
 }
 
+function isClass(fn: Function): boolean {
+  return /^class[\s{]/.test(Function.prototype.toString.call(fn));
+}
+
 /**
  * @IPCTimeout() Decorator
  *
  * Set custom timeout for IPC method
  *
+ * Enforced on the handler side: the shorter of this timeout and the
+ * caller's remaining deadline wins. The caller gets a TIMEOUT error and
+ * the handler's AbortSignal is aborted.
+ *
  * Usage:
  * @IPCMethod()
  * @IPCTimeout(5000)  // 5 second timeout
- * async slowMethod(params, context) {
+ * async slowMethod(params, context, signal: AbortSignal) {
  *   return { ... };
  * }
  */
@@ -371,10 +562,177 @@ export function IPCDescription(description: string): MethodDecorator {
   };
 }
 
+/**
+ * Options for @IPCCacheable()
+ */
+export interface IPCCacheableOptions {
+  /**
+   * Time-to-live in ms (defaults to the module's cache TTL)
+   */
+  ttl?: number;
+
+  /**
+   * Cache key for a call
+   * A string is used as-is, a function receives params and context.
+   * Defaults to the serialized params object.
+   */
+  key?: string | ((params: any, context: IPCContext) => string);
+}
+
+/**
+ * @IPCCacheable() Decorator
+ *
+ * Cache results of an IPC method in the handling service.
+ * Repeated calls with the same key are answered from the cache
+ * without running the handler.
+ *
+ * Usage:
+ * @IPCMethod()
+ * @IPCCacheable({ ttl: 60000 })
+ * async getUserById(params: { userId: string }, context) {
+ *   return { ... };
+ * }
+ *
+ * @IPCMethod()
+ * @IPCCacheable({ ttl: 5000, key: (params) => params.userId })
+ * async getUserProfile(params: { userId: string; fields?: string[] }) {
+ *   return { ... };
+ * }
+ *
+ * Invalidate with IPCClientService.clearCache('user-service.getUser*').
+ */
+export function IPCCacheable(
+  options: IPCCacheableOptions = {}
+): MethodDecorator {
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    Reflect.defineMetadata(
+      IPC_CACHEABLE_METADATA_KEY,
+      options,
+      target,
+      propertyKey
+    );
+
+    return descriptor;
+  };
+}
+
+/**
+ * Get @IPCCacheable() options from a method
+ *
+ * @param target - Target object (prototype)
+ * @param propertyKey - Method name
+ * @returns Options or undefined if not cacheable
+ */
+export function getIPCCacheableOptions(
+  target: any,
+  propertyKey: string | symbol
+): IPCCacheableOptions | undefined {
+  return Reflect.getMetadata(IPC_CACHEABLE_METADATA_KEY, target, propertyKey);
+}
+
 // ============================================================================
 // PARAMETER DECORATORS
 // ============================================================================
 
+/**
+ * Factory used by custom IPC parameter decorators
+ *
+ * @param data - Value passed to the decorator, e.g. @CurrentUser('id')
+ * @param params - Params object sent by the caller
+ * @param context - IPC context of the call
+ */
+export type IPCParamFactory<TData = any> = (
+  data: TData,
+  params: any,
+  context: IPCContext
+) => any;
+
+/**
+ * Metadata stored for each decorated handler parameter
+ */
+export interface IPCParamMetadata {
+  /**
+   * Position of the parameter in the handler signature
+   */
+  index: number;
+
+  /**
+   * Property of the params object to inject
+   * If not provided, the whole params object is injected
+   */
+  name?: string;
+
+  /**
+   * Fail the call when the property is missing (default: true)
+   * Only applies to named params
+   */
+  required?: boolean;
+
+  /**
+   * Value used when the property is missing
+   */
+  defaultValue?: any;
+
+  /**
+   * Custom decorator factory (see createIPCParamDecorator)
+   */
+  factory?: IPCParamFactory;
+
+  /**
+   * Data passed to the custom decorator
+   */
+  data?: any;
+
+  /**
+   * Pipes applied to the resolved value
+   */
+  pipes?: (Type<PipeTransform> | PipeTransform)[];
+}
+
+/**
+ * Options for @IPCParam()
+ */
+export interface IPCParamOptions {
+  /**
+   * Fail the call when the property is missing (default: true)
+   */
+  required?: boolean;
+
+  /**
+   * Value used when the property is missing
+   * Setting a default makes the param optional
+   */
+  defaultValue?: any;
+
+  /**
+   * Pipes applied to the value, like @Param('id', ParseIntPipe)
+   */
+  pipes?: (Type<PipeTransform> | PipeTransform)[];
+}
+
+/**
+ * Store parameter metadata for the argument resolver
+ */
+function addParamMetadata(
+  target: any,
+  propertyKey: string | symbol | undefined,
+  param: IPCParamMetadata
+): void {
+  const existingParams: IPCParamMetadata[] =
+    Reflect.getMetadata(IPC_PARAMS_METADATA_KEY, target, propertyKey!) || [];
+
+  Reflect.defineMetadata(
+    IPC_PARAMS_METADATA_KEY,
+    [...existingParams, param],
+    target,
+    propertyKey!
+  );
+}
+
 /**
  * @IPCParam() Decorator
  *
@@ -384,23 +742,62 @@ export function IPCDescription(description: string): MethodDecorator {
  * @IPCMethod()
  * async getUser(
  *   @IPCParam('userId') userId: string,
- *   @IPCParam('includeOrders') includeOrders: boolean,
+ *   @IPCParam('includeOrders', { required: false }) includeOrders: boolean,
+ *   @IPCParam('limit', { defaultValue: 10 }) limit: number,
+ *   @IPCParam('page', { pipes: [ParseIntPipe] }) page: number,
  *   @IPCCallContext() context: IPCContext
  * ) {
  *   return { ... };
  * }
+ *
+ * Named params are required by default: a call without `userId`
+ * fails with an INVALID_PARAMS error before the handler runs.
+ */
+export const IPCParam = (
+  paramName: string,
+  options: IPCParamOptions = {}
+): ParameterDecorator => {
+  return (
+    target: any,
+    propertyKey: string | symbol | undefined,
+    parameterIndex: number
+  ) => {
+    addParamMetadata(target, propertyKey, {
+      index: parameterIndex,
+      name: paramName,
+      required:
+        options.required !== undefined
+          ? options.required
+          : !("defaultValue" in options),
+      defaultValue: options.defaultValue,
+      pipes: options.pipes,
+    });
+  };
+};
+
+/**
+ * @IPCParams() Decorator
+ *
+ * Inject the whole params object, optionally through pipes
+ *
+ * Usage:
+ * @IPCMethod()
+ * async createUser(
+ *   @IPCCallContext() context: IPCContext,
+ *   @IPCParams(new ValidationPipe()) params: CreateUserDto
+ * ) {
+ *   return { ... };
+ * }
  */
-export const IPCParam = (paramName: string): ParameterDecorator => {
+export const IPCParams = (
+  ...pipes: (Type<PipeTransform> | PipeTransform)[]
+): ParameterDecorator => {
   return (
     target: any,
     propertyKey: string | symbol | undefined,
     parameterIndex: number
   ) => {
-    // Store parameter metadata
-    const existingParams =
-      Reflect.getMetadata("ipc:params", target, propertyKey!) || [];
-    existingParams.push({ index: parameterIndex, name: paramName });
-    Reflect.defineMetadata("ipc:params", existingParams, target, propertyKey!);
+    addParamMetadata(target, propertyKey, { index: parameterIndex, pipes });
   };
 };
 
@@ -426,7 +823,7 @@ export const IPCCallContext = (): ParameterDecorator => {
     parameterIndex: number
   ) => {
     Reflect.defineMetadata(
-      "ipc:context-index",
+      IPC_CONTEXT_INDEX_METADATA_KEY,
       parameterIndex,
       target,
       propertyKey!
@@ -434,6 +831,87 @@ export const IPCCallContext = (): ParameterDecorator => {
   };
 };
 
+/**
+ * @IPCAbortSignal() Decorator
+ *
+ * Inject the AbortSignal of the call
+ * Aborted when the method timeout or the caller's deadline is reached.
+ *
+ * Usage:
+ * @IPCMethod()
+ * @IPCTimeout(5000)
+ * async generateReport(
+ *   @IPCParams() params: ReportDto,
+ *   @IPCAbortSignal() signal: AbortSignal
+ * ) {
+ *   const rows = await fetch(url, { signal });
+ *   return { ... };
+ * }
+ */
+export const IPCAbortSignal = (): ParameterDecorator => {
+  return (
+    target: any,
+    propertyKey: string | symbol | undefined,
+    parameterIndex: number
+  ) => {
+    Reflect.defineMetadata(
+      IPC_SIGNAL_INDEX_METADATA_KEY,
+      parameterIndex,
+      target,
+      propertyKey!
+    );
+  };
+};
+
+/**
+ * Create a custom IPC parameter decorator
+ *
+ * Works like Nest's createParamDecorator(), but receives the IPC
+ * params and context instead of an ExecutionContext. The factory must
+ * be synchronous, pipes can follow the data argument.
+ *
+ * Usage:
+ * export const CallerService = createIPCParamDecorator(
+ *   (data, params, context) => context.chain[context.chain.length - 1]
+ * );
+ *
+ * export const Header = createIPCParamDecorator<string>(
+ *   (name, params) => params.headers?.[name]
+ * );
+ *
+ * @IPCMethod()
+ * async getUser(@CallerService() caller: string, @Header('x-tenant') tenant: string) {
+ *   return { ... };
+ * }
+ *
+ * @param factory - Computes the argument value for each call
+ * @returns Decorator factory
+ */
+export function createIPCParamDecorator<TData = any>(
+  factory: IPCParamFactory<TData>
+): (
+  data?: TData,
+  ...pipes: (Type<PipeTransform> | PipeTransform)[]
+) => ParameterDecorator {
+  return (
+    data?: TData,
+    ...pipes: (Type<PipeTransform> | PipeTransform)[]
+  ): ParameterDecorator => {
+    return (
+      target: any,
+      propertyKey: string | symbol | undefined,
+      parameterIndex: number
+    ) => {
+      addParamMetadata(target, propertyKey, {
+        index: parameterIndex,
+        factory,
+        data,
+        pipes,
+      });
+    };
+  };
+}
+
 // ============================================================================
 // DEFAULT EXPORT
 // ============================================================================
@@ -0,0 +1,521 @@
+/**
+ * IPC Metrics
+ *
+ * Prometheus metrics for IPC traffic, on the Gateway and on services:
+ * call counts, latency histograms, in-flight calls, connected services,
+ * reconnects and timeouts. Rendered by IPCMetricsRegistry, no
+ * prom-client needed.
+ *
+ * Usage in a service or in the Gateway app:
+ *
+ * @Module({
+ *   imports: [
+ *     IPCClientModule.boot(),
+ *     IPCMetricsModule.register({ defaultLabels: { env: 'prod' } }),
+ *   ],
+ * })
+ * export class AppModule {}
+ *
+ * GET /metrics → Prometheus text format
+ *
+ * Or in your own controller (`register({ controller: false })`):
+ *
+ * constructor(private readonly metrics: IPCMetricsService) {}
+ *
+ * @Get('metrics')
+ * @Header('Content-Type', IPC_METRICS_CONTENT_TYPE)
+ * getMetrics() {
+ *   return this.metrics.getMetrics();
+ * }
+ *
+ * Gateway metrics come from the IPCServer events. ipc-bro doesn't put
+ * request ids on them, so responses are matched to calls in order per
+ * caller/target pair: Gateway latencies are approximate, the exact ones
+ * are measured by the services.
+ */
+
+import {
+  Controller,
+  DynamicModule,
+  Get,
+  Header,
+  Inject,
+  Injectable,
+  Module,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from "@nestjs/common";
+import { IPCClient, IPCServer } from "ipc-bro";
+import { IPC_CLIENT_CONFIG, IPC_CLIENT_TOKEN } from "./ipc-client.service";
+import { IPCClientModuleConfig } from "./ipc-client.options";
+import { IPCServerModule, IPC_SERVER_TOKEN } from "./ipc-server.module";
+import { IPC_GATEWAY_SERVICE } from "./ipc-gateway.control";
+import { IPCErrorCode, getIPCErrorCode } from "./ipc-errors";
+import { IPCMetricsRegistry, IPC_METRICS_CONTENT_TYPE } from "./ipc-metrics";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Token for metrics configuration
+ */
+export const IPC_METRICS_OPTIONS = "IPC_METRICS_OPTIONS";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for IPCMetricsModule.register()
+ */
+export interface IPCMetricsOptions {
+  /**
+   * Expose GET /metrics (default: true)
+   */
+  controller?: boolean;
+
+  /**
+   * Prefix of every metric name (default: 'ipc_')
+   */
+  prefix?: string;
+
+  /**
+   * Latency histogram buckets in seconds
+   * Default: 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10
+   */
+  buckets?: number[];
+
+  /**
+   * Labels added to every series
+   */
+  defaultLabels?: Record<string, string>;
+
+  /**
+   * Time in ms after which the Gateway counts a routed call without
+   * response as timed out (default: 30000)
+   */
+  responseTimeout?: number;
+}
+
+// ============================================================================
+// METRICS SERVICE
+// ============================================================================
+
+/**
+ * Records IPC metrics from the IPCClient and / or IPCServer of the app
+ *
+ * Service side (IPCClientModule):
+ *   <prefix>client_calls_total{from,to,method,status}
+ *   <prefix>client_call_duration_seconds{from,to,method}
+ *   <prefix>client_calls_in_flight{from,to,method}
+ *   <prefix>client_timeouts_total{from,to,method}
+ *   <prefix>handler_calls_total{from,to,method,status}
+ *   <prefix>handler_duration_seconds{from,to,method}
+ *   <prefix>handler_calls_in_flight{from,to,method}
+ *   <prefix>handler_timeouts_total{from,to,method}
+ *   <prefix>client_connected{service}
+ *   <prefix>client_reconnects_total{service}
+ *
+ * Gateway side (IPCServerModule):
+ *   <prefix>gateway_calls_total{from,to,method,status}
+ *   <prefix>gateway_call_duration_seconds{from,to,method}
+ *   <prefix>gateway_calls_in_flight{from,to,method}
+ *   <prefix>gateway_timeouts_total{from,to,method}
+ *   <prefix>gateway_connected_services
+ *   <prefix>gateway_service_connected{service}
+ *   <prefix>gateway_service_reconnects_total{service}
+ *
+ * `status` is 'success' or the IPC error code ('TIMEOUT', 'FORBIDDEN'...).
+ */
+@Injectable()
+export class IPCMetricsService implements OnModuleInit, OnModuleDestroy {
+  private readonly registry: IPCMetricsRegistry;
+  private readonly prefix: string;
+  private readonly buckets?: number[];
+  private readonly cleanup: (() => void)[] = [];
+
+  constructor(
+    @Optional()
+    @Inject(IPC_METRICS_OPTIONS)
+    private readonly options: IPCMetricsOptions = {},
+    @Optional()
+    @Inject(IPC_CLIENT_TOKEN)
+    private readonly client?: IPCClient,
+    @Optional()
+    @Inject(IPC_CLIENT_CONFIG)
+    private readonly clientConfig?: IPCClientModuleConfig,
+    @Optional()
+    @Inject(IPC_SERVER_TOKEN)
+    private readonly server?: IPCServer
+  ) {
+    this.registry = new IPCMetricsRegistry({
+      defaultLabels: this.options.defaultLabels,
+    });
+    this.prefix = this.options.prefix ?? "ipc_";
+    this.buckets = this.options.buckets;
+  }
+
+  onModuleInit(): void {
+    const server = this.server || IPCServerModule.getServer();
+
+    if (server) {
+      this.instrumentGateway(server);
+    }
+
+    if (this.client) {
+      this.instrumentClient(this.client);
+    }
+  }
+
+  onModuleDestroy(): void {
+    for (const remove of this.cleanup.splice(0)) {
+      remove();
+    }
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   */
+  getMetrics(): string {
+    return this.registry.render();
+  }
+
+  /**
+   * Content type to answer scrapes with
+   */
+  getContentType(): string {
+    return IPC_METRICS_CONTENT_TYPE;
+  }
+
+  /**
+   * Registry holding the IPC metrics (add your own metrics to it)
+   */
+  getRegistry(): IPCMetricsRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Drop every recorded value
+   */
+  reset(): void {
+    this.registry.reset();
+  }
+
+  // ==========================================================================
+  // SERVICE SIDE
+  // ==========================================================================
+
+  private instrumentClient(client: IPCClient): void {
+    const service =
+      this.clientConfig?.serviceName || client.getStatus().serviceName;
+    const m = this.prefix;
+
+    const calls = this.registry.counter(
+      `${m}client_calls_total`,
+      "Calls made to other services"
+    );
+    const callDuration = this.registry.histogram(
+      `${m}client_call_duration_seconds`,
+      "Duration of calls made to other services",
+      this.buckets
+    );
+    const callsInFlight = this.registry.gauge(
+      `${m}client_calls_in_flight`,
+      "Calls made to other services waiting for a response"
+    );
+    const callTimeouts = this.registry.counter(
+      `${m}client_timeouts_total`,
+      "Calls made to other services that timed out"
+    );
+    const handled = this.registry.counter(
+      `${m}handler_calls_total`,
+      "Calls handled by @IPCMethod handlers"
+    );
+    const handlerDuration = this.registry.histogram(
+      `${m}handler_duration_seconds`,
+      "Duration of @IPCMethod handlers",
+      this.buckets
+    );
+    const handlersInFlight = this.registry.gauge(
+      `${m}handler_calls_in_flight`,
+      "Calls being handled by @IPCMethod handlers"
+    );
+    const handlerTimeouts = this.registry.counter(
+      `${m}handler_timeouts_total`,
+      "@IPCMethod handlers that timed out"
+    );
+    const connected = this.registry.gauge(
+      `${m}client_connected`,
+      "1 when connected to the Gateway"
+    );
+    const reconnects = this.registry.counter(
+      `${m}client_reconnects_total`,
+      "Reconnections to the Gateway"
+    );
+
+    let connections = 0;
+    connected.set({ service }, client.isConnected() ? 1 : 0);
+
+    this.listen(client, {
+      "call-started": (data) => {
+        callsInFlight.inc({
+          from: service,
+          to: data.service,
+          method: data.method,
+        });
+      },
+      "call-completed": (data) => {
+        const labels = { from: service, to: data.service, method: data.method };
+        const status = getStatus(data.error);
+
+        callsInFlight.dec(labels);
+        calls.inc({ ...labels, status });
+        callDuration.observe(labels, data.duration / 1000);
+
+        if (status === IPCErrorCode.TIMEOUT) {
+          callTimeouts.inc(labels);
+        }
+      },
+      "method-started": (data) => {
+        handlersInFlight.inc({
+          from: data.caller || "unknown",
+          to: service,
+          method: data.method,
+        });
+      },
+      "method-completed": (data) => {
+        const labels = {
+          from: data.caller || "unknown",
+          to: service,
+          method: data.method,
+        };
+
+        handlersInFlight.dec(labels);
+        handled.inc({ ...labels, status: getStatus(data.error) });
+        handlerDuration.observe(labels, data.duration / 1000);
+      },
+      "method-timeout": (data) => {
+        handlerTimeouts.inc({
+          from: data.caller || "unknown",
+          to: service,
+          method: data.method,
+        });
+      },
+      connected: () => {
+        if (connections++ > 0) {
+          reconnects.inc({ service });
+        }
+        connected.set({ service }, 1);
+      },
+      disconnected: () => {
+        connected.set({ service }, 0);
+      },
+    });
+  }
+
+  // ==========================================================================
+  // GATEWAY SIDE
+  // ==========================================================================
+
+  private instrumentGateway(server: IPCServer): void {
+    const m = this.prefix;
+    const responseTimeout = this.options.responseTimeout ?? 30000;
+
+    const calls = this.registry.counter(
+      `${m}gateway_calls_total`,
+      "Calls routed by the Gateway"
+    );
+    const callDuration = this.registry.histogram(
+      `${m}gateway_call_duration_seconds`,
+      "Time between routing a call and routing its response",
+      this.buckets
+    );
+    const inFlight = this.registry.gauge(
+      `${m}gateway_calls_in_flight`,
+      "Calls routed by the Gateway waiting for a response"
+    );
+    const timeouts = this.registry.counter(
+      `${m}gateway_timeouts_total`,
+      `Routed calls without response after ${responseTimeout}ms`
+    );
+    const connectedServices = this.registry.gauge(
+      `${m}gateway_connected_services`,
+      "Services connected to the Gateway"
+    );
+    const serviceConnected = this.registry.gauge(
+      `${m}gateway_service_connected`,
+      "1 when the service is connected to the Gateway"
+    );
+    const reconnects = this.registry.counter(
+      `${m}gateway_service_reconnects_total`,
+      "Registrations of services that were connected before"
+    );
+
+    // Calls waiting for a response, oldest first, per caller → target
+    const pending = new Map<
+      string,
+      { from: string; to: string; method: string; startedAt: number }[]
+    >();
+    const seen = new Set<string>();
+
+    const expire = () => {
+      const now = Date.now();
+
+      for (const [key, queue] of pending) {
+        while (queue.length && now - queue[0].startedAt > responseTimeout) {
+          const { startedAt: _startedAt, ...labels } = queue.shift()!;
+          inFlight.dec(labels);
+          timeouts.inc(labels);
+          calls.inc({ ...labels, status: IPCErrorCode.TIMEOUT });
+        }
+
+        if (!queue.length) {
+          pending.delete(key);
+        }
+      }
+    };
+
+    const drop = (serviceName: string) => {
+      for (const [key, queue] of pending) {
+        const kept = queue.filter((call) => {
+          const involved = call.from === serviceName || call.to === serviceName;
+          if (involved) {
+            const { startedAt: _startedAt, ...labels } = call;
+            inFlight.dec(labels);
+          }
+          return !involved;
+        });
+
+        if (kept.length) {
+          pending.set(key, kept);
+        } else {
+          pending.delete(key);
+        }
+      }
+    };
+
+    this.listen(server, {
+      "call-routed": (data) => {
+        expire();
+
+        const call = {
+          from: data.from,
+          to: data.to,
+          method: data.method,
+          startedAt: Date.now(),
+        };
+        const key = `${data.from}>${data.to}`;
+
+        pending.set(key, [...(pending.get(key) || []), call]);
+        inFlight.inc({ from: call.from, to: call.to, method: call.method });
+      },
+      "response-routed": (data) => {
+        // The response goes back from the target to the caller
+        const key = `${data.to}>${data.from}`;
+        const call = pending.get(key)?.shift();
+
+        if (!call) {
+          return;
+        }
+
+        const { startedAt, ...labels } = call;
+        inFlight.dec(labels);
+        calls.inc({ ...labels, status: data.status ?? "success" });
+        callDuration.observe(labels, (Date.now() - startedAt) / 1000);
+        expire();
+      },
+      "service-registered": (data) => {
+        if (seen.has(data.serviceName)) {
+          reconnects.inc({ service: data.serviceName });
+        }
+        seen.add(data.serviceName);
+        serviceConnected.set({ service: data.serviceName }, 1);
+      },
+      "service-disconnected": (data) => {
+        serviceConnected.set({ service: data.serviceName }, 0);
+        drop(data.serviceName);
+      },
+    });
+
+    this.cleanup.push(
+      this.registry.onCollect(() => {
+        expire();
+        connectedServices.set(
+          {},
+          server
+            .getConnectedServices()
+            .filter((name) => name !== IPC_GATEWAY_SERVICE).length
+        );
+      })
+    );
+  }
+
+  private listen(
+    emitter: IPCClient | IPCServer,
+    listeners: Record<string, (data: any) => void>
+  ): void {
+    for (const [event, listener] of Object.entries(listeners)) {
+      emitter.on(event, listener);
+      this.cleanup.push(() => emitter.off(event, listener));
+    }
+  }
+}
+
+// ============================================================================
+// METRICS CONTROLLER
+// ============================================================================
+
+/**
+ * GET /metrics
+ */
+@Controller("metrics")
+export class IPCMetricsController {
+  constructor(private readonly metrics: IPCMetricsService) {}
+
+  @Get()
+  @Header("Content-Type", IPC_METRICS_CONTENT_TYPE)
+  getMetrics(): string {
+    return this.metrics.getMetrics();
+  }
+}
+
+// ============================================================================
+// METRICS MODULE
+// ============================================================================
+
+@Module({})
+export class IPCMetricsModule {
+  /**
+   * Register the metrics service (and the /metrics route)
+   *
+   * Import after IPCClientModule / IPCServerModule.
+   *
+   * @param options - Metrics options
+   * @returns DynamicModule
+   */
+  static register(options: IPCMetricsOptions = {}): DynamicModule {
+    return {
+      module: IPCMetricsModule,
+      controllers: options.controller === false ? [] : [IPCMetricsController],
+      providers: [
+        { provide: IPC_METRICS_OPTIONS, useValue: options },
+        IPCMetricsService,
+      ],
+      exports: [IPCMetricsService],
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getStatus(error: unknown): string {
+  if (error === undefined) {
+    return "success";
+  }
+
+  return getIPCErrorCode(error) || "ERROR";
+}
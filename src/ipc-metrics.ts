@@ -0,0 +1,358 @@
+/**
+ * IPC Metrics Registry
+ *
+ * Minimal counters, gauges and histograms rendered in the Prometheus
+ * text exposition format, so IPC traffic can be scraped without
+ * depending on prom-client.
+ *
+ * Usage:
+ *
+ * const registry = new IPCMetricsRegistry({ defaultLabels: { app: 'shop' } });
+ * const calls = registry.counter('ipc_calls_total', 'IPC calls');
+ *
+ * calls.inc({ to: 'user-service', method: 'getUser' });
+ * registry.render();
+ * // # HELP ipc_calls_total IPC calls
+ * // # TYPE ipc_calls_total counter
+ * // ipc_calls_total{app="shop",to="user-service",method="getUser"} 1
+ *
+ * With prom-client, append the output to its registry:
+ *
+ * res.send((await register.metrics()) + registry.render());
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type IPCMetricLabels = Record<string, string | number>;
+
+export type IPCMetricType = "counter" | "gauge" | "histogram";
+
+/**
+ * Registry configuration
+ */
+export interface IPCMetricsRegistryConfig {
+  /**
+   * Labels added to every series
+   */
+  defaultLabels?: Record<string, string>;
+}
+
+/**
+ * Content type of the Prometheus text format
+ */
+export const IPC_METRICS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Default latency buckets in seconds (same as prom-client)
+ */
+export const DEFAULT_METRICS_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/**
+ * Base of every metric: one value per label set
+ */
+abstract class IPCMetric<V> {
+  protected readonly series = new Map<
+    string,
+    { labels: IPCMetricLabels; value: V }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: IPCMetricType
+  ) {}
+
+  /**
+   * Drop every series
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  /**
+   * Render the series as exposition lines (without HELP / TYPE)
+   */
+  abstract render(defaultLabels: IPCMetricLabels): string[];
+
+  protected getSeries(
+    labels: IPCMetricLabels,
+    initial: () => V
+  ): { labels: IPCMetricLabels; value: V } {
+    const key = labelsKey(labels);
+    let entry = this.series.get(key);
+
+    if (!entry) {
+      entry = { labels, value: initial() };
+      this.series.set(key, entry);
+    }
+
+    return entry;
+  }
+}
+
+/**
+ * Monotonic counter
+ */
+export class IPCCounter extends IPCMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: IPCMetricLabels = {}, value = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  get(labels: IPCMetricLabels = {}): number {
+    return this.series.get(labelsKey(labels))?.value ?? 0;
+  }
+
+  render(defaultLabels: IPCMetricLabels): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) =>
+        `${this.name}${formatLabels({ ...defaultLabels, ...labels })} ${value}`
+    );
+  }
+}
+
+/**
+ * Value going up and down
+ */
+export class IPCGauge extends IPCMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: IPCMetricLabels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  inc(labels: IPCMetricLabels = {}, value = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  dec(labels: IPCMetricLabels = {}, value = 1): void {
+    this.getSeries(labels, () => 0).value -= value;
+  }
+
+  get(labels: IPCMetricLabels = {}): number {
+    return this.series.get(labelsKey(labels))?.value ?? 0;
+  }
+
+  render(defaultLabels: IPCMetricLabels): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) =>
+        `${this.name}${formatLabels({ ...defaultLabels, ...labels })} ${value}`
+    );
+  }
+}
+
+/**
+ * Distribution of observed values over cumulative buckets
+ */
+export class IPCHistogram extends IPCMetric<{
+  buckets: number[];
+  sum: number;
+  count: number;
+}> {
+  private readonly bounds: number[];
+
+  constructor(name: string, help: string, buckets = DEFAULT_METRICS_BUCKETS) {
+    super(name, help, "histogram");
+    this.bounds = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: IPCMetricLabels, value: number): void {
+    const entry = this.getSeries(labels, () => ({
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        entry.buckets[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * Start a timer, the returned function observes the elapsed seconds
+   */
+  startTimer(labels: IPCMetricLabels): () => number {
+    const start = process.hrtime.bigint();
+
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  render(defaultLabels: IPCMetricLabels): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, value } of this.series.values()) {
+      const all = { ...defaultLabels, ...labels };
+
+      this.bounds.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...all, le: bound })} ${
+            value.buckets[i]
+          }`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...all, le: "+Inf" })} ${
+          value.count
+        }`
+      );
+      lines.push(`${this.name}_sum${formatLabels(all)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(all)} ${value.count}`);
+    }
+
+    return lines;
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/**
+ * Holds metrics and renders them in the Prometheus text format
+ *
+ * Asking twice for the same name returns the same metric.
+ */
+export class IPCMetricsRegistry {
+  private readonly metrics = new Map<string, IPCMetric<any>>();
+  private readonly collectors: (() => void)[] = [];
+  private readonly defaultLabels: IPCMetricLabels;
+
+  constructor(config: IPCMetricsRegistryConfig = {}) {
+    this.defaultLabels = config.defaultLabels || {};
+  }
+
+  counter(name: string, help: string): IPCCounter {
+    return this.getOrCreate(name, "counter", () => new IPCCounter(name, help));
+  }
+
+  gauge(name: string, help: string): IPCGauge {
+    return this.getOrCreate(name, "gauge", () => new IPCGauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): IPCHistogram {
+    return this.getOrCreate(
+      name,
+      "histogram",
+      () => new IPCHistogram(name, help, buckets)
+    );
+  }
+
+  /**
+   * Run `collector` before every render (e.g. to refresh gauges)
+   *
+   * @returns Function removing the collector
+   */
+  onCollect(collector: () => void): () => void {
+    this.collectors.push(collector);
+
+    return () => {
+      const index = this.collectors.indexOf(collector);
+      if (index >= 0) {
+        this.collectors.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   */
+  render(): string {
+    for (const collect of this.collectors) {
+      collect();
+    }
+
+    const lines: string[] = [];
+
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render(this.defaultLabels));
+    }
+
+    return lines.length ? `${lines.join("\n")}\n` : "";
+  }
+
+  /**
+   * Drop every recorded value (metrics stay registered)
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private getOrCreate<M extends IPCMetric<any>>(
+    name: string,
+    type: IPCMetricType,
+    create: () => M
+  ): M {
+    const existing = this.metrics.get(name);
+
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(
+          `Metric ${name} is already registered as a ${existing.type}`
+        );
+      }
+
+      return existing as M;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function labelsKey(labels: IPCMetricLabels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((key) => [key, String(labels[key])])
+  );
+}
+
+function formatLabels(labels: IPCMetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(String(value))}"`
+  );
+
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
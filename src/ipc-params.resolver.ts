@@ -0,0 +1,300 @@
+/**
+ * IPC Argument Resolver
+ *
+ * Builds the argument list of an @IPCMethod handler from the params
+ * object and IPC context of an incoming call, using the metadata
+ * written by @IPCParam, @IPCParams, @IPCCallContext and custom
+ * decorators created with createIPCParamDecorator().
+ *
+ * Handlers without parameter decorators keep the default signature:
+ *
+ * async getUser(params, context, signal) { ... }
+ *
+ * Undecorated parameters next to decorated ones keep their default
+ * position as well: index 0 receives params, index 1 receives context,
+ * index 2 receives the AbortSignal.
+ *
+ * The resolver is also the ParamsFactory handed to Nest's
+ * ExternalContextCreator, so pipes run on every resolved argument.
+ * When the handler validates its params, the call arguments carry a
+ * fourth entry that validates them once; arguments are then extracted
+ * from the validated params, in the pipes phase (after guards).
+ */
+
+import { PipeTransform, Type } from "@nestjs/common";
+import { CUSTOM_ROUTE_ARGS_METADATA } from "@nestjs/common/constants";
+import { ExecutionContext } from "@nestjs/common/interfaces";
+import { ParamsFactory } from "@nestjs/core/helpers/external-context-creator";
+import { ExecutionContextHost } from "@nestjs/core/helpers/execution-context-host";
+import { IPCContext } from "ipc-bro";
+import {
+  IPC_PARAMS_METADATA_KEY,
+  IPC_CONTEXT_INDEX_METADATA_KEY,
+  IPC_SIGNAL_INDEX_METADATA_KEY,
+  IPCParamMetadata,
+} from "./ipc-method.decorator";
+import { IPCError, IPCErrorCode } from "./ipc-errors";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Metadata key of the Nest-format argument metadata read by
+ * ExternalContextCreator (built from the IPC parameter decorators)
+ */
+export const IPC_ARGS_METADATA = "__ipcArgs__";
+
+/**
+ * Argument types, as seen by pipes in `ArgumentMetadata.type`
+ */
+export enum IPCParamtype {
+  PARAMS = 0,
+  PARAM = 1,
+  CONTEXT = 2,
+  SIGNAL = 3,
+}
+
+/**
+ * One argument entry in Nest's route-args format
+ */
+export interface IPCArgMetadata {
+  index: number;
+  data?: any;
+  pipes: (Type<PipeTransform> | PipeTransform)[];
+  factory?: (data: any, ctx: ExecutionContext) => any;
+}
+
+/**
+ * Validates the params of a call, once however many arguments wait
+ */
+export type IPCValidatedParams = () => Promise<any>;
+
+// ============================================================================
+// RESOLVER
+// ============================================================================
+
+/**
+ * Resolves handler arguments for a single IPC method
+ *
+ * The metadata is read once when the handler is registered,
+ * resolve() runs on every call.
+ */
+export class IPCParamsResolver implements ParamsFactory {
+  private readonly params: IPCParamMetadata[];
+  private readonly contextIndex?: number;
+  private readonly signalIndex?: number;
+
+  constructor(
+    prototype: any,
+    private readonly methodName: string,
+    private readonly ipcMethodName: string = methodName
+  ) {
+    this.params =
+      Reflect.getMetadata(IPC_PARAMS_METADATA_KEY, prototype, methodName) || [];
+    this.contextIndex = Reflect.getMetadata(
+      IPC_CONTEXT_INDEX_METADATA_KEY,
+      prototype,
+      methodName
+    );
+    this.signalIndex = Reflect.getMetadata(
+      IPC_SIGNAL_INDEX_METADATA_KEY,
+      prototype,
+      methodName
+    );
+  }
+
+  /**
+   * Check if the handler uses any parameter decorator
+   */
+  hasDecorators(): boolean {
+    return (
+      this.params.length > 0 ||
+      this.contextIndex !== undefined ||
+      this.signalIndex !== undefined
+    );
+  }
+
+  /**
+   * Get the position of the argument receiving the whole params object
+   *
+   * @returns Index, or undefined if no argument receives it
+   */
+  getParamsIndex(): number | undefined {
+    if (!this.hasDecorators()) {
+      return 0;
+    }
+
+    const whole = this.params.find((p) => !p.factory && p.name === undefined);
+    if (whole) {
+      return whole.index;
+    }
+
+    const decorated = this.params.some((p) => p.index === 0);
+    return decorated || this.contextIndex === 0 || this.signalIndex === 0
+      ? undefined
+      : 0;
+  }
+
+  /**
+   * Build handler arguments for a call
+   *
+   * Used when the Nest enhancer pipeline is disabled (no pipes).
+   *
+   * @param params - Params object sent by the caller
+   * @param context - IPC context of the call
+   * @param signal - Aborted when the call times out
+   * @returns Arguments in handler order
+   */
+  resolve(params: any, context: IPCContext, signal?: AbortSignal): any[] {
+    const callArgs = [params, context, signal];
+    const metadata = this.getArgsMetadata();
+    const args: any[] = [];
+
+    for (const [key, arg] of Object.entries(metadata)) {
+      args[arg.index] = arg.factory
+        ? arg.factory(arg.data, new ExecutionContextHost(callArgs))
+        : this.exchangeKeyForValue(
+            Number(key.split(":")[0]),
+            arg.data,
+            callArgs
+          );
+    }
+
+    return Array.from(args);
+  }
+
+  /**
+   * Build the argument metadata in Nest's route-args format
+   *
+   * Keys are `<type>:<index>`. Custom decorators use Nest's custom
+   * route-args key, so ExternalContextCreator calls their factory.
+   */
+  getArgsMetadata(): Record<string, IPCArgMetadata> {
+    const metadata: Record<string, IPCArgMetadata> = {};
+    const decorated = new Set<number>(this.params.map((p) => p.index));
+
+    if (this.contextIndex !== undefined) {
+      decorated.add(this.contextIndex);
+      metadata[`${IPCParamtype.CONTEXT}:${this.contextIndex}`] = {
+        index: this.contextIndex,
+        pipes: [],
+      };
+    }
+
+    if (this.signalIndex !== undefined) {
+      decorated.add(this.signalIndex);
+      metadata[`${IPCParamtype.SIGNAL}:${this.signalIndex}`] = {
+        index: this.signalIndex,
+        pipes: [],
+      };
+    }
+
+    // Default positions for undecorated parameters
+    if (!decorated.has(0)) {
+      metadata[`${IPCParamtype.PARAMS}:0`] = { index: 0, pipes: [] };
+    }
+    if (!decorated.has(1)) {
+      metadata[`${IPCParamtype.CONTEXT}:1`] = { index: 1, pipes: [] };
+    }
+    if (!decorated.has(2)) {
+      metadata[`${IPCParamtype.SIGNAL}:2`] = { index: 2, pipes: [] };
+    }
+
+    for (const param of this.params) {
+      const pipes = param.pipes || [];
+
+      if (param.factory) {
+        const factory = param.factory;
+
+        metadata[`ipc${CUSTOM_ROUTE_ARGS_METADATA}:${param.index}`] = {
+          index: param.index,
+          data: param.data,
+          pipes,
+          factory: (data: any, ctx: ExecutionContext) => {
+            const validated: IPCValidatedParams | undefined =
+              ctx.getArgByIndex(3);
+
+            return validated
+              ? validated().then((params) =>
+                  factory(data, params, ctx.getArgByIndex(1))
+                )
+              : factory(data, ctx.getArgByIndex(0), ctx.getArgByIndex(1));
+          },
+        };
+      } else if (param.name === undefined) {
+        metadata[`${IPCParamtype.PARAMS}:${param.index}`] = {
+          index: param.index,
+          pipes,
+        };
+      } else {
+        metadata[`${IPCParamtype.PARAM}:${param.index}`] = {
+          index: param.index,
+          data: param.name,
+          pipes,
+        };
+      }
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Extract one argument value (ParamsFactory)
+   *
+   * @param type - IPCParamtype
+   * @param data - Param name for named params
+   * @param args - Call arguments: [params, context, signal, validated?]
+   */
+  exchangeKeyForValue(type: number, data: any, args: any[]): any {
+    const [params, context, signal, validated] = args as [
+      any,
+      IPCContext,
+      AbortSignal,
+      IPCValidatedParams | undefined
+    ];
+
+    if (validated) {
+      return validated().then((valid) =>
+        this.exchangeKeyForValue(type, data, [valid, context, signal])
+      );
+    }
+
+    switch (type) {
+      case IPCParamtype.PARAMS:
+        return params;
+      case IPCParamtype.CONTEXT:
+        return context;
+      case IPCParamtype.SIGNAL:
+        return signal;
+      case IPCParamtype.PARAM:
+        return this.resolveNamedParam(data, params);
+      default:
+        return undefined;
+    }
+  }
+
+  private resolveNamedParam(name: string, params: any): any {
+    const param = this.params.find((p) => p.name === name && !p.factory);
+    const value =
+      params !== null && typeof params === "object" ? params[name] : undefined;
+
+    if (value !== undefined) {
+      return value;
+    }
+
+    if (param?.defaultValue !== undefined) {
+      return param.defaultValue;
+    }
+
+    if (param?.required !== false) {
+      throw new IPCError(
+        IPCErrorCode.INVALID_PARAMS,
+        `Missing required param "${name}" for method: ${this.ipcMethodName}`,
+        { param: name, method: this.ipcMethodName }
+      );
+    }
+
+    return undefined;
+  }
+}
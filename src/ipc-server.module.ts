@@ -31,6 +31,16 @@ import {
 } from "@nestjs/common";
 import { IPCServer } from "ipc-bro";
 import { IPCServerConfig } from "ipc-bro";
+import {
+  DEFAULT_GRACE_PERIOD,
+  IPCGatewayControl,
+  IPCRouteBlock,
+  IPC_GATEWAY_SERVICE,
+} from "./ipc-gateway.control";
+import { IPCServerModuleConfig } from "./ipc-server.options";
+import { IPCAccessControl, IPCAccessPolicy } from "./ipc-access-control";
+import { IPCAuthenticator, IPCServerAuthConfig } from "./ipc-auth";
+import { IPCEmitOptions, IPCPublishResult } from "./ipc-events";
 
 // ============================================================================
 // CONSTANTS
@@ -53,6 +63,11 @@ export const IPC_SERVER_CONFIG = "IPC_SERVER_CONFIG";
 @Module({})
 export class IPCServerModule implements OnModuleInit, OnModuleDestroy {
   private static server: IPCServer | null = null;
+  private static control: IPCGatewayControl | null = null;
+  private static accessControl = new IPCAccessControl();
+  private static gracePeriod = DEFAULT_GRACE_PERIOD;
+  private static stopping: Promise<void> | null = null;
+  private static controlStarting: Promise<void> | null = null;
   private readonly logger = new Logger(IPCServerModule.name);
 
   constructor() {} // @Inject(IPC_SERVER_TOKEN) private readonly server?: IPCServer, // Can be injected if module is imported dynamically
@@ -69,15 +84,10 @@ export class IPCServerModule implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Called when module is destroyed
-   * Cleanup: stop server if running
+   * Cleanup: drain and stop server if running
    */
   async onModuleDestroy(): Promise<void> {
-    if (IPCServerModule.server) {
-      this.logger.log("Stopping IPC Server...");
-      await IPCServerModule.server.stop();
-      IPCServerModule.server = null;
-      this.logger.log("IPC Server stopped");
-    }
+    await IPCServerModule.shutdown();
   }
 
   // ============================================================================
@@ -108,9 +118,9 @@ export class IPCServerModule implements OnModuleInit, OnModuleDestroy {
    * @param config - Server configuration
    * @returns DynamicModule
    */
-  static register(config?: Partial<IPCServerConfig>): DynamicModule {
+  static register(config?: Partial<IPCServerModuleConfig>): DynamicModule {
     // Create server instance
-    const server = new IPCServer(config || {});
+    const server = IPCServerModule.createServer(config);
 
     // Create providers
     const serverProvider: Provider = {
@@ -159,13 +169,15 @@ export class IPCServerModule implements OnModuleInit, OnModuleDestroy {
     inject?: any[];
     useFactory: (
       ...args: any[]
-    ) => Promise<Partial<IPCServerConfig>> | Partial<IPCServerConfig>;
+    ) =>
+      | Promise<Partial<IPCServerModuleConfig>>
+      | Partial<IPCServerModuleConfig>;
   }): DynamicModule {
     const serverProvider: Provider = {
       provide: IPC_SERVER_TOKEN,
       useFactory: async (...args: any[]) => {
         const config = await options.useFactory(...args);
-        const server = new IPCServer(config);
+        const server = IPCServerModule.createServer(config);
         return server;
       },
       inject: options.inject || [],
@@ -215,7 +227,7 @@ export class IPCServerModule implements OnModuleInit, OnModuleDestroy {
    * @returns Server instance
    */
   static async boot(
-    config?: Partial<IPCServerConfig>,
+    config?: Partial<IPCServerModuleConfig>,
     onLog?: (message: string, data?: any) => void
   ): Promise<IPCServer> {
     const logger = new Logger("IPCServerBoot");
@@ -223,56 +235,11 @@ export class IPCServerModule implements OnModuleInit, OnModuleDestroy {
     try {
       logger.log("Starting IPC Gateway...");
 
-      // Create server instance
-      const server = new IPCServer(config || {});
-
-      // Setup event listeners for logging
-      if (onLog) {
-        server.on("log", (logData) => {
-          onLog(logData.message, logData.data);
-        });
-      }
-
-      // Log important events
-      server.on("started", (data) => {
-        logger.log(`Gateway listening on: ${data.socketPath}`);
-      });
-
-      server.on("service-registered", (data) => {
-        logger.log(
-          `Service registered: ${data.serviceName} (${data.methods.length} methods)`
-        );
-      });
-
-      server.on("service-disconnected", (data) => {
-        logger.log(`Service disconnected: ${data.serviceName}`);
-      });
-
-      server.on("call-routed", (data) => {
-        if (config?.debug) {
-          logger.debug(
-            `Routing CALL: ${data.from} → ${data.to}.${data.method}()`
-          );
-        }
-      });
-
-      server.on("response-routed", (data) => {
-        if (config?.debug) {
-          logger.debug(
-            `Routing RESPONSE: ${data.from} → ${data.to} [${data.status}]`
-          );
-        }
-      });
-
-      server.on("error", (error) => {
-        logger.error("Gateway error:", error);
-      });
-
-      // Start server
+      const server = IPCServerModule.createServer(config, onLog);
       await server.start();
 
-      // Store reference for cleanup
-      IPCServerModule.server = server;
+      // The `$gateway` control service registers once listening
+      await IPCServerModule.controlStarting;
 
       logger.log("✓ IPC Gateway started successfully");
 
@@ -284,19 +251,228 @@ export class IPCServerModule implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Stop the server
+   * Drain and stop the server
+   *
+   * Calls in flight get up to `gracePeriod` ms (default: the boot
+   * config's) to be answered before the server stops.
    *
    * Usage:
    * await IPCServerModule.shutdown();
    */
-  static async shutdown(): Promise<void> {
+  static shutdown(gracePeriod?: number): Promise<void> {
+    IPCServerModule.stopping ??= IPCServerModule.drainAndStop(
+      gracePeriod ?? IPCServerModule.gracePeriod
+    ).finally(() => {
+      IPCServerModule.stopping = null;
+    });
+
+    return IPCServerModule.stopping;
+  }
+
+  private static async drainAndStop(gracePeriod: number): Promise<void> {
     const logger = new Logger("IPCServerShutdown");
+    const server = IPCServerModule.server;
+
+    if (!server) {
+      return;
+    }
+
+    logger.log("Shutting down IPC Gateway...");
+
+    // Let a control service still registering come up to stop it
+    await IPCServerModule.controlStarting?.catch(() => undefined);
+    IPCServerModule.controlStarting = null;
+
+    const control = IPCServerModule.control;
+    if (control) {
+      const unanswered = await control.drain(gracePeriod);
+
+      if (unanswered > 0) {
+        logger.warn(`Grace period over, cutting off ${unanswered} calls`);
+      }
+    }
+
+    await IPCServerModule.stopControl();
+    await server.stop();
+    IPCServerModule.server = null;
+    logger.log("✓ IPC Gateway stopped");
+  }
+
+  /**
+   * Shut down on signals, then let the signal end the process
+   * (left to other listeners, like Nest's shutdown hooks, if any)
+   */
+  private static handleSignals(signals: NodeJS.Signals[]): void {
+    const onSignal = (signal: NodeJS.Signals) => {
+      signals.forEach((s) => process.removeListener(s, onSignal));
+
+      IPCServerModule.shutdown()
+        .catch((error) =>
+          new Logger("IPCServerShutdown").error("Shutdown failed:", error)
+        )
+        .finally(() => {
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        });
+    };
+
+    signals.forEach((signal) => process.on(signal, onSignal));
+  }
+
+  /**
+   * Get the `$gateway` control service
+   *
+   * @returns Control service or null if the gateway was not booted
+   */
+  static getControl(): IPCGatewayControl | null {
+    return IPCServerModule.control;
+  }
+
+  /**
+   * Get the access control holding the gateway's ACL policy
+   */
+  static getAccessControl(): IPCAccessControl {
+    return IPCServerModule.accessControl;
+  }
+
+  /**
+   * Create the server for boot(), register() and registerAsync()
+   *
+   * Applies the gateway settings (ACL, grace period, shutdown signals),
+   * keeps the server for shutdown() and starts the `$gateway` control
+   * service once the server is listening.
+   */
+  private static createServer(
+    config?: Partial<IPCServerModuleConfig>,
+    onLog?: (message: string, data?: any) => void
+  ): IPCServer {
+    const { acl, auth, gracePeriod, shutdownSignals, ...serverConfig } =
+      config || {};
+    const server = new IPCServer(serverConfig);
+    IPCServerModule.accessControl.setPolicy(acl);
+    IPCServerModule.gracePeriod = gracePeriod ?? DEFAULT_GRACE_PERIOD;
+    IPCServerModule.server = server;
+    IPCServerModule.controlStarting = null;
+
+    IPCServerModule.logEvents(server, config?.debug, onLog);
+
+    server.once("started", (data) => {
+      const starting = IPCServerModule.startControl(
+        server,
+        data.socketPath,
+        config?.debug,
+        auth
+      );
+
+      // Awaited by boot(), only logged for register() / registerAsync()
+      starting.catch((error) =>
+        new Logger(IPCServerModule.name).error(
+          "Failed to start Gateway control service:",
+          error
+        )
+      );
+      IPCServerModule.controlStarting = starting;
+    });
+
+    if (shutdownSignals?.length) {
+      IPCServerModule.handleSignals(shutdownSignals);
+    }
+
+    return server;
+  }
+
+  /**
+   * Log the important server events
+   */
+  private static logEvents(
+    server: IPCServer,
+    debug?: boolean,
+    onLog?: (message: string, data?: any) => void
+  ): void {
+    const logger = new Logger("IPCServerBoot");
+
+    // Setup event listeners for logging
+    if (onLog) {
+      server.on("log", (logData) => {
+        onLog(logData.message, logData.data);
+      });
+    }
+
+    server.on("started", (data) => {
+      logger.log(`Gateway listening on: ${data.socketPath}`);
+    });
+
+    server.on("service-registered", (data) => {
+      logger.log(
+        `Service registered: ${data.serviceName} (${data.methods.length} methods)`
+      );
+    });
+
+    server.on("service-disconnected", (data) => {
+      logger.log(`Service disconnected: ${data.serviceName}`);
+    });
+
+    server.on("call-routed", (data) => {
+      if (debug) {
+        logger.debug(
+          `Routing CALL: ${data.from} → ${data.to}.${data.method}()`
+        );
+      }
+    });
+
+    server.on("response-routed", (data) => {
+      if (debug) {
+        logger.debug(
+          `Routing RESPONSE: ${data.from} → ${data.to} [${data.status}]`
+        );
+      }
+    });
+
+    server.on("event-published", (data) => {
+      if (debug) {
+        logger.debug(
+          `Event ${data.topic} from ${data.from} → ${data.subscribers.length} subscribers`
+        );
+      }
+    });
+
+    server.on("registration-refused", (data) => {
+      logger.warn(`Registration refused: ${data.serviceName} (${data.reason})`);
+    });
+
+    server.on("call-denied", (data) => {
+      logger.warn(`Call denied: ${data.from} → ${data.to}.${data.method}()`);
+    });
+
+    server.on("service-draining", (data) => {
+      logger.log(`Service draining: ${data.serviceName}`);
+    });
 
-    if (IPCServerModule.server) {
-      logger.log("Shutting down IPC Gateway...");
-      await IPCServerModule.server.stop();
-      IPCServerModule.server = null;
-      logger.log("✓ IPC Gateway stopped");
+    server.on("error", (error) => {
+      logger.error("Gateway error:", error);
+    });
+  }
+
+  private static async startControl(
+    server: IPCServer,
+    socketPath: string,
+    debug?: boolean,
+    auth?: IPCServerAuthConfig
+  ): Promise<void> {
+    const control = new IPCGatewayControl(server, socketPath, {
+      debug,
+      accessControl: IPCServerModule.accessControl,
+      authenticator: auth ? new IPCAuthenticator(auth) : undefined,
+    });
+    await control.start();
+    IPCServerModule.control = control;
+  }
+
+  private static async stopControl(): Promise<void> {
+    if (IPCServerModule.control) {
+      await IPCServerModule.control.stop();
+      IPCServerModule.control = null;
     }
   }
 
@@ -356,7 +532,9 @@ export class IPCServerService {
    * Get list of connected services
    */
   getConnectedServices(): string[] {
-    return this.server.getConnectedServices();
+    return this.server
+      .getConnectedServices()
+      .filter((name) => name !== IPC_GATEWAY_SERVICE);
   }
 
   /**
@@ -380,6 +558,92 @@ export class IPCServerService {
     return this.server.getStatus();
   }
 
+  /**
+   * Replace the ACL policy (hot reload)
+   *
+   * Services drop their cached decisions, the new policy applies to
+   * the next calls.
+   *
+   * Usage:
+   * this.ipcServerService.setAccessPolicy({
+   *   deny: ['* -> payment-service.refund'],
+   *   allow: ['admin-service -> payment-service.*'],
+   * });
+   */
+  setAccessPolicy(policy?: IPCAccessPolicy): void {
+    IPCServerModule.getAccessControl().setPolicy(policy);
+  }
+
+  /**
+   * Get the current ACL policy
+   */
+  getAccessPolicy(): IPCAccessPolicy | undefined {
+    return IPCServerModule.getAccessControl().getPolicy();
+  }
+
+  /**
+   * Check if a service is shutting down (reported with `$gateway.drain`)
+   */
+  isServiceDraining(serviceName: string): boolean {
+    return IPCServerModule.getControl()?.isDraining(serviceName) ?? false;
+  }
+
+  /**
+   * Get the services shutting down
+   */
+  getDrainingServices(): string[] {
+    return IPCServerModule.getControl()?.getDrainingServices() ?? [];
+  }
+
+  /**
+   * Get the services callers must not route to, with the reason
+   *
+   * Usage:
+   * this.ipcServerService.getBlockedServices();
+   * // { 'payment-service': 'unauthenticated' }
+   */
+  getBlockedServices(): Record<string, IPCRouteBlock> {
+    return IPCServerModule.getControl()?.getBlockedServices() ?? {};
+  }
+
+  /**
+   * Get the event topic patterns of every subscribed service
+   *
+   * Usage:
+   * this.ipcServerService.getSubscriptions();
+   * // { 'mail-service': ['order.*'], 'audit-service': ['**'] }
+   */
+  getSubscriptions(): Record<string, string[]> {
+    return IPCServerModule.getControl()?.getSubscriptions() ?? {};
+  }
+
+  /**
+   * Get the services subscribed to a topic
+   */
+  getSubscribers(topic: string): string[] {
+    return IPCServerModule.getControl()?.getSubscribers(topic) ?? [];
+  }
+
+  /**
+   * Publish an event from the Gateway to every subscribed service
+   *
+   * Usage:
+   * await this.ipcServerService.emit('maintenance.scheduled', { at });
+   */
+  async emit(
+    topic: string,
+    payload?: any,
+    options: IPCEmitOptions = {}
+  ): Promise<IPCPublishResult> {
+    const control = IPCServerModule.getControl();
+
+    if (!control) {
+      throw new Error("IPC Gateway control service not started");
+    }
+
+    return control.publish(topic, payload, options);
+  }
+
   /**
    * Get raw server instance (use carefully)
    */
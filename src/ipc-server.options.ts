@@ -0,0 +1,36 @@
+/**
+ * IPC Server Module Options
+ *
+ * Configuration accepted by IPCServerModule.boot(), register() and
+ * registerAsync(). Extends the ipc-bro server config with the options
+ * handled by this package; the ipc-bro part is passed to IPCServer.
+ */
+
+import { IPCServerConfig } from "ipc-bro";
+import { IPCAccessPolicy } from "./ipc-access-control";
+import { IPCServerAuthConfig } from "./ipc-auth";
+
+export interface IPCServerModuleConfig extends IPCServerConfig {
+  /**
+   * Access policy for service-to-method calls (default: allow all)
+   * Can be replaced at runtime with IPCServerService.setAccessPolicy()
+   */
+  acl?: IPCAccessPolicy;
+
+  /**
+   * Require services to authenticate after registering
+   */
+  auth?: IPCServerAuthConfig;
+
+  /**
+   * Longest wait for calls in flight when the booted Gateway shuts
+   * down, in ms (default: 10000)
+   */
+  gracePeriod?: number;
+
+  /**
+   * Drain and stop the Gateway on these signals, e.g. ['SIGTERM', 'SIGINT']
+   * (boot() only, Nest apps use app.enableShutdownHooks())
+   */
+  shutdownSignals?: NodeJS.Signals[];
+}
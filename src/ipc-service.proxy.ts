@@ -0,0 +1,294 @@
+/**
+ * Typed Remote Service Proxies
+ *
+ * Declare what a remote service exposes once, then call it like a
+ * local dependency instead of `ipc.call('service', 'method', params)`.
+ *
+ * Usage:
+ *
+ * // contracts/user-service.contract.ts
+ * @IPCServiceContract('user-service', { methods: ['getUserById'] })
+ * export abstract class UserServiceContract {
+ *   abstract getUserById(params: { userId: string }): Promise<User>;
+ * }
+ *
+ * // app.module.ts
+ * @Module({
+ *   imports: [
+ *     IPCClientModule.boot(),
+ *     IPCClientModule.forFeature([UserServiceContract]),
+ *   ],
+ * })
+ *
+ * // order.service.ts
+ * constructor(
+ *   @InjectIPCService('user-service') private readonly users: UserServiceContract
+ * ) {}
+ *
+ * const user = await this.users.getUserById({ userId }); // typed
+ *
+ * Methods namespaced with @IPCController are nested:
+ *
+ * abstract class OrderServiceContract {
+ *   abstract orders: { list(params: { userId: string }): Promise<Order[]> };
+ * }
+ *
+ * await this.orderService.orders.list({ userId }); // calls 'orders.list'
+ *
+ * Interfaces work too, registered by service name:
+ *
+ * IPCClientModule.forFeature([{ service: 'cart-service' }])
+ *
+ * @InjectIPCService('cart-service') cart: IPCServiceProxy<CartServiceContract>
+ */
+
+import { Inject, Type } from "@nestjs/common";
+import { IPCCallOptions } from "./ipc-call-options";
+import type { IPCClientService } from "./ipc-client.service";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Metadata key for @IPCServiceContract() options
+ */
+export const IPC_SERVICE_CONTRACT_METADATA_KEY = "ipc:service-contract";
+
+/**
+ * Hooks Nest looks up on every provider, never remote methods
+ */
+const NEST_LIFECYCLE_HOOKS = new Set([
+  "onModuleInit",
+  "onApplicationBootstrap",
+  "onModuleDestroy",
+  "beforeApplicationShutdown",
+  "onApplicationShutdown",
+]);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for @IPCServiceContract()
+ */
+export interface IPCServiceContractOptions {
+  /**
+   * Remote method names
+   * Abstract methods don't exist at runtime, list them here to have
+   * them checked against the gateway in debug mode.
+   */
+  methods?: string[];
+}
+
+/**
+ * Contract registered without a class (for interface contracts)
+ */
+export interface IPCServiceContractDefinition
+  extends IPCServiceContractOptions {
+  service: string;
+}
+
+/**
+ * Anything accepted by IPCClientModule.forFeature()
+ */
+export type IPCServiceContract =
+  | Type<any>
+  | (abstract new (...args: any[]) => any)
+  | IPCServiceContractDefinition;
+
+/**
+ * Proxy type for a contract
+ *
+ * Every method takes the params object plus optional call options and
+ * returns a Promise of the method's result. Object members are
+ * namespaces (@IPCController prefixes) of more methods.
+ */
+export type IPCServiceProxy<T> = {
+  [K in keyof T as T[K] extends (...args: any[]) => any
+    ? K
+    : T[K] extends object
+    ? K
+    : never]: T[K] extends (params: infer P, ...rest: any[]) => infer R
+    ? (params: P, options?: IPCCallOptions) => Promise<Awaited<R>>
+    : IPCServiceProxy<T[K]>;
+};
+
+// ============================================================================
+// DECORATORS
+// ============================================================================
+
+/**
+ * @IPCServiceContract() Decorator
+ *
+ * Bind a contract class to a remote service name
+ *
+ * @param service - Remote service name
+ * @param options - Contract options
+ */
+export function IPCServiceContract(
+  service: string,
+  options: IPCServiceContractOptions = {}
+): ClassDecorator {
+  return (target: Function) => {
+    Reflect.defineMetadata(
+      IPC_SERVICE_CONTRACT_METADATA_KEY,
+      { service, ...options },
+      target
+    );
+  };
+}
+
+/**
+ * @InjectIPCService() Decorator
+ *
+ * Inject the proxy for a remote service registered with
+ * IPCClientModule.forFeature()
+ *
+ * @param service - Remote service name
+ */
+export const InjectIPCService = (service: string) =>
+  Inject(getIPCServiceToken(service));
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Injection token of a remote service proxy
+ */
+export function getIPCServiceToken(service: string): string {
+  return `IPC_SERVICE:${service}`;
+}
+
+/**
+ * Read the contract definition of a forFeature() entry
+ *
+ * @throws Error if a class is not decorated with @IPCServiceContract()
+ */
+export function getIPCServiceContract(
+  contract: IPCServiceContract
+): IPCServiceContractDefinition {
+  if (typeof contract !== "function") {
+    return contract;
+  }
+
+  const definition = Reflect.getMetadata(
+    IPC_SERVICE_CONTRACT_METADATA_KEY,
+    contract
+  );
+
+  if (!definition) {
+    throw new Error(
+      `${contract.name} must be decorated with @IPCServiceContract() to be used in IPCClientModule.forFeature()`
+    );
+  }
+
+  return definition;
+}
+
+/**
+ * Get the methods a class contract declares: its `methods` option and
+ * the methods implemented on its prototype
+ *
+ * @returns Method names, or undefined when any method may be called
+ *   (interface contracts, classes declaring none)
+ */
+export function getIPCServiceContractMethods(
+  contract: IPCServiceContract
+): string[] | undefined {
+  if (typeof contract !== "function") {
+    return undefined;
+  }
+
+  const methods = new Set(getIPCServiceContract(contract).methods);
+
+  for (const name of Object.getOwnPropertyNames(contract.prototype)) {
+    if (name !== "constructor") {
+      methods.add(name);
+    }
+  }
+
+  return methods.size ? [...methods] : undefined;
+}
+
+/**
+ * Create a proxy that turns method calls into IPC calls
+ *
+ * @param client - IPCClientService used for the calls
+ * @param service - Remote service name
+ * @param namespace - Prefix of the method names (`orders.v2`)
+ * @param allowed - Methods that may be called (qualified names), any
+ *   method when not provided
+ * @returns Proxy object
+ */
+export function createIPCServiceProxy<T = any>(
+  client: IPCClientService,
+  service: string,
+  namespace?: string,
+  allowed?: string[]
+): T {
+  const methods = new Map<string, Function>();
+
+  return new Proxy(Object.create(null), {
+    get(_target, property) {
+      // Not a remote method: symbols (util.inspect.custom...), promise
+      // detection, serialization, Nest lifecycle hooks
+      if (
+        typeof property !== "string" ||
+        property === "then" ||
+        property === "toJSON" ||
+        property === "constructor" ||
+        NEST_LIFECYCLE_HOOKS.has(property)
+      ) {
+        return undefined;
+      }
+
+      const name = namespace ? `${namespace}.${property}` : property;
+
+      // Names outside the contract, unless they prefix one of its methods
+      if (
+        allowed &&
+        !allowed.some(
+          (method) => method === name || method.startsWith(`${name}.`)
+        )
+      ) {
+        return undefined;
+      }
+
+      let method = methods.get(property);
+
+      if (!method) {
+        method = createIPCMethodProxy(client, service, name, allowed);
+        methods.set(property, method);
+      }
+
+      return method;
+    },
+  }) as T;
+}
+
+/**
+ * Callable proxy of a remote method, also the namespace of the methods
+ * below it (`proxy.orders` calls 'orders', `proxy.orders.list` 'orders.list')
+ *
+ * Function members (bind, call, apply, name, length...) stay the
+ * function's own, they can't name a nested method.
+ */
+function createIPCMethodProxy(
+  client: IPCClientService,
+  service: string,
+  method: string,
+  allowed?: string[]
+): Function {
+  const call = (params: any = {}, options?: IPCCallOptions) =>
+    client.call(service, method, params, options);
+  const members = createIPCServiceProxy(client, service, method, allowed);
+  Object.defineProperty(call, "name", { value: method });
+
+  return new Proxy(call, {
+    get: (target, property) =>
+      property in target ? Reflect.get(target, property) : members[property],
+  });
+}
@@ -0,0 +1,612 @@
+/**
+ * IPC Streams
+ *
+ * Methods returning many items (large result sets, progress updates)
+ * deliver them incrementally instead of buffering one response.
+ *
+ * Usage:
+ *
+ * // report-service
+ * @IPCStream()
+ * async *exportRows(params: { year: number }) {
+ *   for await (const row of this.db.cursor(params.year)) {
+ *     yield row;
+ *   }
+ * }
+ *
+ * // any service
+ * this.ipc.stream<Row>('report-service', 'exportRows', { year: 2024 })
+ *   .subscribe((row) => ...);
+ *
+ * The transport only knows request / response, so streams are pulled:
+ * calling a stream method opens the stream and returns its id, the
+ * caller then asks for chunks through the producer's reserved
+ * `$streamPull` method until a chunk says `done`. Unsubscribing calls
+ * `$streamCancel`, which stops the source and aborts the handler's
+ * AbortSignal.
+ *
+ * AsyncIterables are read only as fast as the caller pulls, up to
+ * `highWaterMark` items ahead. Observables can't be paused, their items
+ * are buffered until pulled.
+ */
+
+import { isObservable, Observable, Subscription } from "rxjs";
+import { randomUUID } from "crypto";
+import { IPCMethod } from "./ipc-method.decorator";
+import { IPCError, IPCErrorCode } from "./ipc-errors";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Reserved methods registered by every IPCClientService
+ * Called by stream consumers, through the gateway
+ */
+export const IPC_STREAM_PULL_METHOD = "$streamPull";
+export const IPC_STREAM_CANCEL_METHOD = "$streamCancel";
+
+/**
+ * Metadata key for @IPCStream() options
+ */
+export const IPC_STREAM_METADATA_KEY = "ipc:stream";
+
+/**
+ * Longest a pull waits for items before answering an empty chunk
+ * Consumers ask for less when their timeout or deadline is shorter.
+ */
+export const IPC_STREAM_PULL_WAIT = 5000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for @IPCStream()
+ */
+export interface IPCStreamOptions {
+  /**
+   * Method name (default: the property name)
+   */
+  name?: string;
+
+  description?: string;
+
+  /**
+   * Max items per chunk (default: 100)
+   */
+  chunkSize?: number;
+
+  /**
+   * Max items read ahead of the caller (default: 1000)
+   * AsyncIterables stop being read past it.
+   */
+  highWaterMark?: number;
+
+  /**
+   * Cancel the stream when the caller hasn't pulled for this long
+   * (ms, default: 30000)
+   */
+  idleTimeout?: number;
+}
+
+/**
+ * Stream settings stored by @IPCStream()
+ */
+export interface IPCStreamMetadata {
+  chunkSize: number;
+  highWaterMark: number;
+  idleTimeout: number;
+}
+
+export const DEFAULT_IPC_STREAM_METADATA: IPCStreamMetadata = {
+  chunkSize: 100,
+  highWaterMark: 1000,
+  idleTimeout: 30000,
+};
+
+/**
+ * Answer of a stream method: the stream to pull from
+ */
+export interface IPCStreamHandle {
+  $stream: string;
+}
+
+/**
+ * Answer of `$streamPull`
+ *
+ * `done` is set on the last chunk. A failed stream carries its error on
+ * the last chunk, after the items produced before the failure.
+ */
+export interface IPCStreamChunk<T = any> {
+  streamId: string;
+  seq: number;
+  items: T[];
+  done: boolean;
+  error?: { code: string; message: string; details?: any };
+}
+
+/**
+ * Params of `$streamPull` / `$streamCancel`
+ */
+export interface IPCStreamRequest {
+  streamId: string;
+  reason?: string;
+
+  /**
+   * Longest the pull may wait for items (ms, `$streamPull` only)
+   */
+  wait?: number;
+}
+
+/**
+ * Open stream, as listed by IPCStreamRegistry.getStreams()
+ */
+export interface IPCStreamInfo {
+  id: string;
+  method: string;
+  caller?: string;
+  buffered: number;
+  sent: number;
+  openedAt: number;
+}
+
+// ============================================================================
+// DECORATOR
+// ============================================================================
+
+/**
+ * @IPCStream() Decorator
+ *
+ * Marks a method as a stream method callable via IPC. The method
+ * returns an Observable, an AsyncIterable (async generator) or an
+ * Iterable. Guards, pipes, validation and the ACL apply when the stream
+ * is opened.
+ *
+ * Usage:
+ * @IPCStream()
+ * watchJob(@IPCParam('jobId') jobId: string): Observable<Progress> {
+ *   return this.jobs.progress$(jobId);
+ * }
+ *
+ * @IPCStream({ name: 'exportRows', chunkSize: 500 })
+ * async *export(params, context, signal: AbortSignal) { ... }
+ *
+ * @param nameOrOptions - Method name or options
+ * @returns MethodDecorator
+ */
+export function IPCStream(
+  nameOrOptions?: string | IPCStreamOptions
+): MethodDecorator {
+  const options: IPCStreamOptions =
+    typeof nameOrOptions === "string"
+      ? { name: nameOrOptions }
+      : nameOrOptions || {};
+
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    IPCMethod({ name: options.name, description: options.description })(
+      target,
+      propertyKey,
+      descriptor
+    );
+
+    const defaults = DEFAULT_IPC_STREAM_METADATA;
+    const metadata: IPCStreamMetadata = {
+      chunkSize: options.chunkSize ?? defaults.chunkSize,
+      highWaterMark: options.highWaterMark ?? defaults.highWaterMark,
+      idleTimeout: options.idleTimeout ?? defaults.idleTimeout,
+    };
+
+    Reflect.defineMetadata(
+      IPC_STREAM_METADATA_KEY,
+      metadata,
+      target,
+      propertyKey
+    );
+
+    return descriptor;
+  };
+}
+
+/**
+ * Get the stream settings of an @IPCStream method
+ *
+ * @returns Settings or undefined if not a stream method
+ */
+export function getIPCStreamMetadata(
+  target: any,
+  propertyKey: string | symbol
+): IPCStreamMetadata | undefined {
+  return Reflect.getMetadata(IPC_STREAM_METADATA_KEY, target, propertyKey);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check if a call answer is a stream handle
+ */
+export function isIPCStreamHandle(value: unknown): value is IPCStreamHandle {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as IPCStreamHandle).$stream === "string"
+  );
+}
+
+/**
+ * Result of a stream method, boxed so Nest's external context doesn't
+ * turn an Observable into its last value
+ */
+export class IPCStreamSource {
+  constructor(readonly source: unknown) {}
+}
+
+/**
+ * Wrap a stream method so its result comes out as an IPCStreamSource
+ *
+ * The wrapper carries the method's metadata (guards, interceptors,
+ * roles, ...) so enhancers see it as the original handler.
+ */
+export function wrapStreamMethod(methodRef: Function): Function {
+  const wrapper = function (this: any, ...args: any[]) {
+    const result = methodRef.apply(this, args);
+
+    return result instanceof Promise
+      ? result.then((source) => new IPCStreamSource(source))
+      : new IPCStreamSource(result);
+  };
+
+  for (const key of Reflect.getMetadataKeys(methodRef)) {
+    Reflect.defineMetadata(key, Reflect.getMetadata(key, methodRef), wrapper);
+  }
+  Object.defineProperty(wrapper, "name", { value: methodRef.name });
+
+  return wrapper;
+}
+
+/**
+ * How long a pull may wait for items
+ *
+ * Half the time left to the pull call (its timeout or the caller's
+ * deadline), so the chunk is back before the call times out.
+ *
+ * @param timeout - Time budget of the pull call (ms)
+ */
+export function getStreamPullWait(timeout?: number): number {
+  return timeout === undefined
+    ? IPC_STREAM_PULL_WAIT
+    : Math.max(0, Math.min(IPC_STREAM_PULL_WAIT, Math.floor(timeout / 2)));
+}
+
+/**
+ * Rebuild the error of a failed stream on the consumer side
+ */
+export function createStreamError(
+  error: NonNullable<IPCStreamChunk["error"]>
+): IPCError {
+  return new IPCError(error.code, error.message, error.details);
+}
+
+function serializeError(error: any): NonNullable<IPCStreamChunk["error"]> {
+  return {
+    code:
+      typeof error?.code === "string"
+        ? error.code
+        : IPCErrorCode.INTERNAL_ERROR,
+    message: error?.message ?? String(error),
+    details: error?.details,
+  };
+}
+
+// ============================================================================
+// PRODUCER STREAM
+// ============================================================================
+
+/**
+ * Items of one open stream, waiting to be pulled
+ */
+class IPCProducerStream {
+  readonly openedAt = Date.now();
+  private readonly buffer: any[] = [];
+  private waiters: (() => void)[] = [];
+  private subscription?: Subscription;
+  private iterator?: AsyncIterator<any> | Iterator<any>;
+  private idleTimer?: NodeJS.Timeout;
+  private finished = false;
+  private closed = false;
+  private error?: unknown;
+  private seq = 0;
+  sent = 0;
+
+  constructor(
+    readonly id: string,
+    readonly method: string,
+    readonly caller: string | undefined,
+    private readonly options: IPCStreamMetadata,
+    private readonly controller: AbortController,
+    private readonly onIdle: () => void
+  ) {
+    this.touch();
+  }
+
+  get buffered(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Start reading the source
+   */
+  start(source: unknown): void {
+    if (isObservable(source)) {
+      this.subscription = (source as Observable<any>).subscribe({
+        next: (item) => this.push(item),
+        error: (error) => this.end(error),
+        complete: () => this.end(),
+      });
+    } else if (isIterable(source)) {
+      this.iterator =
+        Symbol.asyncIterator in source
+          ? (source as AsyncIterable<any>)[Symbol.asyncIterator]()
+          : (source as Iterable<any>)[Symbol.iterator]();
+      void this.pump(this.iterator);
+    } else {
+      // Plain value: one-item stream
+      if (source !== undefined) {
+        this.push(source);
+      }
+      this.end();
+    }
+  }
+
+  /**
+   * Take the next chunk, waiting up to `wait` ms for items
+   */
+  async pull(wait: number): Promise<IPCStreamChunk> {
+    this.touch();
+
+    if (this.buffer.length === 0 && !this.finished) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, wait);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+
+    const items = this.buffer.splice(0, this.options.chunkSize);
+    const done = this.finished && this.buffer.length === 0;
+    this.sent += items.length;
+    this.notify();
+
+    return {
+      streamId: this.id,
+      seq: this.seq++,
+      items,
+      done,
+      error:
+        done && this.error !== undefined
+          ? serializeError(this.error)
+          : undefined,
+    };
+  }
+
+  /**
+   * Stop the source and abort the producing handler
+   */
+  cancel(reason: string): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.close();
+    this.subscription?.unsubscribe();
+    void Promise.resolve(this.iterator?.return?.()).catch(() => undefined);
+    this.controller.abort(
+      new IPCError(IPCErrorCode.STREAM_CANCELLED, reason, {
+        streamId: this.id,
+        method: this.method,
+      })
+    );
+  }
+
+  /**
+   * Release timers once the last chunk was pulled
+   */
+  close(): void {
+    this.closed = true;
+    this.finished = true;
+    clearTimeout(this.idleTimer);
+    this.notify();
+  }
+
+  private async pump(iterator: AsyncIterator<any> | Iterator<any>) {
+    try {
+      while (!this.closed) {
+        // Backpressure: wait for the caller to catch up
+        if (this.buffer.length >= this.options.highWaterMark) {
+          await new Promise<void>((resolve) => this.waiters.push(resolve));
+          continue;
+        }
+
+        const { value, done } = await iterator.next();
+
+        if (done) {
+          break;
+        }
+        this.push(value);
+      }
+      this.end();
+    } catch (error) {
+      this.end(error);
+    }
+  }
+
+  private push(item: any): void {
+    if (!this.finished) {
+      this.buffer.push(item);
+      this.notify();
+    }
+  }
+
+  private end(error?: unknown): void {
+    if (!this.finished) {
+      this.finished = true;
+      this.error = error;
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private touch(): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(this.onIdle, this.options.idleTimeout);
+    this.idleTimer.unref?.();
+  }
+}
+
+function isIterable(
+  value: unknown
+): value is AsyncIterable<any> | Iterable<any> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (Symbol.asyncIterator in value || Symbol.iterator in value)
+  );
+}
+
+// ============================================================================
+// STREAM REGISTRY (producer side)
+// ============================================================================
+
+/**
+ * Open streams of a service, by id
+ */
+export class IPCStreamRegistry {
+  private readonly streams = new Map<string, IPCProducerStream>();
+
+  constructor(private readonly pullWait = IPC_STREAM_PULL_WAIT) {}
+
+  /**
+   * Open a stream over the result of a stream method
+   *
+   * @param caller - Only this service may pull or cancel
+   * @param controller - Aborted when the stream is cancelled
+   */
+  open(
+    method: string,
+    caller: string | undefined,
+    result: unknown,
+    options: IPCStreamMetadata,
+    controller: AbortController
+  ): IPCStreamHandle {
+    const id = randomUUID();
+    const stream = new IPCProducerStream(
+      id,
+      method,
+      caller,
+      options,
+      controller,
+      () => this.cancel(id, caller, "Stream idle timeout")
+    );
+
+    this.streams.set(id, stream);
+    stream.start(result instanceof IPCStreamSource ? result.source : result);
+
+    return { $stream: id };
+  }
+
+  /**
+   * Take the next chunk of a stream
+   *
+   * @param wait - Wait asked for by the consumer, at most `pullWait`
+   */
+  async pull(
+    streamId: string,
+    caller: string | undefined,
+    wait?: number
+  ): Promise<IPCStreamChunk> {
+    const stream = this.get(streamId, caller);
+    const chunk = await stream.pull(
+      typeof wait === "number" ? Math.min(wait, this.pullWait) : this.pullWait
+    );
+
+    if (chunk.done) {
+      stream.close();
+      this.streams.delete(streamId);
+    }
+
+    return chunk;
+  }
+
+  /**
+   * Cancel a stream (caller unsubscribed, idle or shutting down)
+   *
+   * @returns false if the stream was already gone
+   */
+  cancel(
+    streamId: string,
+    caller: string | undefined,
+    reason = "Stream cancelled by caller"
+  ): boolean {
+    const stream = this.streams.get(streamId);
+
+    if (!stream || stream.caller !== caller) {
+      return false;
+    }
+
+    this.streams.delete(streamId);
+    stream.cancel(reason);
+    return true;
+  }
+
+  /**
+   * Cancel every open stream
+   */
+  cancelAll(reason: string): void {
+    for (const stream of this.streams.values()) {
+      stream.cancel(reason);
+    }
+    this.streams.clear();
+  }
+
+  /**
+   * Get the open streams
+   */
+  getStreams(): IPCStreamInfo[] {
+    return [...this.streams.values()].map((stream) => ({
+      id: stream.id,
+      method: stream.method,
+      caller: stream.caller,
+      buffered: stream.buffered,
+      sent: stream.sent,
+      openedAt: stream.openedAt,
+    }));
+  }
+
+  private get(streamId: string, caller: string | undefined) {
+    const stream = this.streams.get(streamId);
+
+    // Streams of other callers look unknown
+    if (!stream || stream.caller !== caller) {
+      throw new IPCError(
+        IPCErrorCode.STREAM_NOT_FOUND,
+        `Stream ${streamId} not found (completed, cancelled or idle)`,
+        { streamId }
+      );
+    }
+
+    return stream;
+  }
+}
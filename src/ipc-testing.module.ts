@@ -0,0 +1,700 @@
+/**
+ * IPC Testing Module
+ *
+ * Runs IPCClientService on an in-process transport: no Gateway, no
+ * socket. Remote services are mocked, outgoing calls are recorded, and
+ * our own @IPCMethod handlers can be invoked as if a remote service had
+ * called them (ACL check, validation, guards, pipes, timeouts...).
+ *
+ * Usage:
+ *
+ * const moduleRef = await Test.createTestingModule({
+ *   imports: [IPCTestingModule.create({ serviceName: 'order-service' })],
+ *   providers: [OrderController],
+ * }).compile();
+ * await moduleRef.init();
+ *
+ * const ipc = moduleRef.get(IPCTestingClient);
+ * ipc.mockService('user-service', {
+ *   getUserById: ({ userId }) => ({ id: userId, name: 'Ada' }),
+ * });
+ *
+ * const order = await ipc.invoke('getOrderDetails', { orderId: '1' }, {
+ *   caller: 'api-gateway',
+ * });
+ * ipc.expectCalled('user-service', 'getUserById', { userId: '123' });
+ *
+ * Events: emitted ones are recorded, incoming ones are simulated:
+ *
+ * ipc.expectEmitted('order.created', { orderId: '1' });
+ * await ipc.publish('payment.succeeded', { orderId: '1' }, { from: 'payment-service' });
+ *
+ * Mocked methods returning an Observable or an AsyncIterable answer
+ * ipc.stream() calls.
+ *
+ * With an existing AppModule, override the client instead:
+ *
+ * Test.createTestingModule({ imports: [AppModule] })
+ *   .overrideProvider(IPC_CLIENT_TOKEN)
+ *   .useValue(new IPCTestingClient('order-service'))
+ */
+
+import { AssertionError } from "assert";
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { isDeepStrictEqual, inspect } from "util";
+import { DynamicModule, Module } from "@nestjs/common";
+import { isObservable } from "rxjs";
+import { DiscoveryService, MetadataScanner } from "@nestjs/core";
+import { IPCClient, IPCContext } from "ipc-bro";
+import {
+  IPCClientService,
+  IPC_CLIENT_CONFIG,
+  IPC_CLIENT_TOKEN,
+} from "./ipc-client.service";
+import { IPCClientModuleConfig } from "./ipc-client.options";
+import { IPCError, IPCErrorCode } from "./ipc-errors";
+import { IPC_GATEWAY_SERVICE } from "./ipc-gateway.control";
+import { extractTraceparent } from "./ipc-tracing";
+import {
+  IPCContextService,
+  extractContext,
+  mergeContext,
+} from "./ipc-context.service";
+import {
+  IPC_EVENT_METHOD,
+  IPCEvent,
+  IPCPublishRequest,
+  IPCPublishResult,
+  matchesTopic,
+} from "./ipc-events";
+import {
+  DEFAULT_IPC_STREAM_METADATA,
+  IPC_STREAM_CANCEL_METHOD,
+  IPC_STREAM_PULL_METHOD,
+  IPCStreamRegistry,
+} from "./ipc-stream";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Mocked remote method: a function of (params, context) or a fixed result
+ */
+export type IPCMockMethod =
+  | ((params: any, context: IPCContext) => any)
+  | string
+  | number
+  | boolean
+  | object
+  | null;
+
+export type IPCMockService = Record<string, IPCMockMethod>;
+
+/**
+ * Outgoing call recorded by IPCTestingClient
+ */
+export interface IPCRecordedCall {
+  service: string;
+  method: string;
+  params: any;
+  context: IPCContext;
+  timestamp: number;
+  result?: any;
+  error?: unknown;
+}
+
+/**
+ * Event emitted by the service under test
+ */
+export interface IPCRecordedEvent {
+  topic: string;
+  payload: any;
+  ack: boolean;
+  timestamp: number;
+}
+
+/**
+ * Options of IPCTestingClient.invoke()
+ */
+export interface IPCInvokeOptions {
+  /**
+   * Service the call comes from (default: 'test-caller')
+   */
+  caller?: string;
+
+  /**
+   * Context overrides (chain, depth, deadline...)
+   */
+  context?: Partial<IPCContext>;
+
+  /**
+   * Caller deadline in ms from now
+   */
+  timeout?: number;
+}
+
+// ============================================================================
+// TESTING CLIENT
+// ============================================================================
+
+/**
+ * In-process replacement of IPCClient
+ *
+ * Calls go to mocked services, or to our own handlers when they target
+ * this service. `$gateway` calls (ACL, catalog, auth) are answered with
+ * permissive defaults that can be mocked too.
+ */
+export class IPCTestingClient extends EventEmitter {
+  private readonly handlers = new Map<
+    string,
+    (params: any, context: IPCContext) => Promise<any>
+  >();
+  private readonly mocks = new Map<string, IPCMockService>();
+  private readonly streams = new IPCStreamRegistry();
+  private calls: IPCRecordedCall[] = [];
+  private events: IPCRecordedEvent[] = [];
+  private subscriptions: string[] = [];
+  private connected = false;
+  private registered = false;
+  private connections = 0;
+
+  constructor(private readonly serviceName: string) {
+    super();
+  }
+
+  // ==========================================================================
+  // IPCClient API
+  // ==========================================================================
+
+  async connect(): Promise<void> {
+    const connection = ++this.connections;
+    this.connected = true;
+    this.emit("connected");
+
+    // Registered once the connect() caller resumed, like over a socket
+    // (not when reconnected in the meantime)
+    setImmediate(() => {
+      if (this.connected && connection === this.connections) {
+        this.registered = true;
+        this.emit("registered");
+      }
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.connected) {
+      this.connected = false;
+      this.registered = false;
+      this.streams.cancelAll("Disconnected");
+      this.emit("disconnected");
+    }
+  }
+
+  registerMethod(
+    name: string,
+    handler: (params: any, context: IPCContext) => Promise<any>
+  ): void {
+    this.handlers.set(name, handler);
+  }
+
+  async call<T = any>(
+    service: string,
+    method: string,
+    params?: any
+  ): Promise<T> {
+    if (!this.connected) {
+      throw new IPCError(
+        IPCErrorCode.NOT_CONNECTED,
+        "Not connected to Gateway"
+      );
+    }
+
+    const context = this.createContext([this.serviceName]);
+
+    if (service === IPC_GATEWAY_SERVICE) {
+      return this.callGateway(method, params, context);
+    }
+
+    const sent = received(params, context);
+    const record: IPCRecordedCall = {
+      service,
+      method,
+      params: sent.params,
+      context: sent.context,
+      timestamp: Date.now(),
+    };
+    this.calls.push(record);
+
+    try {
+      record.result = await this.route(service, method, params, context);
+      return record.result;
+    } catch (error) {
+      record.error = error;
+      throw error;
+    }
+  }
+
+  getStatus() {
+    return {
+      connected: this.connected,
+      registered: this.registered,
+      serviceName: this.serviceName,
+      pendingRequests: 0,
+      registeredMethods: this.handlers.size,
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // ==========================================================================
+  // TEST API
+  // ==========================================================================
+
+  /**
+   * Mock a remote service (methods are merged with earlier mocks)
+   *
+   * Usage:
+   * ipc.mockService('user-service', {
+   *   getUserById: ({ userId }) => ({ id: userId }),
+   *   deleteUser: () => { throw new IPCError('FORBIDDEN', 'No'); },
+   *   ping: 'pong',
+   * });
+   */
+  mockService(service: string, methods: IPCMockService): this {
+    this.mocks.set(service, { ...this.mocks.get(service), ...methods });
+    return this;
+  }
+
+  /**
+   * Invoke one of our @IPCMethod handlers as a remote caller would
+   *
+   * @param method - IPC method name
+   * @param params - Call params
+   * @param options - Caller and context
+   */
+  async invoke<T = any>(
+    method: string,
+    params: any = {},
+    options: IPCInvokeOptions = {}
+  ): Promise<T> {
+    const handler = this.handlers.get(method);
+
+    if (!handler) {
+      throw new IPCError(
+        IPCErrorCode.METHOD_NOT_FOUND,
+        `Method not found: ${this.serviceName}.${method}`
+      );
+    }
+
+    const context = this.createContext(
+      [options.caller || "test-caller"],
+      options.timeout,
+      options.context
+    );
+
+    return clone(await handler(clone(params), context));
+  }
+
+  /**
+   * Get recorded outgoing calls, optionally of one service / method
+   */
+  getCalls(service?: string, method?: string): IPCRecordedCall[] {
+    return this.calls.filter(
+      (call) =>
+        (service === undefined || call.service === service) &&
+        (method === undefined || call.method === method)
+    );
+  }
+
+  /**
+   * Assert a call was made (with deep-equal params when given)
+   *
+   * @throws AssertionError
+   */
+  expectCalled(service: string, method: string, params?: any): void {
+    const calls = this.getCalls(service, method);
+    const matched =
+      params === undefined
+        ? calls.length > 0
+        : calls.some((call) => isSameValue(call.params, params));
+
+    if (!matched) {
+      throw new AssertionError({
+        message:
+          `Expected a call to ${service}.${method}` +
+          (params !== undefined ? ` with ${inspect(params)}` : "") +
+          (calls.length
+            ? `, got params: ${calls.map((c) => inspect(c.params)).join(", ")}`
+            : ", but it was never called"),
+        actual: calls.map((call) => call.params),
+        expected: params,
+      });
+    }
+  }
+
+  /**
+   * Assert no call was made to a service (or to one of its methods)
+   *
+   * @throws AssertionError
+   */
+  expectNotCalled(service: string, method?: string): void {
+    const calls = this.getCalls(service, method);
+
+    if (calls.length > 0) {
+      throw new AssertionError({
+        message: `Expected no call to ${service}${
+          method ? `.${method}` : ""
+        }, got ${calls.length}`,
+        actual: calls.map((call) => `${call.service}.${call.method}`),
+      });
+    }
+  }
+
+  /**
+   * Deliver an event to our @IPCEventHandler methods, as the Gateway
+   * would (regardless of subscriptions)
+   *
+   * @returns Number of handlers that ran
+   */
+  async publish(
+    topic: string,
+    payload?: any,
+    options: { from?: string; ack?: boolean } = {}
+  ): Promise<number> {
+    const deliver = this.handlers.get(IPC_EVENT_METHOD);
+
+    if (!deliver) {
+      throw new Error(
+        "No event dispatcher registered: is IPCClientService initialized?"
+      );
+    }
+
+    const event: IPCEvent = {
+      id: randomUUID(),
+      topic,
+      payload: clone(payload),
+      from: options.from || "test-publisher",
+      timestamp: Date.now(),
+      ack: options.ack ?? true,
+    };
+
+    return deliver(event, this.createContext([IPC_GATEWAY_SERVICE]));
+  }
+
+  /**
+   * Get recorded events, optionally of one topic
+   */
+  getEvents(topic?: string): IPCRecordedEvent[] {
+    return this.events.filter(
+      (event) => topic === undefined || event.topic === topic
+    );
+  }
+
+  /**
+   * Assert an event was emitted (with a deep-equal payload when given)
+   *
+   * @throws AssertionError
+   */
+  expectEmitted(topic: string, payload?: any): void {
+    const events = this.getEvents(topic);
+    const matched =
+      payload === undefined
+        ? events.length > 0
+        : events.some((event) => isSameValue(event.payload, payload));
+
+    if (!matched) {
+      throw new AssertionError({
+        message:
+          `Expected event ${topic}` +
+          (payload !== undefined ? ` with ${inspect(payload)}` : "") +
+          (events.length
+            ? `, got payloads: ${events
+                .map((e) => inspect(e.payload))
+                .join(", ")}`
+            : ", but it was never emitted"),
+        actual: events.map((event) => event.payload),
+        expected: payload,
+      });
+    }
+  }
+
+  /**
+   * Get the topic patterns the service subscribed to
+   */
+  getSubscriptions(): string[] {
+    return [...this.subscriptions];
+  }
+
+  /**
+   * Forget recorded calls and events (and mocks with `mocks: true`)
+   */
+  reset(options: { mocks?: boolean } = {}): void {
+    this.calls = [];
+    this.events = [];
+
+    if (options.mocks) {
+      this.mocks.clear();
+    }
+  }
+
+  // ==========================================================================
+  // ROUTING
+  // ==========================================================================
+
+  private async route(
+    service: string,
+    method: string,
+    params: any,
+    context: IPCContext
+  ): Promise<any> {
+    const mock = this.mocks.get(service);
+
+    if (mock) {
+      // Streams opened by mocked methods
+      if (!(method in mock) && method === IPC_STREAM_PULL_METHOD) {
+        return clone(
+          await this.streams.pull(params.streamId, service, params.wait)
+        );
+      }
+      if (!(method in mock) && method === IPC_STREAM_CANCEL_METHOD) {
+        return this.streams.cancel(params.streamId, service, params.reason);
+      }
+
+      if (!(method in mock)) {
+        throw new IPCError(
+          IPCErrorCode.METHOD_NOT_FOUND,
+          `Method not found: ${service}.${method}`
+        );
+      }
+
+      const value = mock[method];
+      const call = received(params, context);
+
+      const result =
+        typeof value === "function"
+          ? await value(clone(call.params), call.context)
+          : value;
+
+      if (
+        isObservable(result) ||
+        (result && typeof result === "object" && Symbol.asyncIterator in result)
+      ) {
+        return this.streams.open(
+          method,
+          service,
+          result,
+          DEFAULT_IPC_STREAM_METADATA,
+          new AbortController()
+        );
+      }
+
+      return clone(result);
+    }
+
+    // Calls to ourselves go through our own handlers
+    if (service === this.serviceName && this.handlers.has(method)) {
+      return clone(await this.handlers.get(method)!(clone(params), context));
+    }
+
+    throw new IPCError(
+      IPCErrorCode.SERVICE_NOT_FOUND,
+      `Service not found: ${service}`
+    );
+  }
+
+  /**
+   * Answer `$gateway` control calls, mocked ones first
+   */
+  private async callGateway(
+    method: string,
+    params: any,
+    context: IPCContext
+  ): Promise<any> {
+    const mock = this.mocks.get(IPC_GATEWAY_SERVICE);
+
+    if (mock && method in mock) {
+      return this.route(IPC_GATEWAY_SERVICE, method, params, context);
+    }
+
+    switch (method) {
+      case "authorize":
+        return { allowed: true };
+      case "authChallenge":
+        return { nonce: randomUUID() };
+      case "subscribe":
+        this.subscriptions = params?.topics || [];
+        return true;
+      case "publish":
+        return this.recordEvent(params);
+      case "getService": {
+        const methods = this.getServiceMethods(params?.serviceName);
+        return methods
+          ? {
+              name: params.serviceName,
+              methods,
+              connectedAt: Date.now(),
+              lastHeartbeat: Date.now(),
+            }
+          : null;
+      }
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Record an emitted event, delivered back to us when we subscribed
+   */
+  private async recordEvent(
+    request: IPCPublishRequest
+  ): Promise<IPCPublishResult> {
+    this.events.push({
+      topic: request.topic,
+      payload: clone(request.payload),
+      ack: !!request.ack,
+      timestamp: Date.now(),
+    });
+
+    const id = randomUUID();
+    const subscribed = this.subscriptions.some((pattern) =>
+      matchesTopic(pattern, request.topic)
+    );
+
+    if (!subscribed) {
+      return { id, topic: request.topic, subscribers: [] };
+    }
+
+    const delivery = this.publish(request.topic, request.payload, {
+      from: this.serviceName,
+      ack: request.ack,
+    });
+
+    if (!request.ack) {
+      delivery.catch(() => undefined);
+      return { id, topic: request.topic, subscribers: [this.serviceName] };
+    }
+
+    try {
+      await delivery;
+      return {
+        id,
+        topic: request.topic,
+        subscribers: [this.serviceName],
+        delivered: [this.serviceName],
+        failed: [],
+      };
+    } catch (error) {
+      return {
+        id,
+        topic: request.topic,
+        subscribers: [this.serviceName],
+        delivered: [],
+        failed: [
+          { service: this.serviceName, error: (error as Error).message },
+        ],
+      };
+    }
+  }
+
+  private getServiceMethods(service: string): string[] | null {
+    if (service === this.serviceName) {
+      return [...this.handlers.keys()];
+    }
+
+    const mock = this.mocks.get(service);
+    return mock ? Object.keys(mock) : null;
+  }
+
+  private createContext(
+    chain: string[],
+    timeout?: number,
+    overrides: Partial<IPCContext> = {}
+  ): IPCContext {
+    return {
+      root: randomUUID(),
+      chain,
+      depth: chain.length,
+      deadline: timeout !== undefined ? Date.now() + timeout : 0,
+      ...overrides,
+    };
+  }
+}
+
+// ============================================================================
+// TESTING MODULE
+// ============================================================================
+
+@Module({
+  providers: [DiscoveryService, MetadataScanner],
+})
+export class IPCTestingModule {
+  /**
+   * IPCClientModule replacement running on IPCTestingClient
+   *
+   * @param config - Client config (serviceName defaults to 'test-service')
+   * @returns DynamicModule exporting IPCClientService and IPCTestingClient
+   */
+  static create(config: Partial<IPCClientModuleConfig> = {}): DynamicModule {
+    const clientConfig: IPCClientModuleConfig = {
+      serviceName: "test-service",
+      gatewayPath: "memory",
+      ...config,
+    };
+    const client = new IPCTestingClient(clientConfig.serviceName);
+
+    return {
+      module: IPCTestingModule,
+      providers: [
+        { provide: IPC_CLIENT_TOKEN, useValue: client as unknown as IPCClient },
+        { provide: IPCTestingClient, useValue: client },
+        { provide: IPC_CLIENT_CONFIG, useValue: clientConfig },
+        IPCClientService,
+        IPCContextService,
+      ],
+      exports: [
+        IPC_CLIENT_TOKEN,
+        IPC_CLIENT_CONFIG,
+        IPCTestingClient,
+        IPCClientService,
+        IPCContextService,
+      ],
+      global: true,
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Params and context of a call as the callee sees them
+ * (trace and context params stripped, upstream chain continued)
+ */
+function received(
+  params: any,
+  context: IPCContext
+): { params: any; context: IPCContext } {
+  const { params: traced } = extractTraceparent(params);
+  const { params: sent, upstream } = extractContext(traced);
+  return { params: sent, context: mergeContext(context, upstream) };
+}
+
+/**
+ * Copy values like a trip over the wire would
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+/**
+ * Deep-equal on copies: structuredClone() builds objects of the main
+ * realm, expected values may come from another one (jest, vm)
+ */
+function isSameValue(actual: unknown, expected: unknown): boolean {
+  return isDeepStrictEqual(clone(actual), clone(expected));
+}
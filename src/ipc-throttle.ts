@@ -0,0 +1,505 @@
+/**
+ * IPC Throttling
+ *
+ * Caps how often (@IPCThrottle) and how many at once (@IPCConcurrency)
+ * calls run an @IPCMethod handler. Over-limit calls are rejected with
+ * RATE_LIMITED, or wait in a bounded queue when `queue` is set.
+ *
+ * Usage:
+ *
+ * @IPCMethod()
+ * @IPCThrottle({ limit: 100, windowMs: 1000 })              // per caller
+ * @IPCThrottle({ limit: 1000, windowMs: 1000, per: 'global' })
+ * @IPCConcurrency({ limit: 4, queue: 50, queueTimeout: 2000 })
+ * async generateReport(params: { reportId: string }) {
+ *   return { ... };
+ * }
+ *
+ * Per-caller limits are keyed on the calling service, the last entry of
+ * IPCContext.chain. Limits are local to the service instance.
+ */
+
+import { IPCError, IPCErrorCode } from "./ipc-errors";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const IPC_THROTTLE_METADATA_KEY = "ipc:throttle";
+export const IPC_CONCURRENCY_METADATA_KEY = "ipc:concurrency";
+
+/**
+ * Longest wait in the queue when `queueTimeout` is not provided (ms)
+ */
+export const DEFAULT_QUEUE_TIMEOUT = 5000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Queueing of over-limit calls (rejected at once by default)
+ */
+export interface IPCLimitQueueOptions {
+  /**
+   * Calls allowed to wait for a slot, beyond it they are rejected
+   * (default: 0)
+   */
+  queue?: number;
+
+  /**
+   * Longest wait for a slot in ms, bounded by the caller's deadline
+   * (default: 5000)
+   */
+  queueTimeout?: number;
+}
+
+/**
+ * @IPCThrottle() options
+ */
+export interface IPCThrottleOptions extends IPCLimitQueueOptions {
+  /**
+   * Calls allowed per window
+   */
+  limit: number;
+
+  /**
+   * Sliding window length in ms
+   */
+  windowMs: number;
+
+  /**
+   * Count calls per calling service or for all callers (default: 'caller')
+   */
+  per?: "caller" | "global";
+}
+
+/**
+ * @IPCConcurrency() options
+ */
+export interface IPCConcurrencyOptions extends IPCLimitQueueOptions {
+  /**
+   * Calls running at once
+   */
+  limit: number;
+}
+
+// ============================================================================
+// DECORATORS
+// ============================================================================
+
+/**
+ * @IPCThrottle() Decorator
+ *
+ * Limit the calls of an IPC method over a sliding window.
+ * Stack it to combine limits (e.g. per caller and global).
+ *
+ * Usage:
+ * @IPCMethod()
+ * @IPCThrottle({ limit: 10, windowMs: 1000 })
+ * async search(params: { query: string }) {
+ *   return [...];
+ * }
+ */
+export function IPCThrottle(options: IPCThrottleOptions): MethodDecorator {
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    Reflect.defineMetadata(
+      IPC_THROTTLE_METADATA_KEY,
+      [...(getIPCThrottleOptions(target, propertyKey) || []), options],
+      target,
+      propertyKey
+    );
+
+    return descriptor;
+  };
+}
+
+/**
+ * @IPCConcurrency() Decorator
+ *
+ * Limit the calls of an IPC method running at once.
+ *
+ * Usage:
+ * @IPCMethod()
+ * @IPCConcurrency(2)
+ * async resize(params: { imageId: string }) {
+ *   return { ... };
+ * }
+ *
+ * @IPCMethod()
+ * @IPCConcurrency({ limit: 2, queue: 20, queueTimeout: 10000 })
+ * async transcode(params: { videoId: string }) {
+ *   return { ... };
+ * }
+ */
+export function IPCConcurrency(
+  limitOrOptions: number | IPCConcurrencyOptions
+): MethodDecorator {
+  const options =
+    typeof limitOrOptions === "number"
+      ? { limit: limitOrOptions }
+      : limitOrOptions;
+
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    Reflect.defineMetadata(
+      IPC_CONCURRENCY_METADATA_KEY,
+      options,
+      target,
+      propertyKey
+    );
+
+    return descriptor;
+  };
+}
+
+/**
+ * Get @IPCThrottle() options from a method
+ *
+ * @returns Options of each decorator, or undefined if not throttled
+ */
+export function getIPCThrottleOptions(
+  target: any,
+  propertyKey: string | symbol
+): IPCThrottleOptions[] | undefined {
+  return Reflect.getMetadata(IPC_THROTTLE_METADATA_KEY, target, propertyKey);
+}
+
+/**
+ * Get @IPCConcurrency() options from a method
+ */
+export function getIPCConcurrencyOptions(
+  target: any,
+  propertyKey: string | symbol
+): IPCConcurrencyOptions | undefined {
+  return Reflect.getMetadata(IPC_CONCURRENCY_METADATA_KEY, target, propertyKey);
+}
+
+// ============================================================================
+// WAIT QUEUE
+// ============================================================================
+
+interface IPCLimitWaiter {
+  resolve: () => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * FIFO of calls waiting for a slot
+ */
+class IPCLimitQueue {
+  private readonly waiters: IPCLimitWaiter[] = [];
+
+  constructor(private readonly size: number) {}
+
+  get length(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Wait until woken by next()
+   *
+   * @param reject - Error of a full queue or an expired wait
+   */
+  wait(timeout: number, reject: () => IPCError): Promise<void> {
+    if (this.waiters.length >= this.size || timeout <= 0) {
+      return Promise.reject(reject());
+    }
+
+    return new Promise((resolve, fail) => {
+      const waiter: IPCLimitWaiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          fail(reject());
+        }, timeout),
+      };
+
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Wake the oldest waiter
+   *
+   * @returns false if nobody was waiting
+   */
+  next(): boolean {
+    const waiter = this.waiters.shift();
+
+    if (!waiter) {
+      return false;
+    }
+
+    clearTimeout(waiter.timer);
+    waiter.resolve();
+    return true;
+  }
+}
+
+// ============================================================================
+// LIMITERS
+// ============================================================================
+
+/**
+ * Why a call was rejected, with its details
+ */
+type IPCLimitRejection = (details: Record<string, any>) => IPCError;
+
+/**
+ * Sliding window log of calls, per key
+ */
+class IPCRateLimiter {
+  private readonly hits = new Map<string, number[]>();
+  private readonly queues = new Map<string, IPCLimitQueue>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(readonly options: IPCThrottleOptions) {}
+
+  /**
+   * Check if the window has room for a call
+   *
+   * @param woken - The call was just woken by this limiter, so it goes
+   *   before the queued calls
+   */
+  admits(caller: string | undefined, woken: boolean): boolean {
+    const key = this.getKey(caller);
+
+    // Queued calls go first
+    if (!woken && this.getQueue(key).length > 0) {
+      return false;
+    }
+
+    return this.getHits(key).length < this.options.limit;
+  }
+
+  /**
+   * Count a call, once every limit of the method admitted it
+   */
+  record(caller: string | undefined): void {
+    this.getHits(this.getKey(caller)).push(Date.now());
+  }
+
+  /**
+   * Wait in the queue until the window has room, without counting the call
+   */
+  wait(
+    caller: string | undefined,
+    waitFor: number,
+    reject: IPCLimitRejection
+  ): Promise<void> {
+    const key = this.getKey(caller);
+    const promise = this.getQueue(key).wait(waitFor, () =>
+      reject({
+        limit: this.options.limit,
+        windowMs: this.options.windowMs,
+        per: this.options.per ?? "caller",
+        retryAfter: this.getRetryAfter(key),
+      })
+    );
+
+    this.schedule(key);
+    return promise;
+  }
+
+  private getKey(caller: string | undefined): string {
+    return this.options.per === "global" ? "*" : caller ?? "unknown";
+  }
+
+  /**
+   * Calls counted in the current window
+   */
+  private getHits(key: string): number[] {
+    const since = Date.now() - this.options.windowMs;
+    const hits = (this.hits.get(key) || []).filter((at) => at > since);
+
+    this.hits.set(key, hits);
+    return hits;
+  }
+
+  private getRetryAfter(key: string): number {
+    const oldest = this.hits.get(key)?.[0];
+    return oldest === undefined
+      ? 0
+      : Math.max(0, oldest + this.options.windowMs - Date.now());
+  }
+
+  /**
+   * Wake queued calls as the window frees up
+   */
+  private schedule(key: string): void {
+    if (this.timers.has(key)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(key);
+      const queue = this.getQueue(key);
+
+      // One call per free slot, counted once the method's other limits
+      // admit it too
+      let room = this.options.limit - this.getHits(key).length;
+      while (room > 0 && queue.length > 0) {
+        queue.next();
+        room--;
+      }
+
+      if (queue.length > 0) {
+        this.schedule(key);
+      }
+    }, Math.max(1, this.getRetryAfter(key)));
+
+    timer.unref?.();
+    this.timers.set(key, timer);
+  }
+
+  private getQueue(key: string): IPCLimitQueue {
+    let queue = this.queues.get(key);
+
+    if (!queue) {
+      queue = new IPCLimitQueue(this.options.queue ?? 0);
+      this.queues.set(key, queue);
+    }
+
+    return queue;
+  }
+}
+
+/**
+ * Semaphore of running calls
+ */
+class IPCConcurrencyLimiter {
+  private active = 0;
+  private readonly queue: IPCLimitQueue;
+
+  constructor(readonly options: IPCConcurrencyOptions) {
+    this.queue = new IPCLimitQueue(options.queue ?? 0);
+  }
+
+  /**
+   * Take a slot
+   *
+   * @returns Release of the slot
+   */
+  async acquire(
+    waitFor: number,
+    reject: IPCLimitRejection
+  ): Promise<() => void> {
+    if (this.active < this.options.limit && this.queue.length === 0) {
+      this.active++;
+    } else {
+      // The slot is handed over by release()
+      await this.queue.wait(waitFor, () =>
+        reject({ concurrency: this.options.limit, running: this.active })
+      );
+    }
+
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+      if (!this.queue.next()) {
+        this.active--;
+      }
+    };
+  }
+}
+
+/**
+ * Throttling and concurrency limits of one @IPCMethod handler
+ */
+export class IPCMethodLimiter {
+  private readonly rates: IPCRateLimiter[];
+  private readonly concurrency?: IPCConcurrencyLimiter;
+
+  constructor(
+    private readonly method: string,
+    throttles: IPCThrottleOptions[] = [],
+    concurrency?: IPCConcurrencyOptions
+  ) {
+    this.rates = throttles.map((options) => new IPCRateLimiter(options));
+    this.concurrency = concurrency
+      ? new IPCConcurrencyLimiter(concurrency)
+      : undefined;
+  }
+
+  /**
+   * Run `run` once the limits allow it
+   *
+   * @param caller - Calling service, key of per-caller limits
+   * @param remaining - Time left before the caller's deadline (ms)
+   * @throws IPCError RATE_LIMITED when rejected or the wait expired
+   */
+  async run<T>(
+    caller: string | undefined,
+    remaining: number | undefined,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const reject: IPCLimitRejection = (details) =>
+      new IPCError(
+        IPCErrorCode.RATE_LIMITED,
+        `Too many calls to ${this.method}${caller ? ` from ${caller}` : ""}`,
+        { method: this.method, caller, ...details }
+      );
+    const deadline =
+      remaining === undefined ? Infinity : Date.now() + remaining;
+
+    // Recomputed before each wait: time spent queued is not left
+    const waitFor = ({ queueTimeout }: IPCLimitQueueOptions) =>
+      Math.min(queueTimeout ?? DEFAULT_QUEUE_TIMEOUT, deadline - Date.now());
+
+    await this.acquireRates(caller, waitFor, reject);
+
+    if (!this.concurrency) {
+      return run();
+    }
+
+    const release = await this.concurrency.acquire(
+      waitFor(this.concurrency.options),
+      reject
+    );
+
+    try {
+      return await run();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Count the call on every @IPCThrottle once they all have room, so a
+   * call waiting for (or rejected by) one limit uses none of the others
+   */
+  private async acquireRates(
+    caller: string | undefined,
+    waitFor: (options: IPCLimitQueueOptions) => number,
+    reject: IPCLimitRejection
+  ): Promise<void> {
+    let woken: IPCRateLimiter | undefined;
+
+    for (;;) {
+      const full = this.rates.find(
+        (rate) => !rate.admits(caller, rate === woken)
+      );
+
+      if (!full) {
+        this.rates.forEach((rate) => rate.record(caller));
+        return;
+      }
+
+      await full.wait(caller, waitFor(full.options), reject);
+      woken = full;
+    }
+  }
+}
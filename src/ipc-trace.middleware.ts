@@ -0,0 +1,59 @@
+/**
+ * IPC Trace Middleware
+ *
+ * Continues the W3C `traceparent` of incoming HTTP requests into IPC:
+ * the request gets a server span, calls made while handling it are its
+ * children. Requires the IPCClientModule `tracing` option.
+ *
+ * Usage in app.module.ts:
+ *
+ * export class AppModule implements NestModule {
+ *   configure(consumer: MiddlewareConsumer) {
+ *     consumer.apply(IPCTraceMiddleware).forRoutes('*');
+ *   }
+ * }
+ *
+ * The response carries the span's `traceparent` header.
+ */
+
+import { Injectable, NestMiddleware } from "@nestjs/common";
+import { IPCClientService } from "./ipc-client.service";
+import { formatTraceparent, parseTraceparent } from "./ipc-tracing";
+
+@Injectable()
+export class IPCTraceMiddleware implements NestMiddleware {
+  constructor(private readonly ipc: IPCClientService) {}
+
+  use(req: any, res: any, next: (error?: any) => void): void {
+    const tracer = this.ipc.getTracer();
+
+    if (!tracer) {
+      return next();
+    }
+
+    const path = (req.originalUrl || req.url || "").split("?")[0];
+    const span = tracer.startSpan(`${req.method} ${path}`, {
+      kind: "server",
+      parent: parseTraceparent(req.headers?.traceparent) ?? null,
+      attributes: {
+        "http.method": req.method,
+        "http.target": path,
+      },
+    });
+
+    res.setHeader?.("traceparent", formatTraceparent(span));
+
+    const end = () => {
+      const status = res.statusCode;
+      span.attributes["http.status_code"] = status;
+      tracer.endSpan(
+        span,
+        status >= 500 ? new Error(`HTTP ${status}`) : undefined
+      );
+    };
+    res.once?.("finish", end);
+    res.once?.("close", end);
+
+    tracer.run(span, () => next());
+  }
+}
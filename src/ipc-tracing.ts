@@ -0,0 +1,499 @@
+/**
+ * IPC Tracing
+ *
+ * Every outgoing call() and every @IPCMethod invocation gets a span.
+ * Spans of one request share a trace id; nested calls made by a handler
+ * are children of the handler's span.
+ *
+ * Usage in a service:
+ *
+ * IPCClientModule.boot({
+ *   tracing: {
+ *     exporter: [
+ *       new IPCConsoleSpanExporter(),
+ *       new IPCOTLPFileSpanExporter('/var/log/ipc-traces.jsonl'),
+ *     ],
+ *   },
+ * })
+ *
+ * The trace travels with the call as a W3C `traceparent` in the reserved
+ * `$traceparent` param. Handlers never see it: it's removed before
+ * validation. HTTP requests continue into IPC with IPCTraceMiddleware.
+ *
+ * Spans of a handler and of the calls it makes are linked through
+ * AsyncLocalStorage, so nested calls don't need to pass anything.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import { appendFile } from "fs/promises";
+import { Logger } from "@nestjs/common";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Param carrying the caller's `traceparent`
+ */
+export const IPC_TRACE_PARAM = "$traceparent";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Identity of a span, as carried by `traceparent`
+ */
+export interface IPCSpanContext {
+  traceId: string;
+  spanId: string;
+  sampled?: boolean;
+}
+
+export type IPCSpanKind = "server" | "client" | "internal";
+
+export type IPCSpanAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * A finished or running span
+ */
+export interface IPCSpan extends IPCSpanContext {
+  parentSpanId?: string;
+  name: string;
+  kind: IPCSpanKind;
+  service: string;
+
+  /**
+   * Start / end time, ms since epoch
+   */
+  startTime: number;
+  endTime?: number;
+
+  /**
+   * Duration in ms (set when the span ends)
+   */
+  duration?: number;
+
+  status: "unset" | "ok" | "error";
+  error?: { message: string; code?: string };
+  attributes: IPCSpanAttributes;
+}
+
+/**
+ * Destination of finished spans
+ */
+export interface IPCSpanExporter {
+  export(spans: IPCSpan[]): void | Promise<void>;
+  shutdown?(): void | Promise<void>;
+}
+
+/**
+ * Tracing configuration (IPCClientModule `tracing` option)
+ */
+export interface IPCTracingConfig {
+  /**
+   * Where spans go (default: IPCConsoleSpanExporter)
+   */
+  exporter?: IPCSpanExporter | IPCSpanExporter[];
+}
+
+/**
+ * Options of IPCTracer.startSpan()
+ */
+export interface IPCStartSpanOptions {
+  kind?: IPCSpanKind;
+
+  /**
+   * Parent span (default: the active span)
+   * `null` starts a new trace
+   */
+  parent?: IPCSpanContext | null;
+
+  attributes?: IPCSpanAttributes;
+}
+
+// ============================================================================
+// TRACEPARENT
+// ============================================================================
+
+/**
+ * Parse a W3C `traceparent` header
+ *
+ * @returns Span context, or undefined if the header is missing or invalid
+ */
+export function parseTraceparent(
+  header: string | string[] | undefined
+): IPCSpanContext | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match =
+    typeof value === "string" &&
+    /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(
+      value.trim().toLowerCase()
+    );
+
+  if (
+    !match ||
+    match[1] === "ff" ||
+    /^0+$/.test(match[2]) ||
+    /^0+$/.test(match[3])
+  ) {
+    return undefined;
+  }
+
+  return {
+    traceId: match[2],
+    spanId: match[3],
+    sampled: (parseInt(match[4], 16) & 1) === 1,
+  };
+}
+
+/**
+ * Format a span context as a W3C `traceparent` header
+ */
+export function formatTraceparent(context: IPCSpanContext): string {
+  const flags = context.sampled === false ? "00" : "01";
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Add the trace of `context` to call params
+ * Only plain object params can carry it.
+ */
+export function injectTraceparent(params: any, context: IPCSpanContext): any {
+  if (!isPlainObject(params)) {
+    return params;
+  }
+
+  return { ...params, [IPC_TRACE_PARAM]: formatTraceparent(context) };
+}
+
+/**
+ * Split the caller's trace from call params
+ */
+export function extractTraceparent(params: any): {
+  params: any;
+  parent?: IPCSpanContext;
+} {
+  if (!isPlainObject(params) || !(IPC_TRACE_PARAM in params)) {
+    return { params };
+  }
+
+  const { [IPC_TRACE_PARAM]: traceparent, ...rest } = params;
+  return { params: rest, parent: parseTraceparent(traceparent) };
+}
+
+// ============================================================================
+// TRACER
+// ============================================================================
+
+const activeSpan = new AsyncLocalStorage<IPCSpan>();
+
+/**
+ * Creates spans, tracks the active one and hands finished spans to the
+ * exporters
+ *
+ * Usage:
+ * const tracer = this.ipc.getTracer();
+ *
+ * await tracer.trace('load-prices', async (span) => {
+ *   span.attributes.count = items.length;
+ *   return this.ipc.call('price-service', 'getPrices', { items });
+ * });
+ */
+export class IPCTracer {
+  private readonly logger = new Logger("IPCTracer");
+  private readonly exporters: IPCSpanExporter[];
+
+  constructor(
+    private readonly serviceName: string,
+    config: IPCTracingConfig = {}
+  ) {
+    const exporter = config.exporter ?? new IPCConsoleSpanExporter();
+    this.exporters = Array.isArray(exporter) ? exporter : [exporter];
+  }
+
+  /**
+   * Get the span of the current async context
+   */
+  getActiveSpan(): IPCSpan | undefined {
+    return activeSpan.getStore();
+  }
+
+  /**
+   * Get the `traceparent` of the active span (for outgoing HTTP calls)
+   */
+  getTraceparent(): string | undefined {
+    const span = this.getActiveSpan();
+    return span ? formatTraceparent(span) : undefined;
+  }
+
+  /**
+   * Start a span, child of `options.parent` or of the active span
+   * The span must be ended with endSpan().
+   */
+  startSpan(name: string, options: IPCStartSpanOptions = {}): IPCSpan {
+    const parent =
+      options.parent === undefined ? this.getActiveSpan() : options.parent;
+
+    return {
+      traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+      spanId: randomBytes(8).toString("hex"),
+      parentSpanId: parent?.spanId,
+      sampled: parent?.sampled ?? true,
+      name,
+      kind: options.kind ?? "internal",
+      service: this.serviceName,
+      startTime: Date.now(),
+      status: "unset",
+      attributes: { ...options.attributes },
+    };
+  }
+
+  /**
+   * End a span and export it
+   *
+   * @param span - Span to end
+   * @param error - Error the traced work failed with
+   */
+  endSpan(span: IPCSpan, error?: unknown): void {
+    if (span.endTime !== undefined) {
+      return;
+    }
+
+    span.endTime = Date.now();
+    span.duration = span.endTime - span.startTime;
+
+    if (error !== undefined) {
+      span.status = "error";
+      span.error = {
+        message: error instanceof Error ? error.message : String(error),
+        code: (error as { code?: string })?.code,
+      };
+    } else if (span.status === "unset") {
+      span.status = "ok";
+    }
+
+    if (span.sampled !== false) {
+      this.export([span]);
+    }
+  }
+
+  /**
+   * Run `fn` with `span` as the active span
+   */
+  run<T>(span: IPCSpan, fn: () => T): T {
+    return activeSpan.run(span, fn);
+  }
+
+  /**
+   * Run `fn` in a new span, ended when `fn` settles
+   */
+  async trace<T>(
+    name: string,
+    fn: (span: IPCSpan) => Promise<T> | T,
+    options: IPCStartSpanOptions = {}
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+
+    try {
+      const result = await this.run(span, () => fn(span));
+      this.endSpan(span);
+      return result;
+    } catch (error) {
+      this.endSpan(span, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Flush and close the exporters
+   */
+  async shutdown(): Promise<void> {
+    for (const exporter of this.exporters) {
+      await exporter.shutdown?.();
+    }
+  }
+
+  private export(spans: IPCSpan[]): void {
+    for (const exporter of this.exporters) {
+      try {
+        Promise.resolve(exporter.export(spans)).catch((error) =>
+          this.logger.warn(`Span export failed: ${error.message}`)
+        );
+      } catch (error) {
+        this.logger.warn(`Span export failed: ${(error as Error).message}`);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// EXPORTERS
+// ============================================================================
+
+/**
+ * Logs one line per span
+ *
+ * [IPCTrace] 4bf92f35… user-service.getUser server 12ms ok (parent: 00f067aa…)
+ */
+export class IPCConsoleSpanExporter implements IPCSpanExporter {
+  private readonly logger = new Logger("IPCTrace");
+
+  export(spans: IPCSpan[]): void {
+    for (const span of spans) {
+      const parent = span.parentSpanId ? ` (parent: ${span.parentSpanId})` : "";
+      const error = span.error ? `: ${span.error.message}` : "";
+
+      this.logger.log(
+        `${span.traceId}/${span.spanId} ${span.name} ${span.kind} ${span.duration}ms ${span.status}${error}${parent}`
+      );
+    }
+  }
+}
+
+/**
+ * Keeps spans in memory (tests, debugging)
+ *
+ * Usage:
+ * const exporter = new IPCInMemorySpanExporter();
+ * ...
+ * exporter.getTrace(traceId);
+ */
+export class IPCInMemorySpanExporter implements IPCSpanExporter {
+  private spans: IPCSpan[] = [];
+
+  /**
+   * @param maxSpans - Oldest spans are dropped past this count (default: 10000)
+   */
+  constructor(private readonly maxSpans = 10000) {}
+
+  export(spans: IPCSpan[]): void {
+    this.spans.push(...spans);
+
+    if (this.spans.length > this.maxSpans) {
+      this.spans.splice(0, this.spans.length - this.maxSpans);
+    }
+  }
+
+  /**
+   * Get every exported span, oldest first
+   */
+  getSpans(): IPCSpan[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Get the spans of one trace, ordered by start time
+   */
+  getTrace(traceId: string): IPCSpan[] {
+    return this.spans
+      .filter((span) => span.traceId === traceId)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * Appends spans to a file as OTLP/JSON, one ExportTraceServiceRequest
+ * per line (the format of the OpenTelemetry Collector file exporter)
+ */
+export class IPCOTLPFileSpanExporter implements IPCSpanExporter {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  export(spans: IPCSpan[]): Promise<void> {
+    const line = `${JSON.stringify(toOTLP(spans))}\n`;
+    const write = this.pending.then(() =>
+      appendFile(this.filePath, line, "utf8")
+    );
+
+    // Keep writes ordered even after a failure
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  async shutdown(): Promise<void> {
+    await this.pending;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  // Object.prototype of any realm (structuredClone() under jest, vm, ...)
+  const proto = Object.getPrototypeOf(value);
+  return proto !== null && Object.getPrototypeOf(proto) === null;
+}
+
+const OTLP_SPAN_KIND: Record<IPCSpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+};
+
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 };
+
+function toOTLP(spans: IPCSpan[]) {
+  const byService = new Map<string, IPCSpan[]>();
+
+  for (const span of spans) {
+    byService.set(span.service, [...(byService.get(span.service) || []), span]);
+  }
+
+  return {
+    resourceSpans: [...byService].map(([service, serviceSpans]) => ({
+      resource: {
+        attributes: toOTLPAttributes({ "service.name": service }),
+      },
+      scopeSpans: [
+        {
+          scope: { name: "nestjs-ipc" },
+          spans: serviceSpans.map((span) => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId,
+            name: span.name,
+            kind: OTLP_SPAN_KIND[span.kind],
+            startTimeUnixNano: `${span.startTime}000000`,
+            endTimeUnixNano: `${span.endTime ?? span.startTime}000000`,
+            attributes: toOTLPAttributes(span.attributes),
+            status: {
+              code: OTLP_STATUS_CODE[span.status],
+              message: span.error?.message,
+            },
+          })),
+        },
+      ],
+    })),
+  };
+}
+
+function toOTLPAttributes(attributes: IPCSpanAttributes) {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value:
+        typeof value === "boolean"
+          ? { boolValue: value }
+          : typeof value === "number"
+          ? Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value }
+          : { stringValue: String(value) },
+    }));
+}
@@ -0,0 +1,220 @@
+/**
+ * IPC Microservice Transport
+ *
+ * Nest microservice transport over ipc-bro. Standard @MessagePattern /
+ * @EventPattern handlers become methods of the service on the gateway,
+ * so existing TCP/Redis-transport services move to the gateway without
+ * rewriting handlers.
+ *
+ * Usage:
+ *
+ * // main.ts
+ * const app = await NestFactory.createMicroservice(AppModule, {
+ *   strategy: new IPCTransportStrategy({
+ *     serviceName: 'user-service',
+ *     gatewayPath: '/tmp/brodox-gateway.sock',
+ *   }),
+ * });
+ * await app.listen();
+ *
+ * // user.controller.ts
+ * @MessagePattern('get_user')
+ * getUser(@Payload() data: { userId: string }, @Ctx() ctx: IPCRpcContext) {
+ *   return this.users.find(data.userId);
+ * }
+ *
+ * Patterns are registered under their normalized name: 'get_user' stays
+ * 'get_user', { cmd: 'sum' } becomes '{"cmd":"sum"}'. Callers use
+ * IPCClientProxy, or plain ipc.call('user-service', 'get_user', ...).
+ */
+
+import {
+  BaseRpcContext,
+  CustomTransportStrategy,
+  Server,
+} from "@nestjs/microservices";
+import { IPCClient, IPCClientConfig, IPCContext } from "ipc-bro";
+import { lastValueFrom } from "rxjs";
+import { IPCError, IPCErrorCode } from "./ipc-errors";
+import { extractTraceparent } from "./ipc-tracing";
+import {
+  extractContext,
+  ipcContextStorage,
+  mergeContext,
+} from "./ipc-context.service";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for IPCTransportStrategy
+ *
+ * Either the ipc-bro client config, or an existing IPCClient that has
+ * not connected yet (methods are registered before connecting).
+ */
+export type IPCTransportOptions = IPCClientConfig | { client: IPCClient };
+
+// ============================================================================
+// RPC CONTEXT
+// ============================================================================
+
+/**
+ * Context passed to @Ctx() in @MessagePattern / @EventPattern handlers
+ */
+export class IPCRpcContext extends BaseRpcContext<[IPCContext, string]> {
+  /**
+   * IPC context of the call (root, chain, depth, deadline)
+   */
+  getContext(): IPCContext {
+    return this.args[0];
+  }
+
+  /**
+   * Normalized pattern of the call
+   */
+  getPattern(): string {
+    return this.args[1];
+  }
+}
+
+// ============================================================================
+// TRANSPORT STRATEGY
+// ============================================================================
+
+/**
+ * Nest CustomTransportStrategy backed by an IPCClient
+ */
+export class IPCTransportStrategy
+  extends Server
+  implements CustomTransportStrategy
+{
+  private readonly client: IPCClient;
+  private readonly ownsClient: boolean;
+
+  constructor(options: IPCTransportOptions) {
+    super();
+
+    if ("client" in options) {
+      this.client = options.client;
+      this.ownsClient = false;
+    } else {
+      this.client = new IPCClient(options);
+      this.ownsClient = true;
+    }
+  }
+
+  /**
+   * Register every pattern handler, then connect to the gateway
+   */
+  async listen(callback: (...optionalParams: unknown[]) => any) {
+    try {
+      for (const [pattern, handler] of this.messageHandlers) {
+        this.client.registerMethod(pattern, (rawData, received) => {
+          // Drop the trace and context params added by callers
+          const { params: traced } = extractTraceparent(rawData);
+          const { params: data, upstream } = extractContext(traced);
+          const context = mergeContext(received, upstream);
+
+          return ipcContextStorage.run(context, () =>
+            handler.isEventHandler
+              ? this.handleIPCEvent(pattern, data, context)
+              : this.handleIPCMessage(pattern, data, context)
+          );
+        });
+      }
+
+      if (this.ownsClient) {
+        await this.client.connect();
+      }
+
+      this._status$.next("connected");
+      callback();
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  async close() {
+    if (this.ownsClient) {
+      await this.client.disconnect();
+    }
+
+    this._status$.next("disconnected");
+  }
+
+  on(event: string, callback: Function) {
+    this.client.on(event, callback as (...args: any[]) => void);
+  }
+
+  unwrap<T>(): T {
+    return this.client as T;
+  }
+
+  private async handleIPCMessage(
+    pattern: string,
+    data: any,
+    context: IPCContext
+  ): Promise<any> {
+    const handler = this.getHandlerByPattern(pattern);
+
+    if (!handler) {
+      throw new IPCError(
+        IPCErrorCode.METHOD_NOT_FOUND,
+        `No message handler for pattern: ${pattern}`
+      );
+    }
+
+    const rpcContext = new IPCRpcContext([context, pattern]);
+
+    try {
+      // Observables resolve with their last value
+      return await lastValueFrom(
+        this.transformToObservable(await handler(data, rpcContext)),
+        { defaultValue: undefined }
+      );
+    } catch (error) {
+      throw toIPCError(error);
+    }
+  }
+
+  private async handleIPCEvent(
+    pattern: string,
+    data: any,
+    context: IPCContext
+  ): Promise<void> {
+    await this.handleEvent(
+      pattern,
+      { pattern, data },
+      new IPCRpcContext([context, pattern])
+    );
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Convert what Nest's RPC exception filter emits into an Error
+ *
+ * The filter emits RpcException.getError() (string or object), or
+ * { status: 'error', message } for unknown exceptions.
+ */
+function toIPCError(error: unknown): Error {
+  if (error instanceof Error) {
+    return error;
+  }
+
+  if (error && typeof error === "object") {
+    const { code, message, ...details } = error as Record<string, any>;
+
+    return new IPCError(
+      typeof code === "string" ? code : IPCErrorCode.INTERNAL_ERROR,
+      typeof message === "string" ? message : "Internal server error",
+      details
+    );
+  }
+
+  return new IPCError(IPCErrorCode.INTERNAL_ERROR, String(error));
+}
@@ -0,0 +1,459 @@
+/**
+ * IPC Parameter Validation
+ *
+ * Validates the params of an incoming call before the handler runs.
+ * The schema comes from, in order:
+ *
+ * 1. @IPCMethod({ schema }) or @IPCValidate(schema)
+ * 2. The design type of the params argument (needs emitDecoratorMetadata)
+ *
+ * @IPCMethod()
+ * async createUser(params: CreateUserDto, context: IPCContext) { ... }
+ *
+ * @IPCMethod({ schema: { type: 'object', required: ['userId'], properties: { userId: { type: 'string' } } } })
+ * async getUser(params: { userId: string }) { ... }
+ *
+ * Schemas are handled by pluggable adapters. Built in:
+ *
+ * - ClassValidatorAdapter: DTO classes (needs class-validator and class-transformer)
+ * - JsonSchemaAdapter: plain JSON-Schema objects (common subset)
+ *
+ * Failures reach the caller as IPCError VALIDATION_FAILED with
+ * `details.errors` listing every failed field.
+ */
+
+import { IPCError, IPCErrorCode } from "./ipc-errors";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One failed field
+ */
+export interface IPCFieldError {
+  /**
+   * Dotted path of the field ('' for the params object itself)
+   */
+  path: string;
+
+  /**
+   * Human readable message
+   */
+  message: string;
+
+  /**
+   * Failed rule (e.g. 'required', 'isEmail', 'minLength')
+   */
+  constraint?: string;
+}
+
+/**
+ * Result of an adapter
+ */
+export interface IPCValidationResult {
+  errors: IPCFieldError[];
+
+  /**
+   * Params to pass to the handler (e.g. a DTO instance)
+   * Defaults to the original params
+   */
+  value?: any;
+}
+
+/**
+ * Validation backend for one kind of schema
+ */
+export interface IPCValidatorAdapter {
+  /**
+   * Check if this adapter handles the schema
+   */
+  supports(schema: any): boolean;
+
+  /**
+   * Check if the design type of a params argument is a schema, when
+   * the handler has no explicit one (default: supports())
+   */
+  supportsDesignType?(type: Function): boolean;
+
+  /**
+   * Validate params against the schema
+   */
+  validate(
+    schema: any,
+    params: any
+  ): Promise<IPCValidationResult> | IPCValidationResult;
+}
+
+/**
+ * Validation configuration (IPCClientModule `validation` option)
+ */
+export interface IPCValidationConfig {
+  /**
+   * Adapters tried in order
+   * Defaults to [ClassValidatorAdapter, JsonSchemaAdapter]
+   */
+  adapters?: IPCValidatorAdapter[];
+
+  /**
+   * Validate against the design type of the params argument
+   * when no explicit schema is given (default: true)
+   */
+  useDesignType?: boolean;
+}
+
+// ============================================================================
+// CLASS-VALIDATOR ADAPTER
+// ============================================================================
+
+/**
+ * Validates DTO classes with class-validator
+ *
+ * class-validator and class-transformer are optional peer dependencies,
+ * they're loaded on first use. The handler receives the DTO instance.
+ *
+ * Design types are only validated when the class has class-validator
+ * decorators, and `forbidUnknownValues` defaults to false, so plain
+ * classes used as types don't fail every call.
+ */
+export class ClassValidatorAdapter implements IPCValidatorAdapter {
+  private available?: boolean;
+  private validator?: any;
+  private transformer?: any;
+
+  constructor(private readonly validatorOptions: Record<string, any> = {}) {}
+
+  supports(schema: any): boolean {
+    return typeof schema === "function" && this.isAvailable();
+  }
+
+  supportsDesignType(type: Function): boolean {
+    return (
+      this.supports(type) &&
+      this.validator
+        .getMetadataStorage()
+        .getTargetValidationMetadatas(type, "", true, false).length > 0
+    );
+  }
+
+  async validate(schema: any, params: any): Promise<IPCValidationResult> {
+    const value = this.transformer.plainToInstance(schema, params ?? {});
+    const errors = await this.validator.validate(value, {
+      forbidUnknownValues: false,
+      ...this.validatorOptions,
+    });
+
+    return { errors: flattenClassValidatorErrors(errors), value };
+  }
+
+  private isAvailable(): boolean {
+    if (this.available === undefined) {
+      try {
+        this.validator = require("class-validator");
+        this.transformer = require("class-transformer");
+        this.available = true;
+      } catch {
+        this.available = false;
+      }
+    }
+
+    return this.available;
+  }
+}
+
+function flattenClassValidatorErrors(
+  errors: any[],
+  parentPath = ""
+): IPCFieldError[] {
+  const result: IPCFieldError[] = [];
+
+  for (const error of errors) {
+    const path = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+
+    for (const [constraint, message] of Object.entries(
+      error.constraints || {}
+    )) {
+      result.push({ path, message: String(message), constraint });
+    }
+
+    if (error.children && error.children.length > 0) {
+      result.push(...flattenClassValidatorErrors(error.children, path));
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// JSON-SCHEMA ADAPTER
+// ============================================================================
+
+/**
+ * Validates plain JSON-Schema objects
+ *
+ * Supports the common subset: type, required, properties,
+ * additionalProperties (false), items, enum, const, minLength,
+ * maxLength, pattern, minimum, maximum, minItems, maxItems.
+ *
+ * For full JSON-Schema support, plug an Ajv-based adapter instead.
+ */
+export class JsonSchemaAdapter implements IPCValidatorAdapter {
+  supports(schema: any): boolean {
+    return (
+      !!schema &&
+      typeof schema === "object" &&
+      ("type" in schema || "properties" in schema)
+    );
+  }
+
+  validate(schema: any, params: any): IPCValidationResult {
+    const errors: IPCFieldError[] = [];
+    validateJsonSchema(schema, params, "", errors);
+    return { errors };
+  }
+}
+
+function validateJsonSchema(
+  schema: any,
+  value: any,
+  path: string,
+  errors: IPCFieldError[]
+): void {
+  const fail = (constraint: string, message: string) =>
+    errors.push({ path, message, constraint });
+
+  if (schema.type && !matchesJsonType(schema.type, value)) {
+    fail("type", `${path || "params"} must be of type ${schema.type}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail("enum", `${path} must be one of: ${schema.enum.join(", ")}`);
+  }
+
+  if ("const" in schema && value !== schema.const) {
+    fail("const", `${path} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail("minLength", `${path} must be at least ${schema.minLength} chars`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail("maxLength", `${path} must be at most ${schema.maxLength} chars`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail("pattern", `${path} must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail("minimum", `${path} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail("maximum", `${path} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail("minItems", `${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail("maxItems", `${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) =>
+        validateJsonSchema(schema.items, item, `${path}[${index}]`, errors)
+      );
+    }
+  }
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({
+          path: joinPath(path, key),
+          message: `${joinPath(path, key)} is required`,
+          constraint: "required",
+        });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (value[key] !== undefined) {
+        validateJsonSchema(
+          propertySchema,
+          value[key],
+          joinPath(path, key),
+          errors
+        );
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(value)) {
+        if (!(key in properties)) {
+          errors.push({
+            path: joinPath(path, key),
+            message: `${joinPath(path, key)} is not allowed`,
+            constraint: "additionalProperties",
+          });
+        }
+      }
+    }
+  }
+}
+
+function matchesJsonType(type: string | string[], value: any): boolean {
+  const types = Array.isArray(type) ? type : [type];
+
+  return types.some((t) => {
+    switch (t) {
+      case "null":
+        return value === null;
+      case "array":
+        return Array.isArray(value);
+      case "object":
+        return (
+          value !== null && typeof value === "object" && !Array.isArray(value)
+        );
+      case "integer":
+        return Number.isInteger(value);
+      default:
+        return typeof value === t;
+    }
+  });
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+// ============================================================================
+// VALIDATOR
+// ============================================================================
+
+/**
+ * Types that never describe a params object
+ */
+const NON_SCHEMA_TYPES: Function[] = [
+  Object,
+  String,
+  Number,
+  Boolean,
+  Array,
+  Function,
+  Promise,
+];
+
+/**
+ * Runs the configured adapters for incoming calls
+ */
+export class IPCValidator {
+  private readonly adapters: IPCValidatorAdapter[];
+  private readonly useDesignType: boolean;
+
+  constructor(config: IPCValidationConfig = {}) {
+    this.adapters = config.adapters || [
+      new ClassValidatorAdapter(),
+      new JsonSchemaAdapter(),
+    ];
+    this.useDesignType = config.useDesignType !== false;
+  }
+
+  /**
+   * Pick the schema of a handler
+   *
+   * Called when the handler is registered, so an explicit schema no
+   * adapter supports fails there rather than on the first call.
+   *
+   * @param method - IPC method name (for the error message)
+   * @param explicitSchema - Schema from @IPCMethod / @IPCValidate
+   * @param designType - Design type of the params argument
+   * @returns Schema, or undefined if the handler isn't validated
+   */
+  resolveSchema(
+    method: string,
+    explicitSchema: any,
+    designType?: Function
+  ): any {
+    if (explicitSchema !== undefined) {
+      this.getAdapter(method, explicitSchema);
+      return explicitSchema;
+    }
+
+    if (
+      this.useDesignType &&
+      typeof designType === "function" &&
+      !NON_SCHEMA_TYPES.includes(designType) &&
+      this.adapters.some((adapter) =>
+        adapter.supportsDesignType
+          ? adapter.supportsDesignType(designType)
+          : adapter.supports(designType)
+      )
+    ) {
+      return designType;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Validate params, throwing VALIDATION_FAILED on failure
+   *
+   * @param method - IPC method name (for the error message)
+   * @param schema - Schema returned by resolveSchema()
+   * @param params - Params sent by the caller
+   * @returns Params to pass to the handler
+   */
+  async validate(method: string, schema: any, params: any): Promise<any> {
+    const result = await this.getAdapter(method, schema).validate(
+      schema,
+      params
+    );
+
+    if (result.errors.length > 0) {
+      throw createValidationError(method, result.errors);
+    }
+
+    return result.value !== undefined ? result.value : params;
+  }
+
+  private getAdapter(method: string, schema: any): IPCValidatorAdapter {
+    const adapter = this.adapters.find((a) => a.supports(schema));
+
+    if (!adapter) {
+      throw new Error(
+        `No validator adapter supports the schema of method: ${method}`
+      );
+    }
+
+    return adapter;
+  }
+}
+
+/**
+ * Build the VALIDATION_FAILED error sent to the caller
+ */
+export function createValidationError(
+  method: string,
+  errors: IPCFieldError[]
+): IPCError {
+  const fields = errors.map((e) => e.path).filter(Boolean);
+
+  return new IPCError(
+    IPCErrorCode.VALIDATION_FAILED,
+    fields.length > 0
+      ? `Validation failed for method: ${method} (${[...new Set(fields)].join(
+          ", "
+        )})`
+      : `Validation failed for method: ${method}`,
+    { method, errors }
+  );
+}
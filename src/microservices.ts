@@ -0,0 +1,3 @@
+// Entry point: "nestjs-ipc/microservices" (needs @nestjs/microservices)
+export * from "./ipc-transport.strategy";
+export * from "./ipc-client.proxy";
@@ -0,0 +1,82 @@
+import "reflect-metadata";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCClient } from "./ipc-bro.fake";
+import { IPCClientModule } from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCErrorCode } from "../src/ipc-errors";
+import { IPCMethod } from "../src/ipc-method.decorator";
+
+@Injectable()
+class BillingController {
+  @IPCMethod()
+  async refund() {
+    return true;
+  }
+}
+
+describe("access control on the service side", () => {
+  let moduleRef: TestingModule;
+  let ipc: IPCClient;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        IPCClientModule.register({
+          serviceName: "billing-service",
+          gatewayPath: "/tmp/test-gateway.sock",
+        }),
+      ],
+      providers: [BillingController],
+    }).compile();
+    await moduleRef.init();
+    ipc = moduleRef.get(IPCClientService).getClient() as unknown as IPCClient;
+  });
+
+  afterEach(() => moduleRef.close());
+
+  it("caches the decision but reports every denial", async () => {
+    const authorize = jest.fn(async () => ({ allowed: false }));
+    const callDenied = jest.fn(async () => true);
+    ipc.mockService("$gateway", { authorize, callDenied });
+
+    for (let i = 0; i < 2; i++) {
+      await expect(ipc.invoke("refund", {}, "web")).rejects.toMatchObject({
+        code: IPCErrorCode.FORBIDDEN,
+      });
+    }
+
+    expect(authorize).toHaveBeenCalledTimes(1);
+    expect(callDenied.mock.calls).toEqual([
+      [{ from: "web", to: "billing-service", method: "refund" }],
+      [{ from: "web", to: "billing-service", method: "refund" }],
+    ]);
+  });
+
+  it("passes the gateway's reason along", async () => {
+    const callDenied = jest.fn(async () => true);
+    ipc.mockService("$gateway", {
+      authorize: () => ({ allowed: false, reason: "unauthenticated" }),
+      callDenied,
+    });
+
+    await expect(ipc.invoke("refund", {}, "web")).rejects.toMatchObject({
+      code: IPCErrorCode.FORBIDDEN,
+    });
+
+    expect(callDenied).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "unauthenticated" })
+    );
+  });
+
+  it("doesn't report allowed calls", async () => {
+    const callDenied = jest.fn(async () => true);
+    ipc.mockService("$gateway", {
+      authorize: () => ({ allowed: true }),
+      callDenied,
+    });
+
+    await expect(ipc.invoke("refund", {}, "web")).resolves.toBe(true);
+    expect(callDenied).not.toHaveBeenCalled();
+  });
+});
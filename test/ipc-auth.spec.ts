@@ -0,0 +1,51 @@
+import { IPCErrorCode } from "../src/ipc-errors";
+import { IPCAuthenticator, signChallenge } from "../src/ipc-auth";
+
+describe("IPCAuthenticator", () => {
+  const secrets = { "user-service": "s3cret" };
+
+  function answer(nonce: string) {
+    return { nonce, signature: signChallenge("s3cret", "user-service", nonce) };
+  }
+
+  it("keeps a challenge per connection", () => {
+    const authenticator = new IPCAuthenticator({ secrets });
+    const first = authenticator.createChallenge("user-service", 1);
+    authenticator.createChallenge("user-service", 2);
+
+    authenticator.verify("user-service", 1, [], answer(first.nonce));
+
+    expect(authenticator.isAuthenticated("user-service", 1)).toBe(true);
+  });
+
+  it("refuses a challenge answered from another connection", () => {
+    const authenticator = new IPCAuthenticator({ secrets });
+    const { nonce } = authenticator.createChallenge("user-service", 1);
+
+    expect(() =>
+      authenticator.verify("user-service", 2, [], answer(nonce))
+    ).toThrow(
+      expect.objectContaining({
+        code: IPCErrorCode.FORBIDDEN,
+        details: {
+          service: "user-service",
+          reason: "unknown or expired challenge",
+        },
+      })
+    );
+  });
+
+  it("only forgets the connection that left", () => {
+    const authenticator = new IPCAuthenticator({ secrets });
+    const { nonce } = authenticator.createChallenge("user-service", 1);
+    authenticator.verify("user-service", 1, [], answer(nonce));
+
+    authenticator.forget("user-service", 2);
+
+    expect(authenticator.isAuthenticated("user-service", 1)).toBe(true);
+
+    authenticator.forget("user-service", 1);
+
+    expect(authenticator.isAuthenticated("user-service", 1)).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Types of the ipc-bro API used by nestjs-ipc
+ *
+ * Lets the specs (tsconfig.spec.json) type-check without the ipc-bro
+ * package installed. At runtime, jest maps ipc-bro to ./ipc-bro.fake
+ * (moduleNameMapper in package.json).
+ */
+
+declare module "ipc-bro" {
+  import { EventEmitter } from "events";
+
+  export interface IPCContext {
+    root: string;
+    chain: string[];
+    depth: number;
+    deadline: number;
+  }
+
+  export interface IPCClientConfig {
+    serviceName: string;
+    gatewayPath: string;
+    autoReconnect?: boolean;
+    reconnectDelay?: number;
+    timeout?: number;
+    heartbeatInterval?: number;
+    debug?: boolean;
+    serializer?: "json" | "msgpack";
+    poolSize?: number;
+  }
+
+  export interface IPCServerConfig {
+    socketPath: string;
+    debug?: boolean;
+    heartbeatInterval?: number;
+    timeout?: number;
+  }
+
+  export class IPCClient extends EventEmitter {
+    constructor(config: IPCClientConfig);
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    call<T = any>(service: string, method: string, params?: any): Promise<T>;
+    registerMethod(
+      name: string,
+      handler: (params: any, context: IPCContext) => Promise<any>
+    ): void;
+    getStatus(): {
+      connected: boolean;
+      registered: boolean;
+      serviceName: string;
+      pendingRequests: number;
+      registeredMethods: number;
+    };
+    isConnected(): boolean;
+  }
+
+  export interface ServiceInfo {
+    name: string;
+    methods: string[];
+    connectedAt: number;
+    lastHeartbeat: number;
+  }
+
+  export class IPCServer extends EventEmitter {
+    constructor(config: Partial<IPCServerConfig>);
+    start(): Promise<void>;
+    stop(): Promise<void>;
+    getConnectedServices(): string[];
+    getService(name: string): ServiceInfo;
+    isServiceConnected(name: string): boolean;
+    getStatus(): {
+      running: boolean;
+      connectedServices: number;
+      services: string[];
+    };
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * In-memory stand-ins for ipc-bro's IPCClient and IPCServer
+ *
+ * Jest maps ipc-bro to this module in every spec (moduleNameMapper in
+ * package.json), ipc-bro.d.ts holds the types of the real package.
+ *
+ * The fake client records outgoing calls, answers them from the
+ * services given to mockService() (other services are not found) and
+ * runs its registered handlers on invoke(). The fake server keeps a
+ * registry of services changed with register() / unregister().
+ */
+
+import { EventEmitter } from "events";
+
+type Handler = (params: any, context: any) => Promise<any>;
+
+type MockHandlers = Record<string, (params: any) => any>;
+
+export class IPCClient extends EventEmitter {
+  readonly handlers = new Map<string, Handler>();
+  private readonly mocks = new Map<string, MockHandlers>();
+  readonly call = jest.fn(
+    async (service: string, method: string, params?: any): Promise<any> => {
+      const handlers = this.mocks.get(service);
+
+      if (!handlers) {
+        throw Object.assign(new Error(`Service not found: ${service}`), {
+          code: "SERVICE_NOT_FOUND",
+        });
+      }
+
+      return handlers[method] ? handlers[method](params) : true;
+    }
+  );
+  private connected = false;
+
+  constructor(readonly config: { serviceName: string; [key: string]: any }) {
+    super();
+  }
+
+  /**
+   * Answer calls to `service` with `handlers` (other methods resolve
+   * to true)
+   */
+  mockService(service: string, handlers: MockHandlers): void {
+    this.mocks.set(service, { ...this.mocks.get(service), ...handlers });
+  }
+
+  registerMethod(name: string, handler: Handler): void {
+    this.handlers.set(name, handler);
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getStatus() {
+    return {
+      connected: this.connected,
+      registered: this.connected,
+      serviceName: this.config.serviceName,
+      pendingRequests: 0,
+      registeredMethods: this.handlers.size,
+    };
+  }
+
+  /**
+   * Run a registered handler as a call from `caller`
+   *
+   * @param context - Overrides of the call context (a deadline...)
+   */
+  invoke(
+    method: string,
+    params: any,
+    caller: string,
+    context: Record<string, any> = {}
+  ): Promise<any> {
+    const handler = this.handlers.get(method);
+
+    if (!handler) {
+      throw new Error(`No handler registered for ${method}`);
+    }
+
+    return handler(params, {
+      root: caller,
+      chain: [caller],
+      depth: 1,
+      deadline: 0,
+      ...context,
+    });
+  }
+}
+
+export interface ServiceInfo {
+  name: string;
+  methods: string[];
+  connectedAt: number;
+  lastHeartbeat: number;
+}
+
+let connections = 0;
+
+export class IPCServer extends EventEmitter {
+  readonly services = new Map<string, ServiceInfo>();
+  // Older connections under a name, back once the newer one leaves
+  private readonly previous = new Map<string, ServiceInfo[]>();
+  running = false;
+
+  constructor(readonly config: Record<string, any> = {}) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    this.running = true;
+    this.emit("started", { socketPath: this.config.socketPath });
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.emit("stopped");
+  }
+
+  getConnectedServices(): string[] {
+    return [...this.services.keys()];
+  }
+
+  getService(name: string): ServiceInfo {
+    return this.services.get(name)!;
+  }
+
+  isServiceConnected(name: string): boolean {
+    return this.services.has(name);
+  }
+
+  getStatus() {
+    return {
+      running: this.running,
+      connectedServices: this.services.size,
+      services: this.getConnectedServices(),
+    };
+  }
+
+  /**
+   * Register a service connection
+   *
+   * A second connection under the same name is the one getService()
+   * reports, until it leaves.
+   */
+  register(name: string, methods: string[] = []): ServiceInfo {
+    const info: ServiceInfo = {
+      name,
+      methods,
+      // Unique per connection, like two registrations in the same ms
+      connectedAt: Date.now() * 1000 + ++connections,
+      lastHeartbeat: Date.now(),
+    };
+
+    const current = this.services.get(name);
+    if (current) {
+      this.previous.set(name, [...(this.previous.get(name) || []), current]);
+    }
+
+    this.services.set(name, info);
+    this.emit("service-registered", { serviceName: name, methods });
+    return info;
+  }
+
+  /**
+   * Drop a service connection (default: the newest under the name)
+   */
+  unregister(name: string, connectedAt?: number): void {
+    const current = this.services.get(name);
+    const previous = this.previous.get(name) || [];
+
+    if (!current) {
+      return;
+    }
+
+    if (connectedAt === undefined || connectedAt === current.connectedAt) {
+      const restored = previous.pop();
+      if (restored) {
+        this.services.set(name, restored);
+      } else {
+        this.services.delete(name);
+      }
+    } else {
+      this.previous.set(
+        name,
+        previous.filter((info) => info.connectedAt !== connectedAt)
+      );
+    }
+
+    if (this.previous.get(name)?.length === 0) {
+      this.previous.delete(name);
+    }
+
+    this.emit("service-disconnected", { serviceName: name });
+  }
+}
@@ -0,0 +1,152 @@
+import "reflect-metadata";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCClient } from "./ipc-bro.fake";
+import { IPCCache, buildCacheKey } from "../src/ipc-cache";
+import { IPCClientModule } from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCCacheable, IPCMethod } from "../src/ipc-method.decorator";
+
+describe("IPCCache", () => {
+  it("computes on a miss and answers hits from the store", async () => {
+    const cache = new IPCCache();
+    const compute = jest.fn(async () => ({ id: "1" }));
+
+    await cache.wrap("client", "user-service.getUser:1", undefined, compute);
+    const value = await cache.wrap(
+      "client",
+      "user-service.getUser:1",
+      undefined,
+      compute
+    );
+
+    expect(value).toEqual({ id: "1" });
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(cache.getStats().client).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it("never caches undefined results", async () => {
+    const cache = new IPCCache();
+    const compute = jest.fn(async () => undefined);
+
+    await cache.wrap("server", "key", undefined, compute);
+    await cache.wrap("server", "key", undefined, compute);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it("expires entries after their TTL", async () => {
+    const cache = new IPCCache();
+    const compute = jest.fn(async () => "value");
+
+    await cache.wrap("client", "key", 10, compute);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await cache.wrap("client", "key", 10, compute);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it("clears entries by prefix and wildcard", async () => {
+    const cache = new IPCCache();
+    const keys = [
+      buildCacheKey("user-service", "getUser", { id: 1 }),
+      buildCacheKey("user-service", "getUsers", {}),
+      buildCacheKey("user-service", "listRoles", {}),
+      buildCacheKey("order-service", "getOrder", { id: 1 }),
+    ];
+    for (const key of keys) {
+      await cache.wrap("client", key, undefined, async () => key);
+    }
+
+    expect(await cache.clear("user-service.getUser*")).toBe(2);
+    expect(await cache.clear("user-service")).toBe(1);
+    expect(await cache.clear("order-service")).toBe(1);
+  });
+
+  it("matches exact method names without a wildcard", async () => {
+    const cache = new IPCCache();
+    const keys = [
+      buildCacheKey("user-service", "get", { id: 1 }),
+      buildCacheKey("user-service", "getAll", {}),
+      buildCacheKey("user-service-v2", "get", { id: 1 }),
+    ];
+    for (const key of keys) {
+      await cache.wrap("client", key, undefined, async () => key);
+    }
+
+    expect(await cache.clear("user-service.get")).toBe(1);
+    expect(await cache.clear("user-service")).toBe(1);
+  });
+
+  it("keeps caller and handler entries apart", async () => {
+    const cache = new IPCCache();
+    const key = buildCacheKey("user-service", "getUser", { id: 1 });
+
+    await cache.wrap("client", key, undefined, async () => "client");
+    const value = await cache.wrap("server", key, undefined, async () => {
+      return "server";
+    });
+
+    expect(value).toBe("server");
+    expect(await cache.clear("user-service.getUser")).toBe(2);
+  });
+
+  it("builds the same key whatever the params key order", () => {
+    expect(buildCacheKey("s", "m", { a: 1, b: { c: 2, d: 3 } })).toBe(
+      buildCacheKey("s", "m", { b: { d: 3, c: 2 }, a: 1 })
+    );
+  });
+});
+
+describe("@IPCCacheable", () => {
+  @Injectable()
+  class UserController {
+    lookups = 0;
+
+    @IPCMethod()
+    @IPCCacheable({ ttl: 60000, key: (params) => params.userId })
+    async getUserById(params: { userId: string; fields?: string[] }) {
+      this.lookups++;
+      return { id: params.userId };
+    }
+  }
+
+  let moduleRef: TestingModule;
+  let ipc: IPCClient;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        IPCClientModule.register({
+          serviceName: "user-service",
+          gatewayPath: "/tmp/test-gateway.sock",
+        }),
+      ],
+      providers: [UserController],
+    }).compile();
+    await moduleRef.init();
+    ipc = moduleRef.get(IPCClientService).getClient() as unknown as IPCClient;
+  });
+
+  afterEach(() => moduleRef.close());
+
+  it("answers repeated calls without running the handler", async () => {
+    const controller = moduleRef.get(UserController);
+
+    await ipc.invoke("getUserById", { userId: "1" }, "web");
+    await ipc.invoke("getUserById", { userId: "1", fields: ["name"] }, "web");
+    await ipc.invoke("getUserById", { userId: "2" }, "web");
+
+    expect(controller.lookups).toBe(2);
+  });
+
+  it("runs the handler again once the entry is cleared", async () => {
+    const controller = moduleRef.get(UserController);
+
+    await ipc.invoke("getUserById", { userId: "1" }, "web");
+    await moduleRef.get(IPCClientService).clearCache("user-service.getUser*");
+    await ipc.invoke("getUserById", { userId: "1" }, "web");
+
+    expect(controller.lookups).toBe(2);
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  IPCCircuitBreakerConfig,
+  IPCCircuitBreakerRegistry,
+  IPCCircuitStateChange,
+} from "../src/ipc-circuit-breaker";
+import { IPCError, IPCErrorCode } from "../src/ipc-errors";
+
+const config: IPCCircuitBreakerConfig = {
+  windowSize: 4,
+  minimumCalls: 2,
+  failureRateThreshold: 50,
+  openDuration: 1000,
+  halfOpenCalls: 2,
+};
+
+function timeout(): Promise<never> {
+  return Promise.reject(new IPCError(IPCErrorCode.TIMEOUT, "Timed out"));
+}
+
+describe("IPCCircuitBreakerRegistry", () => {
+  let changes: IPCCircuitStateChange[];
+  let breakers: IPCCircuitBreakerRegistry;
+
+  const call = (
+    run: () => Promise<any>,
+    override?: boolean | IPCCircuitBreakerConfig
+  ) => breakers.execute("user-service", "getUser", override, run);
+  const states = () => changes.map((change) => change.state);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    changes = [];
+    breakers = new IPCCircuitBreakerRegistry(config, (change) =>
+      changes.push(change)
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  async function open(): Promise<void> {
+    await expect(call(timeout)).rejects.toThrow("Timed out");
+    await expect(call(timeout)).rejects.toThrow("Timed out");
+  }
+
+  it("opens on the failure rate and fails fast while open", async () => {
+    const run = jest.fn(async () => "ok");
+    await open();
+
+    await expect(call(run)).rejects.toMatchObject({
+      code: IPCErrorCode.CIRCUIT_OPEN,
+      details: { key: "user-service", state: "open", retryAfter: 1000 },
+    });
+    expect(run).not.toHaveBeenCalled();
+    expect(changes).toEqual([
+      expect.objectContaining({
+        key: "user-service",
+        service: "user-service",
+        from: "closed",
+        state: "open",
+        failureRate: 100,
+      }),
+    ]);
+  });
+
+  it("doesn't count handler errors as failures", async () => {
+    const invalid = () =>
+      Promise.reject(new IPCError(IPCErrorCode.VALIDATION_FAILED, "Invalid"));
+
+    await expect(call(invalid)).rejects.toThrow("Invalid");
+    await expect(call(invalid)).rejects.toThrow("Invalid");
+
+    expect(breakers.getSnapshots()["user-service"]).toMatchObject({
+      state: "closed",
+      failureRate: 0,
+    });
+  });
+
+  it("closes once every half-open probe succeeded", async () => {
+    await open();
+    jest.advanceTimersByTime(1000);
+
+    await expect(call(async () => "ok")).resolves.toBe("ok");
+    await expect(call(async () => "ok")).resolves.toBe("ok");
+
+    expect(states()).toEqual(["open", "half-open", "closed"]);
+  });
+
+  it("opens again on a failed probe", async () => {
+    await open();
+    jest.advanceTimersByTime(1000);
+
+    await expect(call(timeout)).rejects.toThrow("Timed out");
+
+    expect(states()).toEqual(["open", "half-open", "open"]);
+    await expect(call(async () => "ok")).rejects.toMatchObject({
+      code: IPCErrorCode.CIRCUIT_OPEN,
+    });
+  });
+
+  it("lets only `halfOpenCalls` probes through", async () => {
+    await open();
+    jest.advanceTimersByTime(1000);
+    const pending = () => new Promise(() => undefined);
+
+    void call(pending);
+    void call(pending);
+
+    await expect(call(async () => "ok")).rejects.toMatchObject({
+      code: IPCErrorCode.CIRCUIT_OPEN,
+      details: { state: "half-open" },
+    });
+  });
+
+  it("ignores late results of calls admitted before the circuit opened", async () => {
+    let answer!: () => void;
+    const late = call(() => new Promise<void>((resolve) => (answer = resolve)));
+    await open();
+    jest.advanceTimersByTime(1000);
+
+    // The late success is not one of the two probes
+    await call(async () => "ok");
+    answer();
+    await late;
+
+    expect(states()).toEqual(["open", "half-open"]);
+
+    await call(async () => "ok");
+
+    expect(states()).toEqual(["open", "half-open", "closed"]);
+  });
+
+  it("applies overrides to their call only", async () => {
+    await expect(call(timeout, { minimumCalls: 10 })).rejects.toThrow(
+      "Timed out"
+    );
+    expect(states()).toEqual([]);
+
+    // Back to the module's minimumCalls (2)
+    await expect(call(timeout)).rejects.toThrow("Timed out");
+
+    expect(states()).toEqual(["open"]);
+  });
+
+  it("keys method-scoped breakers by service and method", async () => {
+    const override = { scope: "method" as const };
+    await expect(call(timeout, override)).rejects.toThrow("Timed out");
+    await expect(call(timeout, override)).rejects.toThrow("Timed out");
+
+    expect(Object.keys(breakers.getSnapshots())).toEqual([
+      "user-service.getUser",
+    ]);
+    expect(changes[0]).toMatchObject({
+      key: "user-service.getUser",
+      method: "getUser",
+    });
+    await expect(call(async () => "ok")).resolves.toBe("ok");
+  });
+
+  it("is bypassed with `circuitBreaker: false`", async () => {
+    await open();
+
+    await expect(call(async () => "ok", false)).resolves.toBe("ok");
+  });
+
+  it("starts closed again once reset", async () => {
+    await open();
+
+    breakers.reset("user-service");
+
+    await expect(call(async () => "ok")).resolves.toBe("ok");
+  });
+});
@@ -0,0 +1,108 @@
+import "reflect-metadata";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCClient } from "./ipc-bro.fake";
+import {
+  getIPCClientServiceToken,
+  getIPCClientToken,
+  IPCClientModule,
+  InjectIPCClient,
+} from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCMethod } from "../src/ipc-method.decorator";
+
+@Injectable()
+class EdgeController {
+  @IPCMethod()
+  async getStatus() {
+    return "internal";
+  }
+
+  @IPCMethod({ client: "partner", name: "getStatus" })
+  async getPartnerStatus() {
+    return "partner";
+  }
+}
+
+@Injectable()
+class PartnerBridge {
+  constructor(
+    readonly internal: IPCClientService,
+    @InjectIPCClient("partner") readonly partner: IPCClientService
+  ) {}
+}
+
+describe("IPCClientModule", () => {
+  describe("named clients", () => {
+    let moduleRef: TestingModule;
+
+    beforeEach(async () => {
+      moduleRef = await Test.createTestingModule({
+        imports: [
+          IPCClientModule.register({
+            serviceName: "edge-service",
+            gatewayPath: "/tmp/internal.sock",
+            accessControl: false,
+          }),
+          IPCClientModule.registerAsync({
+            name: "partner",
+            useFactory: async () => ({
+              serviceName: "edge",
+              gatewayPath: "/tmp/partner.sock",
+              accessControl: false,
+            }),
+          }),
+        ],
+        providers: [EdgeController, PartnerBridge],
+      }).compile();
+      await moduleRef.init();
+    });
+
+    afterEach(() => moduleRef.close());
+
+    const clientOf = (name?: string) =>
+      moduleRef.get<IPCClient>(getIPCClientToken(name));
+
+    it("gives each client its own connection and service", () => {
+      const bridge = moduleRef.get(PartnerBridge);
+      const internal = clientOf();
+      const partner = clientOf("partner");
+
+      expect(internal.config.serviceName).toBe("edge-service");
+      expect(partner.config.serviceName).toBe("edge");
+      expect(bridge.partner).not.toBe(bridge.internal);
+      expect(bridge.partner).toBe(
+        moduleRef.get(getIPCClientServiceToken("partner"))
+      );
+      expect(bridge.partner.getStatus().serviceName).toBe("edge");
+    });
+
+    it("exposes each handler on the client named in @IPCMethod", async () => {
+      const internal = clientOf();
+      const partner = clientOf("partner");
+
+      await expect(internal.invoke("getStatus", {}, "web")).resolves.toBe(
+        "internal"
+      );
+      await expect(partner.invoke("getStatus", {}, "acme")).resolves.toBe(
+        "partner"
+      );
+    });
+
+    it("connects and disconnects every client", async () => {
+      const clients = [clientOf(), clientOf("partner")];
+
+      expect(clients.map((client) => client.isConnected())).toEqual([
+        true,
+        true,
+      ]);
+
+      await moduleRef.close();
+
+      expect(clients.map((client) => client.isConnected())).toEqual([
+        false,
+        false,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,372 @@
+import "reflect-metadata";
+import { Inject, Injectable, Module, Scope } from "@nestjs/common";
+import { REQUEST } from "@nestjs/core";
+import { ExternalContextCreator } from "@nestjs/core/helpers/external-context-creator";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCClient } from "./ipc-bro.fake";
+import { IPCClientModule } from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCClientModuleConfig } from "../src/ipc-client.options";
+import { IPCError, IPCErrorCode } from "../src/ipc-errors";
+import { IPCRequest } from "../src/ipc-execution-context";
+import { IPC_ROUTES_CHANGED_METHOD } from "../src/ipc-gateway.control";
+import { IPCMethod } from "../src/ipc-method.decorator";
+import { IPCTestingClient, IPCTestingModule } from "../src/ipc-testing.module";
+
+async function createClient(providers: any[] = []) {
+  const moduleRef: TestingModule = await Test.createTestingModule({
+    imports: [
+      IPCClientModule.register({
+        serviceName: "order-service",
+        gatewayPath: "/tmp/test-gateway.sock",
+      }),
+    ],
+    providers,
+  }).compile();
+  await moduleRef.init();
+
+  const service = moduleRef.get(IPCClientService);
+
+  return {
+    moduleRef,
+    service,
+    client: service.getClient() as unknown as IPCClient,
+  };
+}
+
+function getCalls(client: IPCClient, service: string, method: string) {
+  return client.call.mock.calls.filter(
+    ([target, name]) => target === service && name === method
+  );
+}
+
+describe("IPCClientService", () => {
+  let moduleRef: TestingModule;
+  let service: IPCClientService;
+  let client: IPCClient;
+
+  beforeEach(async () => {
+    ({ moduleRef, service, client } = await createClient());
+  });
+
+  afterEach(() => moduleRef.close());
+
+  describe("call helpers", () => {
+    beforeEach(() => {
+      client.mockService("user-service", {
+        getUserById: ({ userId }) => ({ id: userId }),
+        fail: () => {
+          throw new IPCError(IPCErrorCode.INVALID_PARAMS, "No");
+        },
+      });
+    });
+
+    it("callAll() resolves every result in order", async () => {
+      const results = await service.callAll([
+        {
+          service: "user-service",
+          method: "getUserById",
+          params: { userId: "1" },
+        },
+        {
+          service: "user-service",
+          method: "getUserById",
+          params: { userId: "2" },
+        },
+      ]);
+
+      expect(results).toEqual([{ id: "1" }, { id: "2" }]);
+    });
+
+    it("callAll() rejects when any call fails", async () => {
+      await expect(
+        service.callAll([
+          {
+            service: "user-service",
+            method: "getUserById",
+            params: { userId: "1" },
+          },
+          { service: "user-service", method: "fail" },
+        ])
+      ).rejects.toMatchObject({ code: IPCErrorCode.INVALID_PARAMS });
+    });
+
+    it("callAllSettled() never rejects", async () => {
+      const results = await service.callAllSettled([
+        {
+          service: "user-service",
+          method: "getUserById",
+          params: { userId: "1" },
+        },
+        { service: "user-service", method: "fail" },
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+    });
+
+    it("callWithRetry() retries transient errors", async () => {
+      let attempts = 0;
+      client.mockService("flaky-service", {
+        getData: () => {
+          if (++attempts < 3) {
+            throw new IPCError(IPCErrorCode.CONNECTION_LOST, "Lost");
+          }
+          return "ok";
+        },
+      });
+
+      await expect(
+        service.callWithRetry("flaky-service", "getData", {}, { retryDelay: 1 })
+      ).resolves.toBe("ok");
+      expect(attempts).toBe(3);
+    });
+
+    it("callWithRetry() does not retry handler errors", async () => {
+      await expect(
+        service.callWithRetry("user-service", "fail", {}, { retryDelay: 1 })
+      ).rejects.toMatchObject({ code: IPCErrorCode.INVALID_PARAMS });
+      expect(getCalls(client, "user-service", "fail")).toHaveLength(1);
+    });
+
+    it("callWithTimeout() rejects with TIMEOUT", async () => {
+      client.mockService("slow-service", {
+        heavyOperation: () => new Promise(() => undefined),
+      });
+
+      await expect(
+        service.callWithTimeout("slow-service", "heavyOperation", {}, 20)
+      ).rejects.toMatchObject({ code: IPCErrorCode.TIMEOUT });
+    });
+  });
+
+  describe("routes", () => {
+    beforeEach(() => {
+      client.mockService("payment-service", { charge: () => true });
+    });
+
+    it("doesn't send calls to services blocked by the gateway", async () => {
+      await client.invoke(
+        IPC_ROUTES_CHANGED_METHOD,
+        { blocked: { "payment-service": "refused" } },
+        "$gateway"
+      );
+
+      await expect(
+        service.call("payment-service", "charge")
+      ).rejects.toMatchObject({
+        code: IPCErrorCode.SERVICE_NOT_FOUND,
+        details: { service: "payment-service", reason: "refused" },
+      });
+      expect(getCalls(client, "payment-service", "charge")).toHaveLength(0);
+    });
+
+    it("fails calls to draining services with SERVICE_DRAINING", async () => {
+      await client.invoke(
+        IPC_ROUTES_CHANGED_METHOD,
+        { blocked: { "payment-service": "draining" } },
+        "$gateway"
+      );
+
+      await expect(
+        service.call("payment-service", "charge")
+      ).rejects.toMatchObject({
+        code: IPCErrorCode.SERVICE_DRAINING,
+        details: { service: "payment-service", method: "charge" },
+      });
+      expect(getCalls(client, "payment-service", "charge")).toHaveLength(0);
+    });
+
+    it("routes again once unblocked", async () => {
+      await client.invoke(
+        IPC_ROUTES_CHANGED_METHOD,
+        { blocked: { "payment-service": "unauthenticated" } },
+        "$gateway"
+      );
+      await client.invoke(
+        IPC_ROUTES_CHANGED_METHOD,
+        { blocked: {} },
+        "$gateway"
+      );
+
+      await expect(service.call("payment-service", "charge")).resolves.toBe(
+        true
+      );
+    });
+  });
+
+  describe("drain()", () => {
+    @Injectable()
+    class ExportHandler {
+      finish?: () => void;
+
+      @IPCMethod()
+      async export() {
+        await new Promise<void>((resolve) => (this.finish = resolve));
+        return "exported";
+      }
+    }
+
+    let handler: ExportHandler;
+
+    beforeEach(async () => {
+      await moduleRef.close();
+      ({ moduleRef, service, client } = await createClient([ExportHandler]));
+      handler = moduleRef.get(ExportHandler);
+    });
+
+    it("refuses new calls and waits for the ones in flight", async () => {
+      const inFlight = client.invoke("export", {}, "web");
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const draining = service.drain(1000);
+
+      expect(service.isDraining()).toBe(true);
+      await expect(client.invoke("export", {}, "web")).rejects.toMatchObject({
+        code: IPCErrorCode.SERVICE_DRAINING,
+        details: { service: "order-service", method: "export" },
+      });
+      expect(client.isConnected()).toBe(true);
+
+      handler.finish!();
+      await expect(inFlight).resolves.toBe("exported");
+      await draining;
+
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it("disconnects once the grace period is over", async () => {
+      void client.invoke("export", {}, "web");
+      await new Promise((resolve) => setImmediate(resolve));
+
+      await service.drain(20);
+
+      expect(client.isConnected()).toBe(false);
+    });
+  });
+
+  describe("discovery", () => {
+    @Injectable()
+    class ReportHandler {
+      @IPCMethod()
+      async generate() {
+        return "report";
+      }
+    }
+
+    @Module({ providers: [ReportHandler] })
+    class ReportModule {}
+
+    @Injectable()
+    class AdminHandler {
+      @IPCMethod()
+      async purge() {
+        return "purged";
+      }
+    }
+
+    @Module({ providers: [AdminHandler] })
+    class AdminModule {}
+
+    @Injectable({ scope: Scope.REQUEST })
+    class ScopedHandler {
+      static instances = 0;
+
+      constructor(@Inject(REQUEST) private readonly request: IPCRequest) {
+        ScopedHandler.instances++;
+      }
+
+      @IPCMethod()
+      async whoAmI() {
+        return {
+          method: this.request.method,
+          caller: this.request.context?.chain[0],
+        };
+      }
+    }
+
+    async function discover(
+      config: Partial<IPCClientModuleConfig>,
+      imports: any[] = [],
+      providers: any[] = []
+    ) {
+      const moduleRef = await Test.createTestingModule({
+        imports: [
+          IPCTestingModule.create({ serviceName: "order-service", ...config }),
+          ...imports,
+        ],
+        providers,
+      }).compile();
+      await moduleRef.init();
+
+      return { moduleRef, client: moduleRef.get(IPCTestingClient) };
+    }
+
+    it("only scans the included modules", async () => {
+      const { moduleRef, client } = await discover(
+        { include: [ReportModule] },
+        [ReportModule, AdminModule]
+      );
+
+      await expect(client.invoke("generate")).resolves.toBe("report");
+      await expect(client.invoke("purge")).rejects.toMatchObject({
+        code: IPCErrorCode.METHOD_NOT_FOUND,
+      });
+      await moduleRef.close();
+    });
+
+    it("skips the excluded modules", async () => {
+      const { moduleRef, client } = await discover({ exclude: [AdminModule] }, [
+        ReportModule,
+        AdminModule,
+      ]);
+
+      await expect(client.invoke("generate")).resolves.toBe("report");
+      await expect(client.invoke("purge")).rejects.toMatchObject({
+        code: IPCErrorCode.METHOD_NOT_FOUND,
+      });
+      await moduleRef.close();
+    });
+
+    it("resolves request-scoped handlers for each call", async () => {
+      const { moduleRef, client } = await discover({}, [], [ScopedHandler]);
+      ScopedHandler.instances = 0;
+
+      await expect(
+        client.invoke("whoAmI", {}, { caller: "web" })
+      ).resolves.toEqual({ method: "whoAmI", caller: "web" });
+      await client.invoke("whoAmI");
+
+      expect(ScopedHandler.instances).toBe(2);
+      await moduleRef.close();
+    });
+
+    it("builds the enhancer chain of request-scoped handlers once", async () => {
+      const create = jest.spyOn(ExternalContextCreator.prototype, "create");
+      const { moduleRef, client } = await discover({}, [], [ScopedHandler]);
+      const created = create.mock.calls.length;
+
+      await client.invoke("whoAmI");
+      await client.invoke("whoAmI");
+
+      expect(create).toHaveBeenCalledTimes(created);
+      create.mockRestore();
+      await moduleRef.close();
+    });
+
+    it("rejects two handlers for the same method name", async () => {
+      @Injectable()
+      class LegacyReportHandler {
+        @IPCMethod({ name: "generate" })
+        async generateLegacy() {
+          return "legacy";
+        }
+      }
+
+      await expect(
+        discover({}, [], [ReportHandler, LegacyReportHandler])
+      ).rejects.toThrow(
+        'Duplicate IPC method "generate": ReportHandler.generate and LegacyReportHandler.generateLegacy'
+      );
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import "reflect-metadata";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCContext } from "ipc-bro";
+import { IPCClientService } from "../src/ipc-client.service";
+import {
+  IPC_CONTEXT_PARAM,
+  IPCContextService,
+  extractContext,
+  injectContext,
+  mergeContext,
+} from "../src/ipc-context.service";
+import { IPCMethod } from "../src/ipc-method.decorator";
+import { IPCTestingClient, IPCTestingModule } from "../src/ipc-testing.module";
+
+function context(chain: string[], deadline = 0): IPCContext {
+  return { root: "root-1", chain, depth: chain.length, deadline };
+}
+
+describe("context helpers", () => {
+  it("adds the next hop to plain object params and strips it back", () => {
+    const params = injectContext(
+      { userId: "1" },
+      context(["web"], 5000),
+      "order-service"
+    );
+
+    expect(params[IPC_CONTEXT_PARAM]).toEqual({
+      root: "root-1",
+      chain: ["web", "order-service"],
+      depth: 2,
+      deadline: 5000,
+    });
+    expect(extractContext(params)).toEqual({
+      params: { userId: "1" },
+      upstream: params[IPC_CONTEXT_PARAM],
+    });
+    expect(injectContext("raw", context(["web"]), "order-service")).toBe("raw");
+  });
+
+  it("continues upstream chains ending with the reported caller", () => {
+    const merged = mergeContext(
+      { root: "transport", chain: ["order-service"], depth: 1, deadline: 9000 },
+      context(["web", "order-service"], 5000)
+    );
+
+    expect(merged).toEqual({
+      root: "root-1",
+      chain: ["web", "order-service"],
+      depth: 2,
+      deadline: 5000,
+    });
+  });
+
+  it("ignores upstream chains claiming another caller", () => {
+    const received = context(["order-service"]);
+
+    expect(mergeContext(received, context(["web", "admin-service"]))).toBe(
+      received
+    );
+  });
+});
+
+@Injectable()
+class AuditService {
+  constructor(private readonly ipcContext: IPCContextService) {}
+
+  async record() {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    return {
+      caller: this.ipcContext.getCaller(),
+      chain: this.ipcContext.current()?.chain,
+    };
+  }
+}
+
+@Injectable()
+class OrderController {
+  constructor(
+    private readonly audit: AuditService,
+    private readonly ipc: IPCClientService
+  ) {}
+
+  @IPCMethod()
+  async cancelOrder() {
+    await this.ipc.call("user-service", "notify", {});
+    return this.audit.record();
+  }
+}
+
+describe("IPCContextService", () => {
+  let moduleRef: TestingModule;
+  let ipc: IPCTestingClient;
+  let ipcContext: IPCContextService;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [IPCTestingModule.create({ serviceName: "order-service" })],
+      providers: [AuditService, OrderController],
+    }).compile();
+    await moduleRef.init();
+    ipc = moduleRef.get(IPCTestingClient);
+    ipcContext = moduleRef.get(IPCContextService);
+    ipc.mockService("user-service", { notify: true });
+  });
+
+  afterEach(() => moduleRef.close());
+
+  it("is empty outside of IPC handlers", () => {
+    expect(ipcContext.current()).toBeUndefined();
+    expect(ipcContext.getRemainingTime()).toBeUndefined();
+  });
+
+  it("follows the handler through the service layers", async () => {
+    await expect(
+      ipc.invoke("cancelOrder", {}, { caller: "web" })
+    ).resolves.toEqual({ caller: "web", chain: ["web"] });
+
+    const [notify] = ipc.getCalls("user-service", "notify");
+    expect(notify.context.chain).toEqual(["web", "order-service"]);
+  });
+
+  it("runs work with a given context", async () => {
+    const job = context(["scheduler"], Date.now() + 1000);
+
+    await ipcContext.run(job, () =>
+      moduleRef.get(IPCClientService).call("user-service", "notify", {})
+    );
+
+    const [notify] = ipc.getCalls("user-service", "notify");
+    expect(notify.context).toMatchObject({
+      root: "root-1",
+      chain: ["scheduler", "order-service"],
+      deadline: job.deadline,
+    });
+  });
+});
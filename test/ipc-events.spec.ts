@@ -0,0 +1,201 @@
+import "reflect-metadata";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCServer as Server } from "ipc-bro";
+import { IPCClient, IPCServer } from "./ipc-bro.fake";
+import { IPCClientService } from "../src/ipc-client.service";
+import {
+  IPC_EVENT_METHOD,
+  IPCEvent,
+  IPCEventHandler,
+  IPCSubscriptionRegistry,
+  matchesTopic,
+} from "../src/ipc-events";
+import { IPCGatewayControl } from "../src/ipc-gateway.control";
+import { IPCTestingClient, IPCTestingModule } from "../src/ipc-testing.module";
+
+describe("matchesTopic()", () => {
+  it.each([
+    ["order.*", "order.created", true],
+    ["order.*", "order.item.added", false],
+    ["order.**", "order.item.added", true],
+    ["*.created", "order.created", true],
+    ["order.created", "order.created", true],
+    ["order.created", "order.createdAt", false],
+  ])("%s matches %s: %s", (pattern, topic, expected) => {
+    expect(matchesTopic(pattern, topic)).toBe(expected);
+  });
+});
+
+describe("IPCSubscriptionRegistry", () => {
+  it("replaces and drops subscriptions per service", () => {
+    const registry = new IPCSubscriptionRegistry();
+    registry.subscribe("mail-service", ["order.*", "order.*"]);
+    registry.subscribe("audit-service", ["**"]);
+
+    expect(registry.getSubscribers("order.created")).toEqual([
+      "mail-service",
+      "audit-service",
+    ]);
+    expect(registry.getSubscriptions()).toEqual({
+      "mail-service": ["order.*"],
+      "audit-service": ["**"],
+    });
+
+    registry.subscribe("mail-service", []);
+    registry.unsubscribe("audit-service");
+
+    expect(registry.getSubscriptions()).toEqual({});
+  });
+});
+
+describe("IPCGatewayControl.publish()", () => {
+  function createControl() {
+    const server = new IPCServer();
+    const control = new IPCGatewayControl(
+      server as unknown as Server,
+      "/tmp/test.sock"
+    );
+    const client = control.getClient() as unknown as IPCClient;
+
+    server.register("mail-service");
+    server.register("search-service");
+    return { server, control, client };
+  }
+
+  it("delivers to every connected subscriber", async () => {
+    const { server, control, client } = createControl();
+    const published = jest.fn();
+    server.on("event-published", published);
+    await client.invoke("subscribe", { topics: ["order.*"] }, "mail-service");
+    await client.invoke("subscribe", { topics: ["user.*"] }, "search-service");
+
+    const result = await control.publish("order.created", { orderId: "1" });
+
+    expect(result.subscribers).toEqual(["mail-service"]);
+    expect(client.call).toHaveBeenCalledWith(
+      "mail-service",
+      IPC_EVENT_METHOD,
+      expect.objectContaining({
+        topic: "order.created",
+        payload: { orderId: "1" },
+        from: "$gateway",
+        ack: false,
+      })
+    );
+    expect(published).toHaveBeenCalledWith(
+      expect.objectContaining({
+        topic: "order.created",
+        subscribers: ["mail-service"],
+      })
+    );
+  });
+
+  it("lists failed deliveries with ack", async () => {
+    const { control, client } = createControl();
+    await client.invoke("subscribe", { topics: ["cache.*"] }, "mail-service");
+    await client.invoke("subscribe", { topics: ["cache.*"] }, "search-service");
+    client.call.mockImplementation(async (service) => {
+      if (service === "search-service") {
+        throw new Error("Index locked");
+      }
+      return 1;
+    });
+
+    await expect(
+      control.publish("cache.flush", {}, { ack: true, from: "admin" })
+    ).resolves.toMatchObject({
+      delivered: ["mail-service"],
+      failed: [{ service: "search-service", error: "Index locked" }],
+    });
+  });
+
+  it("publishes from the calling service", async () => {
+    const { client } = createControl();
+    await client.invoke("subscribe", { topics: ["order.*"] }, "mail-service");
+
+    await client.invoke(
+      "publish",
+      { topic: "order.created", payload: {} },
+      "order-service"
+    );
+
+    expect(client.call).toHaveBeenCalledWith(
+      "mail-service",
+      IPC_EVENT_METHOD,
+      expect.objectContaining({ from: "order-service" })
+    );
+  });
+});
+
+@Injectable()
+class MailListener {
+  readonly received: [any, IPCEvent][] = [];
+
+  @IPCEventHandler("order.*")
+  async onOrder(payload: any, event: IPCEvent) {
+    this.received.push([payload, event]);
+  }
+
+  @IPCEventHandler("payment.failed")
+  async onPaymentFailed() {
+    throw new Error("SMTP down");
+  }
+}
+
+describe("@IPCEventHandler", () => {
+  let moduleRef: TestingModule;
+  let ipc: IPCTestingClient;
+  let listener: MailListener;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [IPCTestingModule.create({ serviceName: "mail-service" })],
+      providers: [MailListener],
+    }).compile();
+    await moduleRef.init();
+    await new Promise((resolve) => setImmediate(resolve));
+    ipc = moduleRef.get(IPCTestingClient);
+    listener = moduleRef.get(MailListener);
+  });
+
+  afterEach(() => moduleRef.close());
+
+  it("subscribes to the handlers' patterns once registered", () => {
+    expect(ipc.getSubscriptions()).toEqual(["order.*", "payment.failed"]);
+  });
+
+  it("runs matching handlers with the payload and the event", async () => {
+    await expect(
+      ipc.publish("order.created", { orderId: "1" }, { from: "order-service" })
+    ).resolves.toBe(1);
+
+    expect(listener.received).toEqual([
+      [
+        { orderId: "1" },
+        expect.objectContaining({
+          topic: "order.created",
+          from: "order-service",
+        }),
+      ],
+    ]);
+  });
+
+  it("fails acked events when a handler fails", async () => {
+    await expect(ipc.publish("payment.failed", {})).rejects.toThrow(
+      "SMTP down"
+    );
+    await expect(
+      ipc.publish("payment.failed", {}, { ack: false })
+    ).resolves.toBe(1);
+  });
+
+  it("records emitted events", async () => {
+    await moduleRef.get(IPCClientService).emit("mail.sent", { to: "ada" });
+
+    ipc.expectEmitted("mail.sent", { to: "ada" });
+    expect(() => ipc.expectEmitted("mail.bounced")).toThrow(
+      "Expected event mail.bounced, but it was never emitted"
+    );
+  });
+});
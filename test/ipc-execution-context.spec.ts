@@ -0,0 +1,143 @@
+import "reflect-metadata";
+import {
+  ArgumentsHost,
+  CallHandler,
+  CanActivate,
+  Catch,
+  ExceptionFilter,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  ParseIntPipe,
+  UseFilters,
+  UseGuards,
+  UseInterceptors,
+} from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { map } from "rxjs";
+import { IPCClient } from "./ipc-bro.fake";
+import { IPCClientModule } from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCError } from "../src/ipc-errors";
+import {
+  IPC_CONTEXT_TYPE,
+  IPCContextType,
+  IPCExecutionContext,
+} from "../src/ipc-execution-context";
+import { IPCMethod, IPCParam } from "../src/ipc-method.decorator";
+
+@Injectable()
+class CallerGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType<IPCContextType>() !== IPC_CONTEXT_TYPE) {
+      return false;
+    }
+
+    return IPCExecutionContext.create(context).getCallerService() === "admin";
+  }
+}
+
+@Injectable()
+class WrapInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler) {
+    const method = IPCExecutionContext.create(context).getParams().method;
+    return next.handle().pipe(map((data) => ({ method, data })));
+  }
+}
+
+@Catch()
+class ToIPCErrorFilter implements ExceptionFilter {
+  catch(exception: Error, _host: ArgumentsHost) {
+    throw new IPCError("PAGE_INVALID", exception.message);
+  }
+}
+
+@Injectable()
+class UserController {
+  @IPCMethod()
+  @UseGuards(CallerGuard)
+  async deleteUser(@IPCParam("userId") userId: string) {
+    return { deleted: userId };
+  }
+
+  @IPCMethod({
+    schema: {
+      type: "object",
+      required: ["userId"],
+      properties: { userId: { type: "string" } },
+    },
+  })
+  @UseGuards(CallerGuard)
+  async banUser(@IPCParam("userId") userId: string) {
+    return { banned: userId };
+  }
+
+  @IPCMethod()
+  @UseInterceptors(WrapInterceptor)
+  async listUsers(
+    @IPCParam("page", { pipes: [ParseIntPipe] }) page: number,
+    @IPCParam("method") _method: string
+  ) {
+    return { page };
+  }
+
+  @IPCMethod()
+  @UseFilters(ToIPCErrorFilter)
+  async countUsers(@IPCParam("page", { pipes: [ParseIntPipe] }) page: number) {
+    return page;
+  }
+}
+
+describe("Nest enhancers around @IPCMethod handlers", () => {
+  let moduleRef: TestingModule;
+  let ipc: IPCClient;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        IPCClientModule.register({
+          serviceName: "user-service",
+          gatewayPath: "/tmp/test-gateway.sock",
+        }),
+      ],
+      providers: [UserController, CallerGuard, WrapInterceptor],
+    }).compile();
+    await moduleRef.init();
+    ipc = moduleRef.get(IPCClientService).getClient() as unknown as IPCClient;
+  });
+
+  afterEach(() => moduleRef.close());
+
+  it("runs guards with the 'ipc' context type and the caller", async () => {
+    await expect(
+      ipc.invoke("deleteUser", { userId: "1" }, "admin")
+    ).resolves.toEqual({ deleted: "1" });
+    await expect(
+      ipc.invoke("deleteUser", { userId: "1" }, "web")
+    ).rejects.toThrow("Forbidden resource");
+  });
+
+  it("validates params after the guards", async () => {
+    await expect(ipc.invoke("banUser", {}, "web")).rejects.toThrow(
+      "Forbidden resource"
+    );
+    await expect(ipc.invoke("banUser", {}, "admin")).rejects.toMatchObject({
+      code: "VALIDATION_FAILED",
+    });
+    await expect(
+      ipc.invoke("banUser", { userId: "1" }, "admin")
+    ).resolves.toEqual({ banned: "1" });
+  });
+
+  it("runs param pipes and interceptors", async () => {
+    await expect(
+      ipc.invoke("listUsers", { page: "2", method: "list" }, "web")
+    ).resolves.toEqual({ method: "list", data: { page: 2 } });
+  });
+
+  it("runs exception filters on pipe and handler errors", async () => {
+    await expect(
+      ipc.invoke("countUsers", { page: "two" }, "web")
+    ).rejects.toMatchObject({ code: "PAGE_INVALID" });
+  });
+});
@@ -0,0 +1,168 @@
+import "reflect-metadata";
+import { mkdtemp, readdir, rm, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCErrorCode } from "../src/ipc-errors";
+import { IPCFileHandle, IPCFileStore } from "../src/ipc-files";
+import { IPCMethod, IPCParams, IPCTimeout } from "../src/ipc-method.decorator";
+import { IPCTestingModule } from "../src/ipc-testing.module";
+
+let uploadDir: string;
+
+beforeEach(async () => {
+  uploadDir = await mkdtemp(join(tmpdir(), "ipc-files-test-"));
+});
+
+afterEach(() => rm(uploadDir, { recursive: true, force: true }));
+
+describe("IPCFileStore", () => {
+  it("writes a payload and opens it as a verified handle", async () => {
+    const store = new IPCFileStore({ uploadDir });
+    const ref = await store.write(Buffer.from("hello"), {
+      name: "hello.txt",
+      mimeType: "text/plain",
+    });
+
+    expect(ref).toMatchObject({
+      name: "hello.txt",
+      size: 5,
+      sha256:
+        "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+    });
+
+    const { params, files } = await store.open({ file: ref, note: "x" });
+
+    expect(params.note).toBe("x");
+    expect(params.file).toBeInstanceOf(IPCFileHandle);
+    await expect(params.file.read()).resolves.toEqual(Buffer.from("hello"));
+
+    await store.release(files);
+    await expect(readdir(uploadDir)).resolves.toEqual([]);
+  });
+
+  it("keeps nothing past maxSize", async () => {
+    const store = new IPCFileStore({ uploadDir, maxSize: 4 });
+
+    await expect(
+      store.write(Readable.from([Buffer.from("abc"), Buffer.from("def")]))
+    ).rejects.toMatchObject({ code: IPCErrorCode.FILE_TOO_LARGE });
+    await expect(readdir(uploadDir)).resolves.toEqual([]);
+  });
+
+  it("refuses ids outside the upload directory and missing files", async () => {
+    const store = new IPCFileStore({ uploadDir });
+    const ref = await store.write(Buffer.from("hello"));
+
+    await expect(
+      store.open({ file: { ...ref, $file: "../etc/passwd" } })
+    ).rejects.toMatchObject({ code: IPCErrorCode.INVALID_PARAMS });
+    await expect(
+      store.open({ file: { ...ref, expiresAt: Date.now() - 1 } })
+    ).rejects.toMatchObject({ code: IPCErrorCode.FILE_NOT_FOUND });
+
+    await store.release([ref]);
+    await expect(store.open({ file: ref })).rejects.toMatchObject({
+      code: IPCErrorCode.FILE_NOT_FOUND,
+    });
+  });
+
+  it("fails reads of content changed after sending", async () => {
+    const store = new IPCFileStore({ uploadDir });
+    const ref = await store.write(Buffer.from("hello"));
+    await writeFile(join(uploadDir, ref.$file), "jello");
+
+    const { params } = await store.open({ file: ref });
+
+    await expect(params.file.read()).rejects.toMatchObject({
+      code: IPCErrorCode.FILE_CORRUPTED,
+    });
+  });
+
+  it("sweeps files older than the TTL", async () => {
+    const store = new IPCFileStore({ uploadDir, ttl: 60000 });
+    const old = await store.write(Buffer.from("old"));
+    const fresh = await store.write(Buffer.from("fresh"));
+    const past = new Date(Date.now() - 120000);
+    await utimes(join(uploadDir, old.$file), past, past);
+
+    await expect(store.sweep()).resolves.toBe(1);
+    await expect(readdir(uploadDir)).resolves.toEqual([fresh.$file]);
+  });
+});
+
+@Injectable()
+class MediaController {
+  @IPCMethod()
+  async transcode(
+    @IPCParams() params: { file: IPCFileHandle; format: string }
+  ) {
+    const content = await params.file.read();
+    return `${params.format}:${content.toString()}`;
+  }
+
+  thumbnails = 0;
+
+  // Times out on the first attempt, reads the file late
+  @IPCMethod()
+  @IPCTimeout(20)
+  async thumbnail(@IPCParams() params: { file: IPCFileHandle }) {
+    if (this.thumbnails++ === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 40));
+    }
+    return (await params.file.read()).toString();
+  }
+}
+
+describe("sendFile()", () => {
+  let moduleRef: TestingModule;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        IPCTestingModule.create({
+          serviceName: "media-service",
+          files: { uploadDir },
+        }),
+      ],
+      providers: [MediaController],
+    }).compile();
+    await moduleRef.init();
+  });
+
+  afterEach(() => moduleRef.close());
+
+  it("hands the file over and deletes it once the call returned", async () => {
+    const source = join(uploadDir, "..", `in-${Date.now()}.txt`);
+    await writeFile(source, "video");
+
+    try {
+      await expect(
+        moduleRef
+          .get(IPCClientService)
+          .sendFile("media-service", "transcode", source, { format: "webm" })
+      ).resolves.toBe("webm:video");
+      await expect(readdir(uploadDir)).resolves.toEqual([]);
+    } finally {
+      await rm(source, { force: true });
+    }
+  });
+
+  it("keeps the file for a retry after a TIMEOUT", async () => {
+    await expect(
+      moduleRef
+        .get(IPCClientService)
+        .sendFile(
+          "media-service",
+          "thumbnail",
+          Buffer.from("frame"),
+          {},
+          { retries: 1 }
+        )
+    ).resolves.toBe("frame");
+    await expect(readdir(uploadDir)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,356 @@
+import "reflect-metadata";
+import { IPCServer as Server } from "ipc-bro";
+import { IPCClient, IPCServer } from "./ipc-bro.fake";
+import { IPCErrorCode } from "../src/ipc-errors";
+import { IPCAuthenticator, createIPCServiceToken } from "../src/ipc-auth";
+import {
+  IPC_DISCONNECT_METHOD,
+  IPC_ROUTES_CHANGED_METHOD,
+  IPCGatewayControl,
+  IPCGatewayControlOptions,
+} from "../src/ipc-gateway.control";
+
+const controls: IPCGatewayControl[] = [];
+
+function createControl(options: IPCGatewayControlOptions = {}) {
+  const server = new IPCServer({ socketPath: "/tmp/test.sock" });
+  const control = new IPCGatewayControl(
+    server as unknown as Server,
+    "/tmp/test.sock",
+    options
+  );
+  controls.push(control);
+
+  return {
+    server,
+    control,
+    client: control.getClient() as unknown as IPCClient,
+  };
+}
+
+afterEach(async () => {
+  await Promise.all(controls.splice(0).map((control) => control.stop()));
+});
+
+describe("IPCGatewayControl", () => {
+  describe("catalog", () => {
+    it("describes services with their published catalog", async () => {
+      const { server, control, client } = createControl();
+      server.register("$gateway", ["getService"]);
+      server.register("user-service", ["getUser", "ping", "$disconnect"]);
+
+      await client.invoke(
+        "registerCatalog",
+        {
+          version: "1.2.0",
+          methods: [
+            { name: "getUser", description: "Get a user", timeout: 5000 },
+          ],
+        },
+        "user-service"
+      );
+
+      expect(control.getCatalog()).toEqual([
+        expect.objectContaining({
+          name: "user-service",
+          version: "1.2.0",
+          methods: [
+            { name: "getUser", description: "Get a user", timeout: 5000 },
+            { name: "ping" },
+          ],
+        }),
+      ]);
+    });
+
+    it("answers $gateway.getService and forgets services that left", async () => {
+      const { server, control, client } = createControl();
+      server.register("user-service", ["getUser"]);
+      await client.invoke("registerCatalog", { methods: [] }, "user-service");
+
+      await expect(
+        client.invoke("getService", { serviceName: "user-service" }, "web")
+      ).resolves.toMatchObject({ name: "user-service", methods: ["getUser"] });
+
+      server.unregister("user-service");
+
+      expect(control.getCatalogEntry("user-service")).toBeNull();
+      await expect(
+        client.invoke("getService", { serviceName: "user-service" }, "web")
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe("access control", () => {
+    it("decides without emitting call-denied", async () => {
+      const { server, control, client } = createControl();
+      control.getAccessControl().setPolicy({
+        defaultPolicy: "deny",
+        allow: ["web -> user-service.getUser"],
+      });
+      const denied = jest.fn();
+      server.on("call-denied", denied);
+
+      await expect(
+        client.invoke(
+          "authorize",
+          { from: "web", to: "user-service", method: "deleteUser" },
+          "user-service"
+        )
+      ).resolves.toEqual({ allowed: false });
+      expect(denied).not.toHaveBeenCalled();
+    });
+
+    it("emits call-denied for each reported denial", async () => {
+      const { server, client } = createControl();
+      const denied = jest.fn();
+      server.on("call-denied", denied);
+      const report = { from: "web", to: "billing-service", method: "refund" };
+
+      await client.invoke("callDenied", report, "user-service");
+      await client.invoke("callDenied", report, "user-service");
+
+      // `to` is always the reporting service
+      expect(denied.mock.calls).toEqual([
+        [{ from: "web", to: "user-service", method: "refund" }],
+        [{ from: "web", to: "user-service", method: "refund" }],
+      ]);
+    });
+  });
+
+  describe("authentication", () => {
+    const token = createIPCServiceToken({ service: "user-service" }, "s3cret");
+
+    function createAuthControl() {
+      return createControl({
+        authenticator: new IPCAuthenticator({ tokenSecret: "s3cret" }),
+      });
+    }
+
+    it("blocks routing to a service until it authenticates", async () => {
+      const { server, control, client } = createAuthControl();
+      server.register("user-service", ["getUser"]);
+
+      expect(control.getBlockedServices()).toEqual({
+        "user-service": "unauthenticated",
+      });
+      expect(client.call).toHaveBeenCalledWith(
+        "user-service",
+        IPC_ROUTES_CHANGED_METHOD,
+        { blocked: { "user-service": "unauthenticated" } }
+      );
+
+      await client.invoke("authenticate", { token }, "user-service");
+
+      expect(control.getBlockedServices()).toEqual({});
+      expect(client.call).toHaveBeenCalledWith(
+        "user-service",
+        IPC_ROUTES_CHANGED_METHOD,
+        { blocked: {} }
+      );
+    });
+
+    it("unregisters services that fail authentication", async () => {
+      const { server, control, client } = createAuthControl();
+      const refused = jest.fn();
+      server.on("registration-refused", refused);
+      server.register("user-service", ["getUser"]);
+
+      await expect(
+        client.invoke("authenticate", { token: "forged.token" }, "user-service")
+      ).rejects.toMatchObject({ code: IPCErrorCode.FORBIDDEN });
+
+      expect(refused).toHaveBeenCalledWith({
+        serviceName: "user-service",
+        reason: expect.stringContaining("invalid token signature"),
+      });
+      expect(control.getBlockedServices()).toEqual({
+        "user-service": "refused",
+      });
+      expect(control.getCatalogEntry("user-service")).toBeNull();
+      expect(client.call).toHaveBeenCalledWith(
+        "user-service",
+        IPC_DISCONNECT_METHOD,
+        expect.anything()
+      );
+    });
+
+    it("refuses a second connection under an authenticated name", async () => {
+      const { server, control, client } = createAuthControl();
+      const refused = jest.fn();
+      server.on("registration-refused", refused);
+      server.register("user-service", ["getUser"]);
+      await client.invoke("authenticate", { token }, "user-service");
+      await client.invoke("subscribe", { topics: ["order.*"] }, "user-service");
+
+      server.register("user-service", ["getUser"]);
+
+      expect(refused).toHaveBeenCalledWith({
+        serviceName: "user-service",
+        reason: "already authenticated on another connection",
+      });
+      expect(client.call).toHaveBeenCalledWith(
+        "user-service",
+        IPC_DISCONNECT_METHOD,
+        { reason: "already authenticated on another connection" }
+      );
+      // The authenticated connection keeps its routes and subscriptions
+      expect(control.getBlockedServices()).toEqual({});
+      expect(control.getSubscriptions()).toEqual({
+        "user-service": ["order.*"],
+      });
+      await expect(
+        client.invoke("getService", { serviceName: "user-service" }, "web")
+      ).resolves.toMatchObject({ name: "user-service" });
+    });
+
+    it("keeps the authenticated connection once the refused one left", async () => {
+      const { server, control, client } = createAuthControl();
+      const { connectedAt } = server.register("user-service", ["getUser"]);
+      await client.invoke("authenticate", { token }, "user-service");
+      await client.invoke("subscribe", { topics: ["order.*"] }, "user-service");
+      server.register("user-service", ["getUser"]);
+
+      server.unregister("user-service");
+
+      expect(server.getService("user-service").connectedAt).toBe(connectedAt);
+      expect(control.getSubscriptions()).toEqual({
+        "user-service": ["order.*"],
+      });
+      await expect(
+        client.invoke("publish", { topic: "order.created" }, "user-service")
+      ).resolves.toBeDefined();
+    });
+
+    it("blocks the name when only the refused connection is left", async () => {
+      const { server, control, client } = createAuthControl();
+      const { connectedAt } = server.register("user-service", ["getUser"]);
+      await client.invoke("authenticate", { token }, "user-service");
+      server.register("user-service", ["getUser"]);
+
+      server.unregister("user-service", connectedAt);
+
+      expect(control.getBlockedServices()).toEqual({
+        "user-service": "refused",
+      });
+
+      server.unregister("user-service");
+
+      expect(control.getBlockedServices()).toEqual({});
+    });
+
+    it("doesn't let unauthenticated services subscribe or publish", async () => {
+      const { server, control, client } = createAuthControl();
+      server.register("user-service");
+
+      await expect(
+        client.invoke("subscribe", { topics: ["order.*"] }, "user-service")
+      ).rejects.toMatchObject({ code: IPCErrorCode.FORBIDDEN });
+      await expect(
+        client.invoke("publish", { topic: "order.created" }, "user-service")
+      ).rejects.toMatchObject({ code: IPCErrorCode.FORBIDDEN });
+      expect(control.getSubscriptions()).toEqual({});
+    });
+
+    it("forgets blocked services that disconnect", async () => {
+      const { server, control } = createAuthControl();
+      server.register("user-service");
+
+      server.unregister("user-service");
+
+      expect(control.getBlockedServices()).toEqual({});
+    });
+  });
+
+  describe("draining", () => {
+    it("stops routing calls and events to draining services", async () => {
+      const { server, control, client } = createControl();
+      server.register("user-service");
+      server.register("audit-service");
+      await client.invoke("subscribe", { topics: ["user.*"] }, "user-service");
+      await client.invoke("subscribe", { topics: ["user.*"] }, "audit-service");
+
+      await client.invoke("drain", {}, "user-service");
+
+      expect(control.getDrainingServices()).toEqual(["user-service"]);
+      expect(control.getBlockedServices()).toEqual({
+        "user-service": "draining",
+      });
+      expect(client.call).toHaveBeenCalledWith(
+        "audit-service",
+        IPC_ROUTES_CHANGED_METHOD,
+        { blocked: { "user-service": "draining" } }
+      );
+      await expect(control.publish("user.created", {})).resolves.toMatchObject({
+        subscribers: ["audit-service"],
+      });
+    });
+
+    it("blocks every service before waiting for calls in flight", async () => {
+      const { server, control, client } = createControl();
+      server.register("user-service");
+      server.register("web");
+      server.emit("call-routed", { from: "web", to: "user-service" });
+
+      const draining = control.drain(1000);
+
+      expect(control.getBlockedServices()).toEqual({
+        "user-service": "draining",
+        web: "draining",
+      });
+      expect(client.call).toHaveBeenCalledWith(
+        "web",
+        IPC_ROUTES_CHANGED_METHOD,
+        { blocked: { "user-service": "draining", web: "draining" } }
+      );
+
+      server.emit("response-routed", { from: "user-service", to: "web" });
+      await expect(draining).resolves.toBe(0);
+    });
+
+    it("doesn't wait for control-plane calls", async () => {
+      const { server, control } = createControl();
+      server.emit("call-routed", { from: "web", to: "$gateway" });
+      server.emit("call-routed", { from: "$gateway", to: "web" });
+
+      const started = Date.now();
+
+      await expect(control.drain(1000)).resolves.toBe(0);
+      expect(Date.now() - started).toBeLessThan(500);
+    });
+
+    it("forgets draining services once they disconnect", async () => {
+      const { server, control, client } = createControl();
+      server.register("user-service");
+      await client.invoke("drain", {}, "user-service");
+
+      server.unregister("user-service");
+
+      expect(control.getDrainingServices()).toEqual([]);
+      expect(control.getBlockedServices()).toEqual({});
+    });
+  });
+
+  describe("disconnectService()", () => {
+    it("asks the service to disconnect", async () => {
+      const { server, control, client } = createControl();
+      server.register("user-service");
+      client.mockService("user-service", {});
+
+      await control.disconnectService("user-service", { reason: "redeploy" });
+
+      expect(client.call).toHaveBeenCalledWith(
+        "user-service",
+        IPC_DISCONNECT_METHOD,
+        { reason: "redeploy" }
+      );
+    });
+
+    it("fails for services that are not connected", async () => {
+      const { control } = createControl();
+
+      await expect(control.disconnectService("ghost")).rejects.toMatchObject({
+        code: IPCErrorCode.SERVICE_NOT_FOUND,
+      });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import "reflect-metadata";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCServer } from "ipc-bro";
+import { IPCClient } from "./ipc-bro.fake";
+import { IPCClientModule } from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCHealthIndicator, IPCHealthModule } from "../src/ipc-health.module";
+
+describe("IPCHealthIndicator", () => {
+  describe("service side", () => {
+    let moduleRef: TestingModule;
+    let health: IPCHealthIndicator;
+    let client: IPCClient;
+
+    beforeEach(async () => {
+      moduleRef = await Test.createTestingModule({
+        imports: [
+          IPCClientModule.register({
+            serviceName: "order-service",
+            gatewayPath: "/tmp/test-gateway.sock",
+          }),
+          IPCHealthModule.register({
+            dependencies: ["user-service"],
+            controller: false,
+          }),
+        ],
+      }).compile();
+      await moduleRef.init();
+      // Registration completes after connect() returned
+      await new Promise((resolve) => setImmediate(resolve));
+
+      health = moduleRef.get(IPCHealthIndicator);
+      client = moduleRef
+        .get(IPCClientService)
+        .getClient() as unknown as IPCClient;
+      client.mockService("$gateway", { getService: () => null });
+    });
+
+    afterEach(() => moduleRef.close());
+
+    it("is live while the gateway is unreachable", async () => {
+      await client.disconnect();
+
+      await expect(health.liveness()).resolves.toMatchObject({
+        status: "ok",
+      });
+    });
+
+    it("is ready once registered with every dependency connected", async () => {
+      client.mockService("$gateway", {
+        getService: ({ serviceName }) =>
+          serviceName === "user-service"
+            ? { name: serviceName, lastHeartbeat: Date.now() }
+            : null,
+      });
+
+      const result = await health.readiness();
+
+      expect(result.status).toBe("ok");
+      expect(Object.keys(result.info)).toEqual([
+        "ipc_gateway",
+        "ipc_registration",
+        "ipc_services",
+      ]);
+    });
+
+    it("is not ready while a dependency is missing", async () => {
+      const result = await health.readiness();
+
+      expect(result.status).toBe("error");
+      expect(result.error.ipc_services.services).toEqual({
+        "user-service": { status: "down", connected: false },
+      });
+    });
+  });
+
+  describe("gateway side", () => {
+    function createServer(running: boolean, lastHeartbeat = Date.now()) {
+      return {
+        getStatus: () => ({ running, connectedServices: 1, services: [] }),
+        isServiceConnected: (name: string) => name === "user-service",
+        getService: () => ({ lastHeartbeat }),
+      } as unknown as IPCServer;
+    }
+
+    it("fails liveness when the server is stopped", async () => {
+      const health = new IPCHealthIndicator(
+        {},
+        undefined,
+        undefined,
+        createServer(false)
+      );
+
+      await expect(health.liveness()).resolves.toMatchObject({
+        status: "error",
+        error: { ipc_gateway: { status: "down" } },
+      });
+    });
+
+    it("marks services with a stale heartbeat as down", async () => {
+      const health = new IPCHealthIndicator(
+        { dependencies: ["user-service"], maxHeartbeatAge: 1000 },
+        undefined,
+        undefined,
+        createServer(true, Date.now() - 5000)
+      );
+
+      const result = await health.readiness();
+
+      expect(result.status).toBe("error");
+      expect(result.error.ipc_services.services["user-service"]).toMatchObject({
+        status: "down",
+        connected: true,
+      });
+    });
+  });
+});
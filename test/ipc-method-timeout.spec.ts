@@ -0,0 +1,93 @@
+import "reflect-metadata";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCClient } from "./ipc-bro.fake";
+import { IPCClientModule } from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCErrorCode } from "../src/ipc-errors";
+import {
+  IPCAbortSignal,
+  IPCMethod,
+  IPCParams,
+  IPCTimeout,
+} from "../src/ipc-method.decorator";
+
+@Injectable()
+class ReportController {
+  runs = 0;
+  signal?: AbortSignal;
+
+  @IPCMethod()
+  @IPCTimeout(20)
+  async generate(
+    @IPCParams() _params: any,
+    @IPCAbortSignal() signal: AbortSignal
+  ) {
+    this.runs++;
+    this.signal = signal;
+    return new Promise(() => undefined);
+  }
+
+  @IPCMethod()
+  async quick() {
+    this.runs++;
+    return "done";
+  }
+}
+
+describe("handler-side timeouts", () => {
+  let moduleRef: TestingModule;
+  let ipc: IPCClient;
+  let controller: ReportController;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        IPCClientModule.register({
+          serviceName: "report-service",
+          gatewayPath: "/tmp/test-gateway.sock",
+        }),
+      ],
+      providers: [ReportController],
+    }).compile();
+    await moduleRef.init();
+    ipc = moduleRef.get(IPCClientService).getClient() as unknown as IPCClient;
+    controller = moduleRef.get(ReportController);
+  });
+
+  afterEach(() => moduleRef.close());
+
+  it("fails with TIMEOUT and aborts the handler after @IPCTimeout", async () => {
+    const timeouts: any[] = [];
+    ipc.on("method-timeout", (event) => timeouts.push(event));
+
+    await expect(ipc.invoke("generate", {}, "web")).rejects.toMatchObject({
+      code: IPCErrorCode.TIMEOUT,
+      details: { method: "generate", timeout: 20 },
+    });
+    expect(controller.signal?.aborted).toBe(true);
+    expect(timeouts).toEqual([
+      expect.objectContaining({
+        method: "generate",
+        timeout: 20,
+        caller: "web",
+      }),
+    ]);
+  });
+
+  it("bounds the handler by the caller's deadline", async () => {
+    await expect(
+      ipc.invoke("quick", {}, "web", { deadline: Date.now() + 1000 })
+    ).resolves.toBe("done");
+  });
+
+  it("does not run the handler once the caller's deadline passed", async () => {
+    await expect(
+      ipc.invoke("quick", {}, "web", { deadline: Date.now() - 10 })
+    ).rejects.toMatchObject({
+      code: IPCErrorCode.TIMEOUT,
+      message: "Deadline exceeded before running quick",
+    });
+    expect(controller.runs).toBe(0);
+  });
+});
@@ -0,0 +1,183 @@
+import "reflect-metadata";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCServer as Server } from "ipc-bro";
+import { IPCClient, IPCServer } from "./ipc-bro.fake";
+import { IPCClientModule } from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCError, IPCErrorCode } from "../src/ipc-errors";
+import { IPCMetricsRegistry } from "../src/ipc-metrics";
+import { IPCMetricsModule, IPCMetricsService } from "../src/ipc-metrics.module";
+
+describe("IPCMetricsRegistry", () => {
+  it("renders counters with default labels", () => {
+    const registry = new IPCMetricsRegistry({ defaultLabels: { env: "test" } });
+    const counter = registry.counter("jobs_total", "Jobs run");
+
+    counter.inc({ queue: "mail" });
+    counter.inc({ queue: "mail" }, 2);
+
+    expect(counter.get({ queue: "mail" })).toBe(3);
+    expect(registry.render()).toBe(
+      [
+        "# HELP jobs_total Jobs run",
+        "# TYPE jobs_total counter",
+        'jobs_total{env="test",queue="mail"} 3',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const registry = new IPCMetricsRegistry();
+    const histogram = registry.histogram("latency", "Latency", [0.1, 1]);
+
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 5);
+
+    expect(registry.render().split("\n")).toEqual(
+      expect.arrayContaining([
+        'latency_bucket{le="0.1"} 1',
+        'latency_bucket{le="1"} 2',
+        'latency_bucket{le="+Inf"} 3',
+        "latency_sum 5.55",
+        "latency_count 3",
+      ])
+    );
+  });
+
+  it("escapes label values", () => {
+    const registry = new IPCMetricsRegistry();
+    registry.gauge("up", "Up").set({ name: 'a"b\\c\nd' }, 1);
+
+    expect(registry.render()).toContain('up{name="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it("refuses a name registered with another type", () => {
+    const registry = new IPCMetricsRegistry();
+    registry.counter("calls", "Calls");
+
+    expect(() => registry.gauge("calls", "Calls")).toThrow(
+      "Metric calls is already registered as a counter"
+    );
+  });
+});
+
+describe("IPCMetricsService", () => {
+  describe("service side", () => {
+    let moduleRef: TestingModule;
+    let metrics: IPCMetricsService;
+
+    beforeEach(async () => {
+      moduleRef = await Test.createTestingModule({
+        imports: [
+          IPCClientModule.register({
+            serviceName: "order-service",
+            gatewayPath: "/tmp/test-gateway.sock",
+          }),
+          IPCMetricsModule.register({ controller: false }),
+        ],
+      }).compile();
+      await moduleRef.init();
+      metrics = moduleRef.get(IPCMetricsService);
+
+      const client = moduleRef
+        .get(IPCClientService)
+        .getClient() as unknown as IPCClient;
+      client.mockService("user-service", {
+        getUser: () => ({ id: "1" }),
+        deleteUser: () => {
+          throw new IPCError(IPCErrorCode.FORBIDDEN, "No");
+        },
+      });
+    });
+
+    afterEach(() => moduleRef.close());
+
+    it("counts calls by status", async () => {
+      const ipc = moduleRef.get(IPCClientService);
+
+      await ipc.call("user-service", "getUser");
+      await ipc.call("user-service", "deleteUser").catch(() => undefined);
+
+      const output = metrics.getMetrics();
+      expect(output).toContain(
+        'ipc_client_calls_total{from="order-service",to="user-service",method="getUser",status="success"} 1'
+      );
+      expect(output).toContain(
+        'ipc_client_calls_total{from="order-service",to="user-service",method="deleteUser",status="FORBIDDEN"} 1'
+      );
+      expect(output).toContain(
+        'ipc_client_calls_in_flight{from="order-service",to="user-service",method="getUser"} 0'
+      );
+    });
+
+    it("stops recording once destroyed", async () => {
+      const ipc = moduleRef.get(IPCClientService);
+      metrics.onModuleDestroy();
+
+      await ipc.call("user-service", "getUser");
+
+      expect(metrics.getMetrics()).not.toContain("ipc_client_calls_total{");
+    });
+  });
+
+  describe("gateway side", () => {
+    function createMetrics(responseTimeout?: number) {
+      const server = new IPCServer();
+      const metrics = new IPCMetricsService(
+        { prefix: "gw_", responseTimeout },
+        undefined,
+        undefined,
+        server as unknown as Server
+      );
+      metrics.onModuleInit();
+      return { server, metrics };
+    }
+
+    it("matches responses with routed calls", () => {
+      const { server, metrics } = createMetrics();
+      server.register("user-service");
+
+      server.emit("call-routed", {
+        from: "web",
+        to: "user-service",
+        method: "getUser",
+      });
+      server.emit("response-routed", { from: "user-service", to: "web" });
+
+      const output = metrics.getMetrics();
+      expect(output).toContain(
+        'gw_gateway_calls_total{from="web",to="user-service",method="getUser",status="success"} 1'
+      );
+      expect(output).toContain("gw_gateway_connected_services 1");
+    });
+
+    it("counts calls without response as timed out", async () => {
+      const { server, metrics } = createMetrics(5);
+
+      server.emit("call-routed", {
+        from: "web",
+        to: "user-service",
+        method: "getUser",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(metrics.getMetrics()).toContain(
+        'gw_gateway_timeouts_total{from="web",to="user-service",method="getUser"} 1'
+      );
+    });
+
+    it("counts reconnections", () => {
+      const { server, metrics } = createMetrics();
+
+      server.register("user-service");
+      server.unregister("user-service");
+      server.register("user-service");
+
+      expect(metrics.getMetrics()).toContain(
+        'gw_gateway_service_reconnects_total{service="user-service"} 1'
+      );
+    });
+  });
+});
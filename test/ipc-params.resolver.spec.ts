@@ -0,0 +1,107 @@
+import "reflect-metadata";
+import { IPCContext } from "ipc-bro";
+import {
+  IPCAbortSignal,
+  IPCCallContext,
+  IPCParam,
+  IPCParams,
+  createIPCParamDecorator,
+} from "../src/ipc-method.decorator";
+import { IPCParamsResolver } from "../src/ipc-params.resolver";
+import { IPCError, IPCErrorCode } from "../src/ipc-errors";
+
+const context: IPCContext = {
+  root: "api-gateway",
+  chain: ["api-gateway", "order-service"],
+  depth: 2,
+} as IPCContext;
+
+const Caller = createIPCParamDecorator(
+  (data, params, ctx) => ctx.chain[ctx.chain.length - 1]
+);
+
+class UserHandlers {
+  plain(params: any) {
+    return params;
+  }
+
+  getUser(
+    @IPCParam("userId") userId: string,
+    @IPCParam("limit", { defaultValue: 10 }) limit: number,
+    @IPCParam("includeOrders", { required: false }) includeOrders: boolean,
+    @IPCCallContext() ctx: IPCContext
+  ) {
+    return { userId, limit, includeOrders, ctx };
+  }
+
+  createUser(
+    @IPCCallContext() ctx: IPCContext,
+    @IPCParams() params: any,
+    @IPCAbortSignal() signal: AbortSignal,
+    @Caller() caller: string
+  ) {
+    return { ctx, params, signal, caller };
+  }
+}
+
+describe("IPCParamsResolver", () => {
+  it("passes the params object and the context without decorators", () => {
+    const resolver = new IPCParamsResolver(UserHandlers.prototype, "plain");
+    const params = { id: 1 };
+
+    expect(resolver.hasDecorators()).toBe(false);
+    expect(resolver.getParamsIndex()).toBe(0);
+    expect(resolver.resolve(params, context)).toEqual([params, context]);
+  });
+
+  it("resolves named params, defaults and the call context", () => {
+    const resolver = new IPCParamsResolver(UserHandlers.prototype, "getUser");
+
+    expect(resolver.resolve({ userId: "u1" }, context)).toEqual([
+      "u1",
+      10,
+      undefined,
+      context,
+    ]);
+    expect(resolver.getParamsIndex()).toBeUndefined();
+  });
+
+  it("fails with INVALID_PARAMS when a required param is missing", () => {
+    const resolver = new IPCParamsResolver(
+      UserHandlers.prototype,
+      "getUser",
+      "users.getUser"
+    );
+
+    let error: unknown;
+    try {
+      resolver.resolve({ limit: 5 }, context);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(IPCError);
+    expect((error as IPCError).code).toBe(IPCErrorCode.INVALID_PARAMS);
+    expect((error as IPCError).details).toEqual({
+      param: "userId",
+      method: "users.getUser",
+    });
+  });
+
+  it("resolves the whole params, the abort signal and custom decorators", () => {
+    const resolver = new IPCParamsResolver(
+      UserHandlers.prototype,
+      "createUser"
+    );
+    const signal = new AbortController().signal;
+    const params = { name: "Ada" };
+
+    expect(resolver.resolve(params, context, signal)).toEqual([
+      context,
+      params,
+      signal,
+      "order-service",
+    ]);
+    expect(resolver.getParamsIndex()).toBe(1);
+  });
+});
@@ -0,0 +1,99 @@
+import "reflect-metadata";
+import { DynamicModule, ValueProvider } from "@nestjs/common";
+import { Test } from "@nestjs/testing";
+import { IPCServer } from "./ipc-bro.fake";
+import { IPC_SERVER_TOKEN, IPCServerModule } from "../src/ipc-server.module";
+
+const socketPath = "/tmp/test-gateway.sock";
+
+afterEach(() => IPCServerModule.shutdown());
+
+function providedServer(module: DynamicModule): IPCServer {
+  const provider = module.providers!.find(
+    (provider: any) => provider.provide === IPC_SERVER_TOKEN
+  ) as ValueProvider<IPCServer>;
+
+  return provider.useValue;
+}
+
+describe("IPCServerModule", () => {
+  describe("register()", () => {
+    it("keeps the server and starts the control service with it", async () => {
+      const server = providedServer(IPCServerModule.register({ socketPath }));
+
+      expect(IPCServerModule.getServer()).toBe(server);
+      expect(IPCServerModule.getControl()).toBeNull();
+
+      await server.start();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(IPCServerModule.getControl()).not.toBeNull();
+    });
+
+    it("drains calls in flight for the grace period on shutdown()", async () => {
+      const server = providedServer(
+        IPCServerModule.register({ socketPath, gracePeriod: 60 })
+      );
+      await server.start();
+      await new Promise((resolve) => setImmediate(resolve));
+      const draining = jest.fn();
+      server.on("gateway-draining", draining);
+
+      server.emit("call-routed", { from: "web", to: "user-service" });
+      const started = Date.now();
+      await IPCServerModule.shutdown();
+
+      expect(draining).toHaveBeenCalledWith({
+        pendingCalls: 1,
+        gracePeriod: 60,
+      });
+      expect(Date.now() - started).toBeGreaterThanOrEqual(50);
+      expect(server.running).toBe(false);
+      expect(IPCServerModule.getServer()).toBeNull();
+      expect(IPCServerModule.getControl()).toBeNull();
+    });
+
+    it("shuts down on the configured signals", () => {
+      const before = process.listeners("SIGUSR2");
+
+      IPCServerModule.register({ socketPath, shutdownSignals: ["SIGUSR2"] });
+
+      const added = process
+        .listeners("SIGUSR2")
+        .filter((listener) => !before.includes(listener));
+      expect(added).toHaveLength(1);
+      added.forEach((listener) => process.removeListener("SIGUSR2", listener));
+    });
+  });
+
+  describe("registerAsync()", () => {
+    it("stops the server when the module is destroyed", async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [
+          IPCServerModule.registerAsync({
+            useFactory: () => ({ socketPath, gracePeriod: 10 }),
+          }),
+        ],
+      }).compile();
+      const server = moduleRef.get<IPCServer>(IPC_SERVER_TOKEN);
+      await server.start();
+
+      expect(IPCServerModule.getServer()).toBe(server);
+
+      await moduleRef.close();
+
+      expect(server.running).toBe(false);
+      expect(IPCServerModule.getServer()).toBeNull();
+    });
+  });
+
+  describe("boot()", () => {
+    it("starts the server and the control service", async () => {
+      const server = await IPCServerModule.boot({ socketPath });
+
+      expect(IPCServerModule.getServer()).toBe(server);
+      expect(IPCServerModule.getControl()).not.toBeNull();
+      expect(server.getStatus().running).toBe(true);
+    });
+  });
+});
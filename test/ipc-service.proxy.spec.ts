@@ -0,0 +1,172 @@
+import "reflect-metadata";
+import { inspect } from "util";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCClient } from "./ipc-bro.fake";
+import { IPCClientModule } from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import {
+  IPCServiceContract,
+  IPCServiceProxy,
+  createIPCServiceProxy,
+  getIPCServiceContractMethods,
+  getIPCServiceToken,
+} from "../src/ipc-service.proxy";
+
+@IPCServiceContract("user-service", { methods: ["getUserById", "listOrders"] })
+abstract class UserServiceContract {
+  abstract getUserById(params: { userId: string }): Promise<{ id: string }>;
+  abstract listOrders(params: { userId: string }): Promise<string[]>;
+}
+
+function createClient() {
+  return { call: jest.fn(async () => "result") };
+}
+
+function getFakeClient(moduleRef: TestingModule): IPCClient {
+  return moduleRef.get(IPCClientService).getClient() as unknown as IPCClient;
+}
+
+function registerClient() {
+  return IPCClientModule.register({
+    serviceName: "order-service",
+    gatewayPath: "/tmp/test-gateway.sock",
+  });
+}
+
+describe("createIPCServiceProxy", () => {
+  it("turns method calls into IPC calls", async () => {
+    const client = createClient();
+    const proxy = createIPCServiceProxy<IPCServiceProxy<UserServiceContract>>(
+      client as unknown as IPCClientService,
+      "user-service"
+    );
+
+    await expect(
+      proxy.getUserById({ userId: "1" }, { timeout: 100 })
+    ).resolves.toBe("result");
+    expect(client.call).toHaveBeenCalledWith(
+      "user-service",
+      "getUserById",
+      { userId: "1" },
+      { timeout: 100 }
+    );
+  });
+
+  it("returns undefined for lifecycle hooks, symbols and promise detection", () => {
+    const client = createClient();
+    const proxy = createIPCServiceProxy<any>(
+      client as unknown as IPCClientService,
+      "user-service"
+    );
+
+    for (const hook of [
+      "onModuleInit",
+      "onApplicationBootstrap",
+      "onModuleDestroy",
+      "beforeApplicationShutdown",
+      "onApplicationShutdown",
+      "then",
+      "toJSON",
+    ]) {
+      expect(proxy[hook]).toBeUndefined();
+    }
+    expect(proxy[Symbol.toPrimitive]).toBeUndefined();
+    expect(proxy[inspect.custom]).toBeUndefined();
+    expect(() => inspect(proxy)).not.toThrow();
+    expect(client.call).not.toHaveBeenCalled();
+  });
+
+  it("only exposes the declared methods of a class contract", async () => {
+    const client = createClient();
+    const proxy = createIPCServiceProxy<any>(
+      client as unknown as IPCClientService,
+      "user-service",
+      undefined,
+      getIPCServiceContractMethods(UserServiceContract)
+    );
+
+    expect(proxy.deleteUser).toBeUndefined();
+
+    await proxy.listOrders({ userId: "1" });
+    expect(client.call).toHaveBeenCalledWith(
+      "user-service",
+      "listOrders",
+      { userId: "1" },
+      undefined
+    );
+  });
+
+  it("keeps function members on proxied methods", async () => {
+    const client = createClient();
+    const proxy = createIPCServiceProxy<any>(
+      client as unknown as IPCClientService,
+      "user-service"
+    );
+    const getUserById = proxy.getUserById.bind(null);
+
+    await getUserById({ userId: "1" });
+    await proxy.getUserById.call(null, { userId: "2" });
+    await proxy.orders.list.apply(null, [{ userId: "3" }]);
+
+    expect(client.call.mock.calls).toEqual([
+      ["user-service", "getUserById", { userId: "1" }, undefined],
+      ["user-service", "getUserById", { userId: "2" }, undefined],
+      ["user-service", "orders.list", { userId: "3" }, undefined],
+    ]);
+    expect(proxy.orders.list.name).toBe("orders.list");
+    expect(proxy.getUserById.length).toBe(0);
+    expect(typeof proxy.orders.toString).toBe("function");
+  });
+
+  it("lets any method through for interface contracts", () => {
+    expect(getIPCServiceContractMethods({ service: "cart-service" })).toBe(
+      undefined
+    );
+  });
+});
+
+describe("IPCClientModule.forFeature", () => {
+  it("does not call the remote service during the app lifecycle", async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        registerClient(),
+        IPCClientModule.forFeature([
+          UserServiceContract,
+          { service: "cart-service" },
+        ]),
+      ],
+    }).compile();
+    await moduleRef.init();
+    await moduleRef.close();
+
+    const targets = getFakeClient(moduleRef).call.mock.calls.map(
+      ([service]) => service
+    );
+    expect(targets).not.toContain("user-service");
+    expect(targets).not.toContain("cart-service");
+  });
+
+  it("injects the proxy by service name and by contract class", async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        registerClient(),
+        IPCClientModule.forFeature([UserServiceContract]),
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    getFakeClient(moduleRef).mockService("user-service", {
+      getUserById: ({ userId }) => ({ id: userId }),
+    });
+
+    const users = moduleRef.get<UserServiceContract>(
+      getIPCServiceToken("user-service")
+    );
+    await expect(users.getUserById({ userId: "1" })).resolves.toEqual({
+      id: "1",
+    });
+    expect(moduleRef.get(UserServiceContract)).toBe(users);
+
+    await moduleRef.close();
+  });
+});
@@ -0,0 +1,261 @@
+import "reflect-metadata";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { Observable, from, lastValueFrom, take, toArray } from "rxjs";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCErrorCode } from "../src/ipc-errors";
+import { IPCAbortSignal, IPCParam } from "../src/ipc-method.decorator";
+import { IPC_ROUTES_CHANGED_METHOD } from "../src/ipc-gateway.control";
+import {
+  DEFAULT_IPC_STREAM_METADATA,
+  IPC_STREAM_PULL_METHOD,
+  IPCStream,
+  IPCStreamRegistry,
+} from "../src/ipc-stream";
+import { IPCTestingClient, IPCTestingModule } from "../src/ipc-testing.module";
+
+function tick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("IPCStreamRegistry", () => {
+  const options = { ...DEFAULT_IPC_STREAM_METADATA, chunkSize: 2 };
+  let registry: IPCStreamRegistry;
+
+  beforeEach(() => {
+    registry = new IPCStreamRegistry(10);
+  });
+
+  afterEach(() => registry.cancelAll("Test done"));
+
+  it("hands items out in chunks until done", async () => {
+    const { $stream } = registry.open(
+      "list",
+      "web",
+      [1, 2, 3, 4, 5],
+      options,
+      new AbortController()
+    );
+    await tick();
+
+    const chunks = [
+      await registry.pull($stream, "web"),
+      await registry.pull($stream, "web"),
+      await registry.pull($stream, "web"),
+    ];
+
+    expect(
+      chunks.map(({ seq, items, done }) => ({ seq, items, done }))
+    ).toEqual([
+      { seq: 0, items: [1, 2], done: false },
+      { seq: 1, items: [3, 4], done: false },
+      { seq: 2, items: [5], done: true },
+    ]);
+    expect(registry.getStreams()).toEqual([]);
+  });
+
+  it("sends the error on the last chunk, after the items", async () => {
+    async function* failing() {
+      yield 1;
+      throw Object.assign(new Error("Disk full"), { code: "EXPORT_FAILED" });
+    }
+    const { $stream } = registry.open(
+      "export",
+      "web",
+      failing(),
+      options,
+      new AbortController()
+    );
+    await tick();
+
+    await expect(registry.pull($stream, "web")).resolves.toMatchObject({
+      items: [1],
+      done: true,
+      error: { code: "EXPORT_FAILED", message: "Disk full" },
+    });
+  });
+
+  it("only lets the caller that opened a stream pull it", async () => {
+    const { $stream } = registry.open(
+      "list",
+      "web",
+      [1],
+      options,
+      new AbortController()
+    );
+
+    await expect(registry.pull($stream, "admin")).rejects.toMatchObject({
+      code: IPCErrorCode.STREAM_NOT_FOUND,
+    });
+    expect(registry.cancel($stream, "admin")).toBe(false);
+  });
+
+  it("stops reading AsyncIterables at the high water mark", async () => {
+    let produced = 0;
+    async function* numbers() {
+      while (true) {
+        yield produced++;
+      }
+    }
+    const { $stream } = registry.open(
+      "numbers",
+      "web",
+      numbers(),
+      { ...options, highWaterMark: 3 },
+      new AbortController()
+    );
+    await tick();
+    await tick();
+
+    expect(produced).toBe(3);
+
+    await registry.pull($stream, "web");
+    await tick();
+    await tick();
+
+    // Refilled up to the mark after a chunk of 2 was pulled
+    expect(produced).toBe(5);
+  });
+
+  it("aborts the producer on cancel and when idle", async () => {
+    const cancelled = new AbortController();
+    const idle = new AbortController();
+    const { $stream } = registry.open(
+      "watch",
+      "web",
+      new Observable(() => undefined),
+      options,
+      cancelled
+    );
+    registry.open(
+      "watch",
+      "web",
+      new Observable(() => undefined),
+      { ...options, idleTimeout: 10 },
+      idle
+    );
+
+    expect(registry.cancel($stream, "web", "Unsubscribed")).toBe(true);
+    expect(cancelled.signal.reason).toMatchObject({
+      code: IPCErrorCode.STREAM_CANCELLED,
+      message: "Unsubscribed",
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(idle.signal.reason).toMatchObject({
+      message: "Stream idle timeout",
+    });
+    expect(registry.getStreams()).toEqual([]);
+  });
+});
+
+@Injectable()
+class ReportController {
+  signal?: AbortSignal;
+
+  @IPCStream({ chunkSize: 2 })
+  async *exportRows(
+    @IPCParam("count") count: number,
+    @IPCAbortSignal() signal: AbortSignal
+  ) {
+    this.signal = signal;
+    for (let i = 0; i < count; i++) {
+      yield { row: i };
+    }
+  }
+
+  @IPCStream()
+  watch(@IPCAbortSignal() signal: AbortSignal) {
+    this.signal = signal;
+    return new Observable<number>((subscriber) => {
+      subscriber.next(1);
+    });
+  }
+}
+
+describe("ipc.stream()", () => {
+  let moduleRef: TestingModule;
+  let ipc: IPCClientService;
+  let client: IPCTestingClient;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [IPCTestingModule.create({ serviceName: "report-service" })],
+      providers: [ReportController],
+    }).compile();
+    await moduleRef.init();
+    ipc = moduleRef.get(IPCClientService);
+    client = moduleRef.get(IPCTestingClient);
+  });
+
+  afterEach(() => moduleRef.close());
+
+  it("receives every item of a stream method", async () => {
+    const rows = await lastValueFrom(
+      ipc.stream("report-service", "exportRows", { count: 5 }).pipe(toArray())
+    );
+
+    expect(rows).toEqual([0, 1, 2, 3, 4].map((row) => ({ row })));
+    expect(ipc.getStreams()).toEqual([]);
+  });
+
+  it("cancels the stream on the producer when unsubscribed", async () => {
+    await expect(
+      lastValueFrom(ipc.stream("report-service", "watch").pipe(take(1)))
+    ).resolves.toBe(1);
+    await tick();
+
+    expect(moduleRef.get(ReportController).signal?.aborted).toBe(true);
+    expect(ipc.getStreams()).toEqual([]);
+  });
+
+  it("streams from mocked services", async () => {
+    client.mockService("feed-service", { latest: () => from(["a", "b"]) });
+
+    await expect(
+      lastValueFrom(ipc.stream("feed-service", "latest").pipe(toArray()))
+    ).resolves.toEqual(["a", "b"]);
+  });
+
+  it("pulls for at most half the call's timeout", async () => {
+    client.mockService("feed-service", {
+      latest: () => new Observable<string>(() => undefined),
+    });
+
+    const subscription = ipc
+      .stream("feed-service", "latest", {}, { timeout: 100 })
+      .subscribe();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    subscription.unsubscribe();
+
+    expect(
+      client.getCalls("feed-service", IPC_STREAM_PULL_METHOD)[0].params
+    ).toMatchObject({ wait: 50 });
+  });
+
+  it("stops pulling from services that start draining", async () => {
+    client.mockService("feed-service", {
+      latest: () => new Observable<string>(() => undefined),
+    });
+    const rows = lastValueFrom(
+      ipc.stream("feed-service", "latest", {}, { timeout: 20 })
+    );
+    await tick();
+
+    await client.invoke(IPC_ROUTES_CHANGED_METHOD, {
+      blocked: { "feed-service": "draining" },
+    });
+
+    await expect(rows).rejects.toMatchObject({
+      code: IPCErrorCode.SERVICE_DRAINING,
+    });
+  });
+
+  it("gives a one-item stream for regular methods", async () => {
+    client.mockService("user-service", { getUser: { id: "1" } });
+
+    await expect(
+      lastValueFrom(ipc.stream("user-service", "getUser").pipe(toArray()))
+    ).resolves.toEqual([{ id: "1" }]);
+  });
+});
@@ -0,0 +1,168 @@
+import "reflect-metadata";
+import { AssertionError } from "assert";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCErrorCode } from "../src/ipc-errors";
+import { IPCMethod, IPCParams } from "../src/ipc-method.decorator";
+import { IPCTestingClient, IPCTestingModule } from "../src/ipc-testing.module";
+
+@Injectable()
+class OrderController {
+  constructor(private readonly ipc: IPCClientService) {}
+
+  @IPCMethod()
+  async getOrder(@IPCParams() { orderId }: { orderId: string }) {
+    const user = await this.ipc.call("user-service", "getUser", {
+      userId: "u1",
+    });
+    return { id: orderId, user };
+  }
+
+  @IPCMethod()
+  async countItems(@IPCParams() { items }: { items: string[] }) {
+    return items.length;
+  }
+}
+
+describe("IPCTestingModule", () => {
+  let moduleRef: TestingModule;
+  let ipc: IPCTestingClient;
+  let service: IPCClientService;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [IPCTestingModule.create({ serviceName: "order-service" })],
+      providers: [OrderController],
+    }).compile();
+    await moduleRef.init();
+    ipc = moduleRef.get(IPCTestingClient);
+    service = moduleRef.get(IPCClientService);
+  });
+
+  afterEach(() => moduleRef.close());
+
+  describe("mocks", () => {
+    it("answers with functions or fixed results, merged per service", async () => {
+      ipc.mockService("user-service", {
+        getUser: ({ userId }) => ({ userId }),
+      });
+      ipc.mockService("user-service", { ping: "pong" });
+
+      await expect(
+        service.call("user-service", "getUser", { userId: "1" })
+      ).resolves.toEqual({ userId: "1" });
+      await expect(service.call("user-service", "ping")).resolves.toBe("pong");
+    });
+
+    it("copies results like a trip over the wire", async () => {
+      const user = { id: "1", tags: ["a"] };
+      ipc.mockService("user-service", { getUser: user });
+
+      const result = await service.call("user-service", "getUser");
+      result.tags.push("b");
+
+      expect(user.tags).toEqual(["a"]);
+    });
+
+    it("fails for unknown services and methods", async () => {
+      ipc.mockService("user-service", { getUser: null });
+
+      await expect(service.call("ghost", "ping")).rejects.toMatchObject({
+        code: IPCErrorCode.SERVICE_NOT_FOUND,
+      });
+      await expect(
+        service.call("user-service", "deleteUser")
+      ).rejects.toMatchObject({ code: IPCErrorCode.METHOD_NOT_FOUND });
+    });
+
+    it("routes calls to ourselves through our handlers", async () => {
+      await expect(
+        service.call("order-service", "countItems", { items: ["a", "b"] })
+      ).resolves.toBe(2);
+    });
+  });
+
+  describe("invoke()", () => {
+    it("runs handlers with the caller's context", async () => {
+      ipc.mockService("user-service", { getUser: { id: "u1" } });
+
+      await expect(
+        ipc.invoke("getOrder", { orderId: "1" }, { caller: "api-gateway" })
+      ).resolves.toEqual({ id: "1", user: { id: "u1" } });
+
+      const [call] = ipc.getCalls("user-service", "getUser");
+      expect(call.params).toEqual({ userId: "u1" });
+      expect(call.context.chain).toEqual(["api-gateway", "order-service"]);
+    });
+
+    it("fails for methods we don't expose", async () => {
+      await expect(ipc.invoke("missing")).rejects.toMatchObject({
+        code: IPCErrorCode.METHOD_NOT_FOUND,
+      });
+    });
+  });
+
+  describe("assertions", () => {
+    beforeEach(() => {
+      ipc.mockService("user-service", { getUser: { id: "u1" } });
+    });
+
+    it("expectCalled() matches params deeply", async () => {
+      await ipc.invoke("getOrder", { orderId: "1" });
+
+      expect(() =>
+        ipc.expectCalled("user-service", "getUser", { userId: "u1" })
+      ).not.toThrow();
+      expect(() =>
+        ipc.expectCalled("user-service", "getUser", { userId: "u2" })
+      ).toThrow(AssertionError);
+      expect(() => ipc.expectNotCalled("user-service")).toThrow(
+        "Expected no call to user-service, got 1"
+      );
+    });
+
+    it("reset() forgets calls, and mocks when asked", async () => {
+      await ipc.invoke("getOrder", { orderId: "1" });
+
+      ipc.reset();
+      expect(ipc.getCalls()).toEqual([]);
+      await expect(service.call("user-service", "getUser")).resolves.toEqual({
+        id: "u1",
+      });
+
+      ipc.reset({ mocks: true });
+      await expect(
+        service.call("user-service", "getUser")
+      ).rejects.toMatchObject({ code: IPCErrorCode.SERVICE_NOT_FOUND });
+    });
+  });
+
+  describe("gateway", () => {
+    it("describes mocked services and ourselves", async () => {
+      ipc.mockService("user-service", { getUser: null });
+
+      await expect(
+        service.getRemoteService("user-service")
+      ).resolves.toMatchObject({ name: "user-service", methods: ["getUser"] });
+      await expect(
+        service.getRemoteService("order-service")
+      ).resolves.toMatchObject({
+        methods: expect.arrayContaining(["getOrder", "countItems"]),
+      });
+      await expect(service.getRemoteService("ghost")).resolves.toBeNull();
+    });
+
+    it("registers after connect() returned", async () => {
+      const registered = jest.fn();
+      ipc.on("registered", registered);
+
+      await ipc.disconnect();
+      await ipc.connect();
+
+      expect(registered).not.toHaveBeenCalled();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(registered).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { IPCErrorCode } from "../src/ipc-errors";
+import { IPCMethodLimiter } from "../src/ipc-throttle";
+
+const done = async () => "done";
+const hang = () => new Promise<never>(() => undefined);
+
+describe("IPCMethodLimiter", () => {
+  beforeEach(() => jest.useFakeTimers({ now: 0 }));
+  afterEach(() => jest.useRealTimers());
+
+  describe("@IPCThrottle", () => {
+    it("rejects calls over the limit with RATE_LIMITED", async () => {
+      const limiter = new IPCMethodLimiter("search", [
+        { limit: 1, windowMs: 1000 },
+      ]);
+
+      await expect(limiter.run("web", undefined, done)).resolves.toBe("done");
+      await expect(limiter.run("web", undefined, done)).rejects.toMatchObject({
+        code: IPCErrorCode.RATE_LIMITED,
+        message: "Too many calls to search from web",
+        details: {
+          method: "search",
+          caller: "web",
+          limit: 1,
+          windowMs: 1000,
+          per: "caller",
+          retryAfter: 1000,
+        },
+      });
+    });
+
+    it("keeps a window per caller unless global", async () => {
+      const perCaller = new IPCMethodLimiter("search", [
+        { limit: 1, windowMs: 1000 },
+      ]);
+      const global = new IPCMethodLimiter("search", [
+        { limit: 1, windowMs: 1000, per: "global" },
+      ]);
+
+      await perCaller.run("web", undefined, done);
+      await expect(perCaller.run("admin", undefined, done)).resolves.toBe(
+        "done"
+      );
+
+      await global.run("web", undefined, done);
+      await expect(global.run("admin", undefined, done)).rejects.toMatchObject({
+        code: IPCErrorCode.RATE_LIMITED,
+      });
+    });
+
+    it("runs queued calls in order as the window frees up", async () => {
+      const limiter = new IPCMethodLimiter("search", [
+        { limit: 1, windowMs: 100, queue: 2 },
+      ]);
+      const order: string[] = [];
+      const call = (name: string) =>
+        limiter.run("web", undefined, async () => order.push(name));
+
+      await call("first");
+      const queued = [call("second"), call("third")];
+      await expect(call("fourth")).rejects.toMatchObject({
+        code: IPCErrorCode.RATE_LIMITED,
+      });
+
+      await jest.advanceTimersByTimeAsync(200);
+      await Promise.all(queued);
+
+      expect(order).toEqual(["first", "second", "third"]);
+    });
+
+    it("doesn't count a call rejected by one limit against the others", async () => {
+      const limiter = new IPCMethodLimiter("search", [
+        { limit: 2, windowMs: 10000 },
+        { limit: 1, windowMs: 100, per: "global" },
+      ]);
+
+      await limiter.run("web", undefined, done);
+      await expect(limiter.run("web", undefined, done)).rejects.toMatchObject({
+        code: IPCErrorCode.RATE_LIMITED,
+        details: { per: "global" },
+      });
+      jest.advanceTimersByTime(100);
+
+      await expect(limiter.run("web", undefined, done)).resolves.toBe("done");
+    });
+  });
+
+  describe("@IPCConcurrency", () => {
+    it("hands the slot over to the next queued call", async () => {
+      const limiter = new IPCMethodLimiter("resize", [], {
+        limit: 1,
+        queue: 1,
+      });
+      let finish!: () => void;
+      const first = limiter.run(
+        "web",
+        undefined,
+        () => new Promise<void>((resolve) => (finish = resolve))
+      );
+      await Promise.resolve();
+
+      const second = limiter.run("web", undefined, done);
+      await expect(limiter.run("web", undefined, done)).rejects.toMatchObject({
+        code: IPCErrorCode.RATE_LIMITED,
+        details: { concurrency: 1, running: 1 },
+      });
+
+      finish();
+      await first;
+      await expect(second).resolves.toBe("done");
+    });
+
+    it("rejects queued calls once the queue timeout expired", async () => {
+      const limiter = new IPCMethodLimiter("resize", [], {
+        limit: 1,
+        queue: 1,
+        queueTimeout: 50,
+      });
+      void limiter.run("web", undefined, hang);
+      await Promise.resolve();
+
+      const queued = limiter.run("web", undefined, done);
+      const rejected = expect(queued).rejects.toMatchObject({
+        code: IPCErrorCode.RATE_LIMITED,
+      });
+      await jest.advanceTimersByTimeAsync(50);
+
+      await rejected;
+    });
+  });
+
+  it("takes the time spent queued out of the caller's deadline", async () => {
+    const limiter = new IPCMethodLimiter(
+      "report",
+      [{ limit: 1, windowMs: 100, queue: 1, queueTimeout: 1000 }],
+      { limit: 1, queue: 1, queueTimeout: 1000 }
+    );
+    void limiter.run("web", undefined, hang);
+    await Promise.resolve();
+
+    // Waits 100ms for the window, then at most 50ms for a running slot
+    let settled = false;
+    const queued = limiter.run("web", 150, done).finally(() => {
+      settled = true;
+    });
+    const rejected = expect(queued).rejects.toMatchObject({
+      code: IPCErrorCode.RATE_LIMITED,
+      details: { concurrency: 1 },
+    });
+
+    await jest.advanceTimersByTimeAsync(149);
+    expect(settled).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await rejected;
+  });
+});
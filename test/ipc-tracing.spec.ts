@@ -0,0 +1,202 @@
+import "reflect-metadata";
+import { EventEmitter } from "events";
+import { Injectable } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { IPCClient } from "./ipc-bro.fake";
+import { IPCClientModule } from "../src/ipc-client.module";
+import { IPCClientService } from "../src/ipc-client.service";
+import { IPCMethod, IPCParams } from "../src/ipc-method.decorator";
+import { IPCTraceMiddleware } from "../src/ipc-trace.middleware";
+import {
+  IPC_TRACE_PARAM,
+  IPCInMemorySpanExporter,
+  IPCTracer,
+  extractTraceparent,
+  formatTraceparent,
+  injectTraceparent,
+  parseTraceparent,
+} from "../src/ipc-tracing";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+describe("traceparent", () => {
+  it("parses and formats W3C headers", () => {
+    const context = parseTraceparent(TRACEPARENT);
+
+    expect(context).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: true,
+    });
+    expect(formatTraceparent(context!)).toBe(TRACEPARENT);
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled).toBe(
+      false
+    );
+  });
+
+  it("ignores invalid headers", () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent("garbage")).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${"0".repeat(32)}-${SPAN_ID}-01`)
+    ).toBeUndefined();
+  });
+
+  it("travels in plain object params only", () => {
+    const context = parseTraceparent(TRACEPARENT)!;
+    const params = injectTraceparent({ userId: "1" }, context);
+
+    expect(params).toEqual({ userId: "1", [IPC_TRACE_PARAM]: TRACEPARENT });
+    expect(extractTraceparent(params)).toEqual({
+      params: { userId: "1" },
+      parent: context,
+    });
+    expect(injectTraceparent([1, 2], context)).toEqual([1, 2]);
+  });
+});
+
+describe("IPCTracer", () => {
+  let exporter: IPCInMemorySpanExporter;
+  let tracer: IPCTracer;
+
+  beforeEach(() => {
+    exporter = new IPCInMemorySpanExporter();
+    tracer = new IPCTracer("order-service", { exporter });
+  });
+
+  it("nests spans started while another is active", async () => {
+    await tracer.trace("outer", () => tracer.trace("inner", async () => 1));
+
+    const [inner, outer] = exporter.getSpans();
+    expect(inner).toMatchObject({
+      name: "inner",
+      traceId: outer.traceId,
+      parentSpanId: outer.spanId,
+      status: "ok",
+    });
+    expect(outer.parentSpanId).toBeUndefined();
+  });
+
+  it("records the error of failed work", async () => {
+    await expect(
+      tracer.trace("fail", async () => {
+        throw Object.assign(new Error("Boom"), { code: "INTERNAL_ERROR" });
+      })
+    ).rejects.toThrow("Boom");
+
+    expect(exporter.getSpans()[0]).toMatchObject({
+      status: "error",
+      error: { message: "Boom", code: "INTERNAL_ERROR" },
+    });
+  });
+
+  it("doesn't export spans of unsampled traces", async () => {
+    await tracer.trace("skipped", async () => undefined, {
+      parent: parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`),
+    });
+
+    expect(exporter.getSpans()).toEqual([]);
+  });
+});
+
+@Injectable()
+class CheckoutController {
+  constructor(private readonly ipc: IPCClientService) {}
+
+  @IPCMethod()
+  async checkout(@IPCParams() params: { userId: string }) {
+    return this.ipc.call("user-service", "getUser", params);
+  }
+}
+
+describe("tracing through IPCClientService", () => {
+  let moduleRef: TestingModule;
+  let exporter: IPCInMemorySpanExporter;
+  let ipc: IPCClient;
+
+  beforeEach(async () => {
+    exporter = new IPCInMemorySpanExporter();
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        IPCClientModule.register({
+          serviceName: "order-service",
+          gatewayPath: "/tmp/test-gateway.sock",
+          tracing: { exporter },
+        }),
+      ],
+      providers: [CheckoutController, IPCTraceMiddleware],
+    }).compile();
+    await moduleRef.init();
+    ipc = moduleRef.get(IPCClientService).getClient() as unknown as IPCClient;
+    ipc.mockService("user-service", { getUser: () => ({ id: "1" }) });
+  });
+
+  afterEach(() => moduleRef.close());
+
+  it("continues the caller's trace in handlers and outgoing calls", async () => {
+    await ipc.invoke(
+      "checkout",
+      { userId: "1", [IPC_TRACE_PARAM]: TRACEPARENT },
+      "web"
+    );
+
+    const spans = exporter.getTrace(TRACE_ID);
+    const server = spans.find((span) => span.kind === "server")!;
+    const client = spans.find((span) => span.kind === "client")!;
+
+    expect(server).toMatchObject({
+      name: "order-service.checkout",
+      parentSpanId: SPAN_ID,
+    });
+    expect(client).toMatchObject({
+      name: "user-service.getUser",
+      parentSpanId: server.spanId,
+    });
+    expect(ipc.call).toHaveBeenCalledWith(
+      "user-service",
+      "getUser",
+      expect.objectContaining({
+        userId: "1",
+        [IPC_TRACE_PARAM]: formatTraceparent(client),
+      })
+    );
+  });
+
+  it("starts a server span for HTTP requests", () => {
+    const middleware = moduleRef.get(IPCTraceMiddleware);
+    const res = Object.assign(new EventEmitter(), {
+      statusCode: 503,
+      setHeader: jest.fn(),
+    });
+    const next = jest.fn();
+
+    middleware.use(
+      {
+        method: "GET",
+        originalUrl: "/orders?page=2",
+        headers: { traceparent: TRACEPARENT },
+      },
+      res,
+      next
+    );
+    res.emit("finish");
+
+    expect(next).toHaveBeenCalled();
+    const [span] = exporter.getSpans();
+    expect(span).toMatchObject({
+      name: "GET /orders",
+      kind: "server",
+      traceId: TRACE_ID,
+      parentSpanId: SPAN_ID,
+      status: "error",
+      attributes: { "http.status_code": 503 },
+    });
+    expect(res.setHeader).toHaveBeenCalledWith(
+      "traceparent",
+      formatTraceparent(span)
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import "reflect-metadata";
+import { IPCClient as BroClient } from "ipc-bro";
+import { lastValueFrom, of } from "rxjs";
+import { IPCClient } from "./ipc-bro.fake";
+import { IPCClientProxy } from "../src/ipc-client.proxy";
+import { IPCErrorCode } from "../src/ipc-errors";
+import {
+  IPCRpcContext,
+  IPCTransportStrategy,
+} from "../src/ipc-transport.strategy";
+
+describe("IPCTransportStrategy", () => {
+  let client: IPCClient;
+  let strategy: IPCTransportStrategy;
+
+  beforeEach(() => {
+    client = new IPCClient({ serviceName: "math-service" });
+    strategy = new IPCTransportStrategy({
+      client: client as unknown as BroClient,
+    });
+  });
+
+  async function listen(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      strategy.listen((error?: unknown) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  it("registers message patterns as methods", async () => {
+    const handler = jest.fn(
+      async (data: { a: number; b: number }, ctx: IPCRpcContext) => ({
+        sum: data.a + data.b,
+        pattern: ctx.getPattern(),
+        caller: ctx.getContext().chain[0],
+      })
+    );
+    strategy.addHandler("sum", handler as any);
+    await listen();
+
+    await expect(
+      client.invoke("sum", { a: 1, b: 2 }, "api-gateway")
+    ).resolves.toEqual({ sum: 3, pattern: "sum", caller: "api-gateway" });
+  });
+
+  it("resolves observables with their last value", async () => {
+    strategy.addHandler("range", (async () => of(1, 2, 3)) as any);
+    await listen();
+
+    await expect(client.invoke("range", {}, "api-gateway")).resolves.toBe(3);
+  });
+
+  it("runs event patterns without a result", async () => {
+    const handler = jest.fn(async () => "ignored");
+    strategy.addHandler("user_created", handler as any, true);
+    await listen();
+
+    await expect(
+      client.invoke("user_created", { userId: "1" }, "api-gateway")
+    ).resolves.toBeUndefined();
+    expect(handler).toHaveBeenCalledWith(
+      { userId: "1" },
+      expect.any(IPCRpcContext)
+    );
+  });
+
+  it("turns exception objects into IPC errors", async () => {
+    strategy.addHandler("fail", (async () => {
+      throw { code: "OUT_OF_STOCK", message: "No stock", sku: "a" };
+    }) as any);
+    await listen();
+
+    await expect(
+      client.invoke("fail", {}, "api-gateway")
+    ).rejects.toMatchObject({
+      code: "OUT_OF_STOCK",
+      message: "No stock",
+      details: { sku: "a" },
+    });
+  });
+});
+
+describe("IPCClientProxy", () => {
+  it("sends patterns to the remote service", async () => {
+    const caller = {
+      call: jest.fn<Promise<any>, any[]>(async () => ({ id: "1" })),
+    };
+    const proxy = new IPCClientProxy({
+      service: "user-service",
+      client: caller,
+    });
+
+    await expect(
+      lastValueFrom(proxy.send("get_user", { userId: "1" }))
+    ).resolves.toEqual({ id: "1" });
+    await lastValueFrom(proxy.send({ cmd: "sum" }, [1, 2]));
+
+    expect(caller.call.mock.calls).toEqual([
+      ["user-service", "get_user", { userId: "1" }],
+      ["user-service", '{"cmd":"sum"}', [1, 2]],
+    ]);
+  });
+
+  it("surfaces remote errors", async () => {
+    const caller = {
+      call: jest.fn<Promise<any>, any[]>(async () => {
+        throw Object.assign(new Error("Not found"), {
+          code: IPCErrorCode.METHOD_NOT_FOUND,
+        });
+      }),
+    };
+    const proxy = new IPCClientProxy({
+      service: "user-service",
+      client: caller,
+    });
+
+    await expect(
+      lastValueFrom(proxy.send("missing", {}))
+    ).rejects.toMatchObject({ code: IPCErrorCode.METHOD_NOT_FOUND });
+  });
+
+  it("emits events as calls", async () => {
+    const caller = {
+      call: jest.fn<Promise<any>, any[]>(async () => undefined),
+    };
+    const proxy = new IPCClientProxy({
+      service: "audit-service",
+      client: caller,
+    });
+
+    await lastValueFrom(proxy.emit("user_created", { userId: "1" }), {
+      defaultValue: undefined,
+    });
+
+    expect(caller.call).toHaveBeenCalledWith("audit-service", "user_created", {
+      userId: "1",
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import "reflect-metadata";
+import { IsEmail, IsString, MinLength } from "class-validator";
+import { IPCErrorCode } from "../src/ipc-errors";
+import {
+  ClassValidatorAdapter,
+  IPCValidator,
+  JsonSchemaAdapter,
+} from "../src/ipc-validation";
+
+class CreateUserDto {
+  @IsString()
+  @MinLength(2)
+  name!: string;
+
+  @IsEmail()
+  email!: string;
+}
+
+class PlainParams {
+  userId!: string;
+}
+
+describe("IPCValidator", () => {
+  const validator = new IPCValidator();
+
+  it("validates design types with class-validator rules", () => {
+    expect(
+      validator.resolveSchema("createUser", undefined, CreateUserDto)
+    ).toBe(CreateUserDto);
+  });
+
+  it("skips design types without class-validator rules", () => {
+    expect(
+      validator.resolveSchema("getUser", undefined, PlainParams)
+    ).toBeUndefined();
+    expect(
+      validator.resolveSchema("getUser", undefined, Object)
+    ).toBeUndefined();
+  });
+
+  it("skips design types when useDesignType is false", () => {
+    expect(
+      new IPCValidator({ useDesignType: false }).resolveSchema(
+        "createUser",
+        undefined,
+        CreateUserDto
+      )
+    ).toBeUndefined();
+  });
+
+  it("rejects an explicit schema no adapter supports", () => {
+    const jsonOnly = new IPCValidator({ adapters: [new JsonSchemaAdapter()] });
+
+    expect(() =>
+      jsonOnly.resolveSchema("createUser", CreateUserDto, undefined)
+    ).toThrow("No validator adapter supports the schema of method: createUser");
+  });
+
+  it("returns the DTO instance when params are valid", async () => {
+    const value = await validator.validate("createUser", CreateUserDto, {
+      name: "Ada",
+      email: "ada@example.com",
+    });
+
+    expect(value).toBeInstanceOf(CreateUserDto);
+  });
+
+  it("fails with VALIDATION_FAILED and every failed field", async () => {
+    await expect(
+      validator.validate("createUser", CreateUserDto, {
+        name: "A",
+        email: "nope",
+      })
+    ).rejects.toMatchObject({
+      code: IPCErrorCode.VALIDATION_FAILED,
+      message: "Validation failed for method: createUser (name, email)",
+      details: {
+        method: "createUser",
+        errors: [
+          expect.objectContaining({ path: "name", constraint: "minLength" }),
+          expect.objectContaining({ path: "email", constraint: "isEmail" }),
+        ],
+      },
+    });
+  });
+
+  it("accepts an explicit class without rules", async () => {
+    await expect(
+      validator.validate("getUser", PlainParams, { userId: "1" })
+    ).resolves.toBeInstanceOf(PlainParams);
+  });
+
+  it("honors forbidUnknownValues when passed", async () => {
+    const strict = new IPCValidator({
+      adapters: [new ClassValidatorAdapter({ forbidUnknownValues: true })],
+    });
+
+    await expect(
+      strict.validate("getUser", PlainParams, { userId: "1" })
+    ).rejects.toMatchObject({ code: IPCErrorCode.VALIDATION_FAILED });
+  });
+});
+
+describe("JsonSchemaAdapter", () => {
+  const adapter = new JsonSchemaAdapter();
+  const schema = {
+    type: "object",
+    required: ["userId"],
+    additionalProperties: false,
+    properties: {
+      userId: { type: "string", minLength: 1 },
+      tags: { type: "array", items: { type: "string" } },
+    },
+  };
+
+  it("reports missing, mistyped and unknown fields", () => {
+    expect(
+      adapter.validate(schema, { tags: ["a", 1], extra: true }).errors
+    ).toEqual([
+      { path: "userId", message: "userId is required", constraint: "required" },
+      {
+        path: "tags[1]",
+        message: "tags[1] must be of type string",
+        constraint: "type",
+      },
+      {
+        path: "extra",
+        message: "extra is not allowed",
+        constraint: "additionalProperties",
+      },
+    ]);
+  });
+
+  it("passes valid params", () => {
+    expect(adapter.validate(schema, { userId: "1", tags: [] }).errors).toEqual(
+      []
+    );
+  });
+});